@@ -0,0 +1,226 @@
+// Local stand-in for the voice-assistant WebSocket backend, for trying the websocket voice
+// transport offline. Speaks the same start/ready/media/audio/ping/pong protocol as
+// src/utils/DataProtocol.ts and echoes the caller's audio back so both directions can be heard.
+// Uses only Node built-ins.
+//
+//   npm run mock:voice
+//
+// MOCK_VOICE_PORT           port to listen on (default 8787)
+// MOCK_VOICE_DROP_AFTER_MS  cut every connection after this long, to exercise reconnect and resume
+// MOCK_VOICE_JITTER_MS      delay echoed audio by a random amount up to this, to exercise the jitter buffer
+import { createServer } from 'node:http';
+import { createHash, randomUUID } from 'node:crypto';
+
+const PROTOCOL_VERSION = 1;
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const PORT = Number(process.env.MOCK_VOICE_PORT) || 8787;
+const DROP_AFTER_MS = Number(process.env.MOCK_VOICE_DROP_AFTER_MS) || 0;
+const JITTER_MS = Number(process.env.MOCK_VOICE_JITTER_MS) || 0;
+// A transcript line is sent after this many media chunks, so the transcript panel has something to show
+const TRANSCRIPT_EVERY_CHUNKS = 40;
+
+const OPCODE_TEXT = 0x1;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+// sessionId -> { chunks received, next audio sequence number }, kept across connections so a
+// reconnecting client resumes
+const sessions = new Map();
+
+function encodeFrame(opcode, payload) {
+  const length = payload.length;
+  let header;
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+// Pulls complete frames off the front of the buffer. Browsers always mask what they send.
+function decodeFrames(buffer) {
+  const frames = [];
+  let offset = 0;
+
+  while (buffer.length - offset >= 2) {
+    const fin = (buffer[offset] & 0x80) !== 0;
+    const opcode = buffer[offset] & 0x0f;
+    const masked = (buffer[offset + 1] & 0x80) !== 0;
+    let length = buffer[offset + 1] & 0x7f;
+    let headerLength = 2;
+
+    if (length === 126) {
+      if (buffer.length - offset < 4) break;
+      length = buffer.readUInt16BE(offset + 2);
+      headerLength = 4;
+    } else if (length === 127) {
+      if (buffer.length - offset < 10) break;
+      length = Number(buffer.readBigUInt64BE(offset + 2));
+      headerLength = 10;
+    }
+
+    const maskLength = masked ? 4 : 0;
+    if (buffer.length - offset < headerLength + maskLength + length) break;
+
+    const mask = buffer.subarray(offset + headerLength, offset + headerLength + maskLength);
+    const payload = Buffer.from(buffer.subarray(offset + headerLength + maskLength, offset + headerLength + maskLength + length));
+    if (masked) {
+      for (let i = 0; i < payload.length; i++) {
+        payload[i] ^= mask[i % 4];
+      }
+    }
+
+    frames.push({ fin, opcode, payload });
+    offset += headerLength + maskLength + length;
+  }
+
+  return { frames, rest: buffer.subarray(offset) };
+}
+
+function handleConnection(socket, token) {
+  let buffered = Buffer.alloc(0);
+  let fragments = [];
+  let sessionId = null;
+
+  const send = (message) => {
+    if (socket.destroyed) return;
+    socket.write(encodeFrame(OPCODE_TEXT, Buffer.from(JSON.stringify({ version: PROTOCOL_VERSION, ...message }))));
+  };
+
+  // With MOCK_VOICE_JITTER_MS set, each chunk is held back a random amount up to that long,
+  // which also reorders them, to exercise the client's jitter buffer
+  const sendAudio = (audio, sequenceNumber) => {
+    const message = { event: 'audio', audio, sequenceNumber };
+    if (JITTER_MS > 0) {
+      setTimeout(() => send(message), Math.random() * JITTER_MS);
+    } else {
+      send(message);
+    }
+  };
+
+  const close = (code, reason) => {
+    if (socket.destroyed) return;
+    const payload = Buffer.alloc(2 + Buffer.byteLength(reason));
+    payload.writeUInt16BE(code, 0);
+    payload.write(reason, 2);
+    socket.end(encodeFrame(OPCODE_CLOSE, payload));
+  };
+
+  const handleMessage = (text) => {
+    let message;
+    try {
+      message = JSON.parse(text);
+    } catch {
+      send({ event: 'error', message: 'payload is not valid JSON' });
+      return;
+    }
+
+    if (message.event === 'start') {
+      const resumed = typeof message.sessionId === 'string' && sessions.has(message.sessionId);
+      sessionId = resumed ? message.sessionId : randomUUID();
+      if (!resumed) {
+        sessions.set(sessionId, { chunks: 0, sequenceNumber: 0 });
+      }
+      console.log(`${resumed ? 'Resumed' : 'Started'} session ${sessionId} for call ${message.callId}`);
+      send({ event: 'ready', sessionId });
+    } else if (message.event === 'media') {
+      if (!sessionId) {
+        send({ event: 'error', message: 'media before start' });
+        return;
+      }
+      const session = sessions.get(sessionId);
+      sendAudio(message.audio, session.sequenceNumber++);
+
+      session.chunks++;
+      if (session.chunks % TRANSCRIPT_EVERY_CHUNKS === 0) {
+        send({ event: 'transcript', text: `Mock server has received ${session.chunks} audio chunks`, isFinal: true, timestamp: Date.now() });
+      }
+    } else if (message.event === 'ping') {
+      send({ event: 'pong', timestamp: message.timestamp });
+    } else if (message.event === 'stop') {
+      console.log(`Session ${sessionId} stopped`);
+      if (sessionId) {
+        sessions.delete(sessionId);
+      }
+      close(1000, 'stopped');
+    }
+  };
+
+  if (!token) {
+    close(1008, 'missing token');
+    return;
+  }
+
+  socket.on('data', (data) => {
+    const { frames, rest } = decodeFrames(Buffer.concat([buffered, data]));
+    buffered = rest;
+
+    for (const frame of frames) {
+      if (frame.opcode === OPCODE_CLOSE) {
+        close(1000, '');
+        return;
+      }
+      if (frame.opcode === OPCODE_PING) {
+        socket.write(encodeFrame(OPCODE_PONG, frame.payload));
+        continue;
+      }
+      if (frame.opcode === OPCODE_PONG) {
+        continue;
+      }
+
+      fragments.push(frame.payload);
+      if (frame.fin) {
+        handleMessage(Buffer.concat(fragments).toString('utf8'));
+        fragments = [];
+      }
+    }
+  });
+
+  socket.on('error', (error) => console.warn('Socket error:', error.message));
+
+  if (DROP_AFTER_MS > 0) {
+    const timer = setTimeout(() => {
+      console.log(`Dropping connection for session ${sessionId} to test reconnect`);
+      socket.destroy();
+    }, DROP_AFTER_MS);
+    socket.on('close', () => clearTimeout(timer));
+  }
+}
+
+const server = createServer((_request, response) => {
+  response.writeHead(426, { 'Content-Type': 'text/plain' });
+  response.end('WebSocket connections only\n');
+});
+
+server.on('upgrade', (request, socket) => {
+  const key = request.headers['sec-websocket-key'];
+  if (!key) {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+
+  const accept = createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+    'Upgrade: websocket\r\n' +
+    'Connection: Upgrade\r\n' +
+    `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+
+  const token = new URL(request.url ?? '/', 'http://localhost').searchParams.get('token');
+  handleConnection(socket, token);
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock voice server listening on ws://localhost:${PORT}`);
+});
@@ -1,27 +1,72 @@
 import { useState, useEffect, useRef } from 'react';
-import { Bell, BellOff, LogOut, Phone as PhoneIcon } from 'lucide-react';
-import { Room } from 'livekit-client';
+import { Bell, BellOff, LogOut, MonitorUp, MonitorX, Pause, Phone as PhoneIcon, PhoneForwarded, Play, UserPlus } from 'lucide-react';
+import { Room, AudioCaptureOptions, VideoCaptureOptions, VideoPresets } from 'livekit-client';
 import { useAuth } from './contexts/AuthContext';
 import AuthScreen from './components/AuthScreen';
 import Dialpad from './components/Dialpad';
+import InCallKeypad from './components/InCallKeypad';
 import UnifiedContacts from './components/UnifiedContacts';
 import PhoneContactModal from './components/PhoneContactModal';
 import CallHistory from './components/CallHistory';
 import IncomingCallDialog from './components/IncomingCallDialog';
 import VideoGrid from './components/VideoGrid';
 import ParticipantNotification from './components/ParticipantNotification';
+import ParticipantsPanel from './components/ParticipantsPanel';
 import MediaWorkerBadge from './components/MediaWorkerBadge';
+import DeviceSettings from './components/DeviceSettings';
+import NoiseSuppressionControl from './components/NoiseSuppressionControl';
+import BackgroundEffectControl from './components/BackgroundEffectControl';
+import BandwidthProfileControl from './components/BandwidthProfileControl';
+import ConnectionStatusBanner from './components/ConnectionStatusBanner';
+import AudioPlaybackPrompt from './components/AudioPlaybackPrompt';
+import HoldBanner from './components/HoldBanner';
+import EncryptionBanner from './components/EncryptionBanner';
+import TransferBanner from './components/TransferBanner';
+import TransferCallModal from './components/TransferCallModal';
+import AddParticipantModal from './components/AddParticipantModal';
+import RecordingControl from './components/RecordingControl';
+import ReactionControl from './components/ReactionControl';
+import LayoutControl from './components/LayoutControl';
+import PictureInPictureControl from './components/PictureInPictureControl';
+import RecordingSaveModal from './components/RecordingSaveModal';
+import PreCallCheckModal from './components/PreCallCheckModal';
+import ChatPanel from './components/ChatPanel';
+import TranscriptPanel from './components/TranscriptPanel';
+import VoiceDiagnostics from './components/VoiceDiagnostics';
 import { PresenceManager } from './utils/PresenceManager';
 import { NotificationManager } from './utils/NotificationManager';
 import { CallInvitationService } from './utils/CallInvitationService';
-import { LiveKitClient, CallStatusEvent } from './utils/LiveKitClient';
-import { DialService } from './utils/DialService';
+import { LiveKitClient, CallStatusEvent, ConnectionStatus, EncryptionState, NoiseSuppressionSettings } from './utils/LiveKitClient';
+import { CallKeyExchange, isCallEncryptionSupported, loadCallEncryption, saveCallEncryption } from './utils/CallEncryption';
+import { DialService, TransferTarget } from './utils/DialService';
+import { CallTransfer, TransferMode, TransferProgress, TransferResult } from './utils/CallTransfer';
+import { SessionInvitationTracker } from './utils/SessionInvitations';
+import { AdminControlService } from './utils/AdminControlService';
 import { TokenManager } from './utils/TokenManager';
 import { AudioRecorder } from './utils/AudioRecorder';
+import { getVoiceTransport, WebSocketClient } from './utils/WebSocketClient';
+import { ParticipantNetworkStats } from './utils/CallQualityMonitor';
+import { BackgroundEffect, BackgroundFallbackReason, BackgroundProcessor } from './utils/BackgroundProcessor';
+import { ParticipantPlayback } from './utils/AudioOutputRouter';
+import { isPreCallCheckSkipped, setPreCallCheckSkipped } from './utils/PreCallCheck';
+import { BandwidthProfileName, DEFAULT_BANDWIDTH_PROFILE, loadBandwidthProfile, saveBandwidthProfile } from './utils/BandwidthProfiles';
+import { DEFAULT_VIDEO_LAYOUT, loadVideoLayout, saveVideoLayout, VideoLayoutMode } from './utils/VideoLayout';
+import { loadAutoPictureInPicture, saveAutoPictureInPicture } from './utils/PictureInPicture';
+import { useActiveSpeakers } from './hooks/useActiveSpeakers';
+import { useLiveKitEvent } from './hooks/useLiveKitEvent';
+import { DEFAULT_NOISE_SUPPRESSION_STRENGTH, NoiseSuppressionProcessor, NoiseSuppressionStats } from './utils/NoiseSuppressionProcessor';
+import { CallRecorder, CallRecording } from './utils/CallRecorder';
+import { RecordingHistoryLink } from './utils/RecordingStorage';
+import { ChatService, ChatEntry } from './utils/ChatService';
+import { TranscriptService, TranscriptSegment } from './utils/TranscriptService';
+import { DeviceManager, DeviceKind, DeviceLists, DevicePreferences } from './utils/DeviceManager';
 import { detectMediaWorkers, MediaWorker } from './utils/MediaWorkerDetector';
 import { logWebRTCCallStart, logWebRTCCallEnd, logIncomingWebRTCCall } from './utils/WebRTCCallLogger';
 import { CallInvitation, getUserProfile, supabase, insertCallHistory, updateCallHistory, PhoneContact, getCallSessionByInvitationId } from './utils/supabase';
 
+// How long a reaction stays on someone's tile
+const REACTION_DISPLAY_MS = 3000;
+
 function MainApp() {
   const { userId, organizationId, logout } = useAuth();
   const [incomingInvitation, setIncomingInvitation] = useState<CallInvitation | null>(null);
@@ -31,6 +76,9 @@ function MainApp() {
   const [callType, setCallType] = useState<'webrtc' | 'pstn' | null>(null);
   const [callRoomName, setCallRoomName] = useState<string | null>(null);
   const [callSessionId, setCallSessionId] = useState<string | null>(null);
+  const [callHostUserId, setCallHostUserId] = useState<string | null>(null);
+  const [sessionInvitations, setSessionInvitations] = useState<CallInvitation[]>([]);
+  const [showAddParticipant, setShowAddParticipant] = useState(false);
   const [notificationPermission, setNotificationPermission] = useState<NotificationPermission>('default');
   const [livekitRoom, setLivekitRoom] = useState<Room | null>(null);
 
@@ -39,6 +87,9 @@ function MainApp() {
   const [pstnCallStatus, setPstnCallStatus] = useState<string | null>(null);
   const [activePSTNCallId, setActivePSTNCallId] = useState<string | null>(null);
   const [isPSTNCallActive, setIsPSTNCallActive] = useState(false);
+  const [dtmfHistory, setDtmfHistory] = useState('');
+  const [showTransferModal, setShowTransferModal] = useState(false);
+  const [transferProgress, setTransferProgress] = useState<TransferProgress | null>(null);
   const [activeSipParticipantId, setActiveSipParticipantId] = useState<string | null>(null);
   const [historyRefreshKey, setHistoryRefreshKey] = useState(0);
   const [jwtToken, setJwtToken] = useState('');
@@ -54,19 +105,82 @@ function MainApp() {
   const [mediaWorkers, setMediaWorkers] = useState<MediaWorker[]>([]);
   const [callStartTime, setCallStartTime] = useState<number | null>(null);
   const [currentCallHistoryId, setCurrentCallHistoryId] = useState<string | null>(null);
+  const [devices, setDevices] = useState<DeviceLists>({ audioinput: [], videoinput: [], audiooutput: [] });
+  const [devicePreferences, setDevicePreferences] = useState<DevicePreferences>({});
+  const [isScreenSharing, setIsScreenSharing] = useState(false);
+  const [networkStats, setNetworkStats] = useState<Map<string, ParticipantNetworkStats>>(new Map());
+  const [shareScreenAudio, setShareScreenAudio] = useState(false);
+  const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>({ status: 'idle' });
+  const [recordingStartedAt, setRecordingStartedAt] = useState<number | null>(null);
+  const [recordWithVideo, setRecordWithVideo] = useState(false);
+  const [remoteRecorders, setRemoteRecorders] = useState<Set<string>>(new Set());
+  const [chatMessages, setChatMessages] = useState<ChatEntry[]>([]);
+  const [transcriptSegments, setTranscriptSegments] = useState<TranscriptSegment[]>([]);
+  const [noiseSuppression, setNoiseSuppression] = useState<NoiseSuppressionSettings>({
+    enabled: false,
+    strength: DEFAULT_NOISE_SUPPRESSION_STRENGTH,
+  });
+  const [noiseSuppressionStats, setNoiseSuppressionStats] = useState<NoiseSuppressionStats | null>(null);
+  const [backgroundEffect, setBackgroundEffect] = useState<BackgroundEffect>({ type: 'none' });
+  const [backgroundFallback, setBackgroundFallback] = useState<BackgroundFallbackReason | null>(null);
+  const [isOnHold, setIsOnHold] = useState(false);
+  const [isHeldByOthers, setIsHeldByOthers] = useState(false);
+  const [isHandRaised, setIsHandRaised] = useState(false);
+  const [raisedHands, setRaisedHands] = useState<Map<string, number>>(new Map());
+  const [reactions, setReactions] = useState<Map<string, string>>(new Map());
+  const [videoLayout, setVideoLayout] = useState<VideoLayoutMode>(DEFAULT_VIDEO_LAYOUT);
+  const [pinnedIdentity, setPinnedIdentity] = useState<string | null>(null);
+  const [autoPictureInPicture, setAutoPictureInPicture] = useState(false);
+  const [encryptCalls, setEncryptCalls] = useState(false);
+  const [encryptionState, setEncryptionState] = useState<EncryptionState>('off');
+  const [verificationCode, setVerificationCode] = useState<string | null>(null);
+  const [isAudioPlaybackBlocked, setIsAudioPlaybackBlocked] = useState(false);
+  const [participantPlayback, setParticipantPlayback] = useState<Map<string, ParticipantPlayback>>(new Map());
+  const [bandwidthProfile, setBandwidthProfile] = useState<BandwidthProfileName>(DEFAULT_BANDWIDTH_PROFILE);
+  const [bandwidthDegradedFrom, setBandwidthDegradedFrom] = useState<BandwidthProfileName | null>(null);
+  const [autoAudioOnly, setAutoAudioOnly] = useState(true);
+  const [pendingPreCall, setPendingPreCall] = useState<{ kind: 'outgoing'; calleeUserId: string } | { kind: 'incoming' } | null>(null);
+  const [pendingRecording, setPendingRecording] = useState<{ recording: CallRecording; link: RecordingHistoryLink | null } | null>(null);
 
   const presenceManagerRef = useRef<PresenceManager | null>(null);
   const notificationManagerRef = useRef<NotificationManager | null>(null);
   const callInvitationServiceRef = useRef<CallInvitationService | null>(null);
   const liveKitClientRef = useRef<LiveKitClient | null>(null);
+  // The phone line's connection when VITE_VOICE_TRANSPORT is websocket; liveKitClientRef otherwise
+  const voiceSocketRef = useRef<WebSocketClient | null>(null);
+  // Room the phone line is connected through, so its token can be released on its own
+  const pstnRoomNameRef = useRef<string | null>(null);
+  const reactionTimersRef = useRef<Map<string, ReturnType<typeof setTimeout>>>(new Map());
+  // Our half of the key agreement for the current encrypted web call
+  const keyExchangeRef = useRef<CallKeyExchange | null>(null);
   const sessionChannelRef = useRef<any>(null);
   const tokenManagerRef = useRef<TokenManager | null>(null);
+  const deviceManagerRef = useRef<DeviceManager | null>(null);
+  const callRecorderRef = useRef<CallRecorder | null>(null);
+  const chatServiceRef = useRef<ChatService | null>(null);
+  const transcriptServiceRef = useRef<TranscriptService | null>(null);
   const recorderRef = useRef<AudioRecorder | null>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
   const oscillatorRef = useRef<OscillatorNode | null>(null);
   const gainNodeRef = useRef<GainNode | null>(null);
   const ringtoneIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const currentCallDataRef = useRef<{ phoneNumber: string; contactName: string } | null>(null);
+  const callTransferRef = useRef<CallTransfer | null>(null);
+  // Invitations sent to hand a phone call to a web user, which are not outgoing web calls
+  const transferInvitationIdsRef = useRef<Set<string>>(new Set());
+  // Set once a call is handed over, so the media worker's later status for it does not overwrite 'transferred'
+  const transferredCallIdRef = useRef<string | null>(null);
+  // Room listeners are registered once per client, so they reach the latest handler through a ref
+  const connectionLostHandlerRef = useRef<((kind: 'webrtc' | 'pstn', status: ConnectionStatus) => void) | null>(null);
+
+  // The room state changes whenever a client connects or goes away, so the ref is current here.
+  // Stays null on the websocket voice transport, which has no hold, transfer or DTMF.
+  const roomClient = livekitRoom ? liveKitClientRef.current : null;
+  const { activeSpeakers, audioLevels, lastSpeaker } = useActiveSpeakers(roomClient);
+
+  useLiveKitEvent(roomClient, 'participant-left', (identity) => {
+    setPinnedIdentity(previous => previous === identity ? null : previous);
+  });
 
   useEffect(() => {
     if (userId) {
@@ -91,6 +205,13 @@ function MainApp() {
     }
   }, [humanParticipantCount, isInCall, callType]);
 
+  useEffect(() => {
+    chatServiceRef.current?.setSessionId(callSessionId);
+    if (callType === 'webrtc') {
+      transcriptServiceRef.current?.setLink(callSessionId ? { sessionId: callSessionId } : null);
+    }
+  }, [callSessionId, callType]);
+
   useEffect(() => {
     if (livekitRoom) {
       const updateMediaWorkers = () => {
@@ -119,10 +240,26 @@ function MainApp() {
       startRingtone();
     } else {
       stopRingtone();
+      // The caller gave up while the pre-call check was open
+      setPendingPreCall(pending => (pending?.kind === 'incoming' ? null : pending));
     }
     return () => stopRingtone();
   }, [incomingInvitation]);
 
+  useEffect(() => {
+    if (!callSessionId) {
+      setSessionInvitations([]);
+      return;
+    }
+
+    const tracker = new SessionInvitationTracker(callSessionId);
+    tracker.on('invitations-changed', setSessionInvitations);
+    void tracker.start();
+    return () => {
+      void tracker.stop();
+    };
+  }, [callSessionId]);
+
   useEffect(() => {
     if (outgoingInvitation) {
       startRingtone();
@@ -156,6 +293,8 @@ function MainApp() {
         console.log('This is an incoming invitation for me');
         if (invitation.status === 'pending') {
           setIncomingInvitation(invitation);
+          callInvitationServiceRef.current?.markRinging(invitation.id)
+            .catch(error => console.error('Failed to mark invitation as ringing:', error));
 
           if (notificationManagerRef.current?.permission === 'granted') {
             getUserProfile(invitation.caller_user_id).then(profile => {
@@ -172,6 +311,19 @@ function MainApp() {
         }
       }
 
+      if (transferInvitationIdsRef.current.has(invitation.id)) {
+        if (invitation.status === 'rejected' || invitation.status === 'cancelled' || invitation.status === 'missed') {
+          transferInvitationIdsRef.current.delete(invitation.id);
+          callTransferRef.current?.handleInvitationEnded(invitation.status);
+        }
+        return;
+      }
+
+      // People added to a running call are tracked per session by SessionInvitationTracker
+      if (invitation.session_id) {
+        return;
+      }
+
       if (invitation.caller_user_id === userId) {
         console.log('This is MY outgoing invitation, status:', invitation.status);
         if (invitation.status === 'accepted') {
@@ -195,6 +347,19 @@ function MainApp() {
     if (liveKitUrl) {
       tokenManagerRef.current = new TokenManager(userId, organizationId);
     }
+
+    deviceManagerRef.current?.stop();
+    deviceManagerRef.current = new DeviceManager(userId);
+    deviceManagerRef.current.on('devices-changed', setDevices);
+    deviceManagerRef.current.on('device-switch-needed', (kind, deviceId) => {
+      applyDevice(kind, deviceId).catch(error => console.error(`Failed to switch ${kind}:`, error));
+    });
+    setDevicePreferences(deviceManagerRef.current.getPreferences());
+    setBandwidthProfile(loadBandwidthProfile(userId));
+    setVideoLayout(loadVideoLayout(userId));
+    setAutoPictureInPicture(loadAutoPictureInPicture(userId));
+    setEncryptCalls(loadCallEncryption(userId));
+    setDevices(await deviceManagerRef.current.start());
   };
 
   const subscribeToCallSession = async (sessionId: string) => {
@@ -224,9 +389,15 @@ function MainApp() {
   };
 
   const cleanup = async () => {
+    deviceManagerRef.current?.stop();
+    deviceManagerRef.current = null;
     await presenceManagerRef.current?.stop();
     await callInvitationServiceRef.current?.stop();
+    callTransferRef.current?.destroy();
+    callTransferRef.current = null;
     liveKitClientRef.current?.disconnect();
+    voiceSocketRef.current?.disconnect();
+    tokenManagerRef.current?.clearToken();
     stopRingtone();
 
     if (sessionChannelRef.current) {
@@ -284,6 +455,7 @@ function MainApp() {
       };
 
       playTone();
+      liveKitClientRef.current?.setRemoteAudioDucked(true);
       ringtoneIntervalRef.current = setInterval(() => {
         playTone();
       }, 5000);
@@ -293,6 +465,7 @@ function MainApp() {
   };
 
   const stopRingtone = () => {
+    liveKitClientRef.current?.setRemoteAudioDucked(false);
     try {
       if (ringtoneIntervalRef.current) {
         clearInterval(ringtoneIntervalRef.current);
@@ -317,6 +490,10 @@ function MainApp() {
   };
 
   const handlePSTNCallStatus = async (event: CallStatusEvent) => {
+    if (event.callId === transferredCallIdRef.current && event.status !== 'transferred') {
+      return;
+    }
+
     setPstnCallStatus(event.status);
     setActivePSTNCallId(event.callId);
 
@@ -331,22 +508,44 @@ function MainApp() {
     const isActive = ['initiated', 'ringing', 'in-progress', 'answered'].includes(event.status);
     setIsPSTNCallActive(isActive);
 
-    const isTerminal = ['completed', 'failed', 'busy', 'no-answer'].includes(event.status);
+    const isTerminal = ['completed', 'failed', 'busy', 'no-answer', 'transferred'].includes(event.status);
     if (isTerminal) {
       stopRingtone();
       setIsInCall(false);
+      callTransferRef.current?.destroy();
+      callTransferRef.current = null;
+      setTransferProgress(null);
+      setShowTransferModal(false);
+      void handleStopRecording({ callId: event.callId });
 
       setTimeout(() => {
         setPstnCallStatus(null);
         setActivePSTNCallId(null);
         setIsPSTNCallActive(false);
         setActiveSipParticipantId(null);
+        setDtmfHistory('');
         currentCallDataRef.current = null;
       }, 3000);
     }
 
     try {
-      await updateCallHistory(event.callId, event.status);
+      // The PSTN room outlives individual calls, so each call's stats are reported then cleared
+      const qualitySummary = isTerminal ? liveKitClientRef.current?.getCallQualitySummary() : null;
+      const holdStats = isTerminal ? liveKitClientRef.current?.getHoldStats() : null;
+      if (isTerminal) {
+        liveKitClientRef.current?.resetCallQualityStats();
+        liveKitClientRef.current?.resetHoldStats();
+        // A transfer leaves the caller on hold until it is handed over; handleTransferCompleted takes it from there
+        const client = liveKitClientRef.current;
+        if (client?.isOnHold() && event.status !== 'transferred') {
+          client.resume().catch(error => {
+            console.error('Failed to resume after the call ended:', error);
+            // resume() puts the hold back when it fails, so the banner follows the client
+            setIsOnHold(client.isOnHold());
+          });
+        }
+      }
+      await updateCallHistory(event.callId, event.status, qualitySummary, holdStats);
       setHistoryRefreshKey(prev => prev + 1);
     } catch (error) {
       console.error('Failed to update call history:', error);
@@ -361,6 +560,23 @@ function MainApp() {
     setOutgoingCalleeId(null);
     setIsInCall(true);
 
+    // Our media is held back until the key is set (see startWebCall), so a call that cannot be
+    // encrypted is ended rather than left silent
+    if (keyExchangeRef.current) {
+      const encryption = invitation.callee_public_key
+        ? applyCallEncryption(keyExchangeRef.current, invitation.callee_public_key, invitation.room_name)
+        : Promise.reject(new Error('The other side did not send an encryption key'));
+      encryption.catch(async error => {
+        console.error('Ending call without encryption:', error);
+        alert('Could not set up end-to-end encryption, so the call was ended');
+        await handleEndCall('failed');
+        const callSession = await getCallSessionByInvitationId(invitation.id).catch(() => null);
+        if (callSession?.id) {
+          await endCallSession(callSession.id);
+        }
+      });
+    }
+
     try {
       const callSession = await getCallSessionByInvitationId(invitation.id);
       if (callSession?.id) {
@@ -373,6 +589,32 @@ function MainApp() {
     }
   };
 
+  // The room name salts the key, so both sides pass the room they were given for this call.
+  // Throws on failure, so the call is ended instead of publishing unencrypted media.
+  const applyCallEncryption = async (keyExchange: CallKeyExchange, remotePublicKey: string, roomName: string) => {
+    try {
+      const { key, verificationCode: code } = await keyExchange.deriveKey(remotePublicKey, roomName);
+      await liveKitClientRef.current?.setEncryptionKey(key);
+      setVerificationCode(code);
+    } catch (error) {
+      console.error('Failed to set up end-to-end encryption:', error);
+      throw new Error('Could not set up end-to-end encryption for this call');
+    }
+  };
+
+  const handleCallEncryptionChange = (enabled: boolean) => {
+    setEncryptCalls(enabled);
+    if (userId) {
+      saveCallEncryption(userId, enabled);
+    }
+  };
+
+  const watchEncryption = (client: LiveKitClient) => {
+    setEncryptionState('off');
+    setVerificationCode(null);
+    client.on('encryption-changed', setEncryptionState);
+  };
+
   const handleRemoteParticipantConnected = async (participantIdentity: string, participantName: string) => {
     if (!participantIdentity.startsWith('sip-') && outgoingInvitation) {
       console.log('Remote participant connected during outgoing call, transitioning to in-call state');
@@ -409,19 +651,468 @@ function MainApp() {
     setTotalParticipantCount(totalCount);
   };
 
-  const handleAcceptCall = async () => {
+  const getAudioCaptureOptions = (): AudioCaptureOptions => ({
+    echoCancellation: true,
+    noiseSuppression: true,
+    autoGainControl: true,
+    deviceId: deviceManagerRef.current?.getPreferredDevice('audioinput'),
+  });
+
+  const getVideoCaptureOptions = (): VideoCaptureOptions => {
+    const deviceId = deviceManagerRef.current?.getPreferredDevice('videoinput');
+    return deviceId && deviceId !== 'default'
+      ? { resolution: VideoPresets.h720.resolution, deviceId }
+      : { resolution: VideoPresets.h720.resolution, facingMode: 'user' };
+  };
+
+  const applyDevice = async (kind: DeviceKind, deviceId: string) => {
+    const client = liveKitClientRef.current;
+    if (!client) return;
+
+    if (kind === 'audioinput') {
+      await client.switchMicrophone(deviceId);
+    } else if (kind === 'videoinput') {
+      await client.switchCamera(deviceId);
+    } else if (DeviceManager.supportsOutputSelection()) {
+      await client.setAudioOutputDevice(deviceId);
+    }
+  };
+
+  const applyPreferredOutputDevice = async () => {
+    const outputId = deviceManagerRef.current?.getPreferredDevice('audiooutput');
+    if (outputId && DeviceManager.supportsOutputSelection()) {
+      try {
+        await liveKitClientRef.current?.setAudioOutputDevice(outputId);
+      } catch (error) {
+        console.warn('Failed to restore preferred speaker:', error);
+      }
+    }
+
+    if (deviceManagerRef.current) {
+      // Device labels only become available once media permission has been granted
+      setDevices(await deviceManagerRef.current.refresh());
+    }
+  };
+
+  const publishWebCallMedia = async (client: LiveKitClient) => {
+    await client.publishAudio(getAudioCaptureOptions());
+
+    try {
+      await client.publishVideo(getVideoCaptureOptions());
+    } catch (videoError) {
+      console.warn('Failed to publish video:', videoError);
+    }
+
+    await applyPreferredOutputDevice();
+
+    setLivekitRoom(client.getRoom());
+  };
+
+  const handleDeviceSelected = async (kind: DeviceKind, deviceId: string) => {
+    deviceManagerRef.current?.setPreferredDevice(kind, deviceId);
+    setDevicePreferences(deviceManagerRef.current?.getPreferences() || {});
+
+    try {
+      await applyDevice(kind, deviceId);
+    } catch (error) {
+      console.error(`Failed to switch ${kind}:`, error);
+      alert(`Could not switch device: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleToggleScreenShare = async () => {
+    const client = liveKitClientRef.current;
+    if (!client) return;
+
+    try {
+      if (client.isScreenSharing()) {
+        await client.stopScreenShare();
+      } else {
+        await client.startScreenShare({ audio: shareScreenAudio });
+      }
+    } catch (error) {
+      // Dismissing the browser's picker rejects with NotAllowedError; nothing to report
+      if (error instanceof DOMException && error.name === 'NotAllowedError') return;
+      console.error('Failed to toggle screen share:', error);
+      alert(`Could not share screen: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const watchRemoteRecorders = (client: LiveKitClient) => {
+    client.on('recording-changed', (identity, active) => {
+      setRemoteRecorders(prev => {
+        const next = new Set(prev);
+        if (active) {
+          next.add(identity);
+        } else {
+          next.delete(identity);
+        }
+        return next;
+      });
+    });
+  };
+
+  const handleStartRecording = async () => {
+    const client = liveKitClientRef.current;
+    if (!client || callRecorderRef.current) return;
+
+    if (!CallRecorder.isSupported()) {
+      alert('Recording is not supported in this browser');
+      return;
+    }
+
+    const includeVideo = callType === 'webrtc' && recordWithVideo;
+    const recorder = new CallRecorder(client.getRoom(), { includeVideo });
+
+    try {
+      await recorder.start();
+      callRecorderRef.current = recorder;
+      setRecordingStartedAt(Date.now());
+      await client.announceRecording(true, includeVideo);
+    } catch (error) {
+      console.error('Failed to start recording:', error);
+      alert(`Could not start recording: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  // Takes the history link explicitly because it is also called from listeners registered
+  // when the client was created, where component state would be stale
+  const handleStopRecording = async (link: RecordingHistoryLink | null) => {
+    const recorder = callRecorderRef.current;
+    if (!recorder) return;
+    callRecorderRef.current = null;
+    setRecordingStartedAt(null);
+
+    liveKitClientRef.current?.announceRecording(false, false)
+      .catch(error => console.warn('Failed to announce recording stop:', error));
+
+    try {
+      const recording = await recorder.stop();
+      setPendingRecording({ recording, link });
+    } catch (error) {
+      console.error('Failed to stop recording:', error);
+    }
+  };
+
+  const getCurrentHistoryLink = (): RecordingHistoryLink | null => {
+    if (callType === 'webrtc' && currentCallHistoryId) return { historyId: currentCallHistoryId };
+    if (callType === 'pstn' && activePSTNCallId) return { callId: activePSTNCallId };
+    return null;
+  };
+
+  const watchConnectionStatus = (
+    client: { on(event: 'connection-status', handler: (status: ConnectionStatus) => void): () => void },
+    kind: 'webrtc' | 'pstn'
+  ) => {
+    client.on('connection-status', (status) => {
+      setConnectionStatus(status);
+      if (status.status === 'disconnected' && status.cause !== 'client-initiated' && status.cause !== 'join-failed') {
+        connectionLostHandlerRef.current?.(kind, status);
+      }
+    });
+  };
+
+  // The WebSocket transport has no client to subscribe to here; it hands its segments to
+  // transcriptServiceRef directly
+  const startTranscript = (client: LiveKitClient | null) => {
+    stopTranscript();
+    if (!userId) return;
+
+    const transcriptService = new TranscriptService(userId, null);
+    transcriptService.on('segments-changed', setTranscriptSegments);
+    transcriptServiceRef.current = transcriptService;
+    client?.on('transcript-segment', (segment) => {
+      if (transcriptServiceRef.current === transcriptService) {
+        transcriptService.addSegment(segment);
+      }
+    });
+  };
+
+  const watchNoiseSuppression = (client: LiveKitClient) => {
+    setNoiseSuppressionStats(null);
+    client.on('noise-suppression-stats', setNoiseSuppressionStats);
+    // No microphone track yet, so this only records the setting for publishAudio to apply
+    void client.setNoiseSuppression(noiseSuppression);
+  };
+
+  const handleNoiseSuppressionChange = async (settings: NoiseSuppressionSettings) => {
+    setNoiseSuppression(settings);
+    if (!settings.enabled) {
+      setNoiseSuppressionStats(null);
+    }
+
+    try {
+      await liveKitClientRef.current?.setNoiseSuppression(settings);
+    } catch (error) {
+      console.error('Failed to update noise suppression:', error);
+      alert('Could not enable noise suppression: ' + (error instanceof Error ? error.message : 'Unknown error'));
+      setNoiseSuppression({ ...settings, enabled: false });
+      await liveKitClientRef.current?.setNoiseSuppression({ ...settings, enabled: false }).catch(() => undefined);
+    }
+  };
+
+  const watchHold = (client: LiveKitClient) => {
+    setIsOnHold(false);
+    setIsHeldByOthers(false);
+    client.on('hold-changed', setIsOnHold);
+    client.on('remote-hold-changed', () => setIsHeldByOthers(client.getRemoteHolds().length > 0));
+  };
+
+  const handleToggleHold = async () => {
+    const client = liveKitClientRef.current;
+    if (!client) return;
+
+    try {
+      if (client.isOnHold()) {
+        await client.resume();
+      } else {
+        await client.hold();
+      }
+    } catch (error) {
+      console.error('Failed to change hold state:', error);
+      alert('Could not change hold state: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    }
+  };
+
+  const watchHands = (client: LiveKitClient) => {
+    setIsHandRaised(false);
+    setRaisedHands(new Map());
+    setReactions(new Map());
+    client.on('raised-hands-changed', (hands) => {
+      setRaisedHands(hands);
+      setIsHandRaised(client.isHandRaised());
+    });
+    client.on('reaction', (identity, emoji) => {
+      setReactions(prev => new Map(prev).set(identity, emoji));
+
+      const timers = reactionTimersRef.current;
+      clearTimeout(timers.get(identity));
+      timers.set(identity, setTimeout(() => {
+        timers.delete(identity);
+        setReactions(prev => {
+          const next = new Map(prev);
+          next.delete(identity);
+          return next;
+        });
+      }, REACTION_DISPLAY_MS));
+    });
+  };
+
+  const handleToggleHand = async () => {
+    const client = liveKitClientRef.current;
+    if (!client) return;
+
+    if (client.isHandRaised()) {
+      await client.lowerHand();
+    } else {
+      await client.raiseHand();
+    }
+  };
+
+  const handleReaction = async (emoji: string) => {
+    await liveKitClientRef.current?.sendReaction(emoji);
+  };
+
+  const handleVideoLayoutChange = (layout: VideoLayoutMode) => {
+    setVideoLayout(layout);
+    setPinnedIdentity(null);
+    if (userId) {
+      saveVideoLayout(userId, layout);
+    }
+  };
+
+  const handleAutoPictureInPictureChange = (enabled: boolean) => {
+    setAutoPictureInPicture(enabled);
+    if (userId) {
+      saveAutoPictureInPicture(userId, enabled);
+    }
+  };
+
+  const handleTogglePin = (identity: string) => {
+    setPinnedIdentity(previous => previous === identity ? null : identity);
+  };
+
+  const watchAudioOutput = (client: LiveKitClient) => {
+    setIsAudioPlaybackBlocked(false);
+    setParticipantPlayback(new Map());
+    client.on('audio-playback-blocked', setIsAudioPlaybackBlocked);
+    client.on('participant-playback-changed', setParticipantPlayback);
+  };
+
+  const handleParticipantPlaybackChange = (identity: string, playback: ParticipantPlayback) => {
+    const client = liveKitClientRef.current;
+    if (!client) return;
+
+    client.setParticipantVolume(identity, playback.volume);
+    client.setParticipantMuted(identity, playback.muted);
+  };
+
+  const handleEnableAudio = async () => {
+    await liveKitClientRef.current?.startAudio();
+  };
+
+  const watchBandwidthProfile = (client: LiveKitClient) => {
+    setBandwidthDegradedFrom(null);
+    client.on('bandwidth-profile-changed', (profile, reason, previous) => {
+      setBandwidthProfile(profile);
+      setBandwidthDegradedFrom(reason === 'poor-quality' ? previous : null);
+    });
+    client.setAutoAudioOnly(autoAudioOnly);
+    // Not connected yet, so this only configures the room for connect and the first publish
+    void client.setBandwidthProfile(bandwidthProfile);
+  };
+
+  // Only user choices are remembered; an automatic drop to audio-only lasts for the call
+  const handleBandwidthProfileChange = async (profile: BandwidthProfileName) => {
+    setBandwidthProfile(profile);
+    setBandwidthDegradedFrom(null);
+    if (userId) {
+      saveBandwidthProfile(userId, profile);
+    }
+
+    try {
+      await liveKitClientRef.current?.setBandwidthProfile(profile);
+    } catch (error) {
+      console.error('Failed to change bandwidth profile:', error);
+    }
+  };
+
+  const handleAutoAudioOnlyChange = (enabled: boolean) => {
+    setAutoAudioOnly(enabled);
+    liveKitClientRef.current?.setAutoAudioOnly(enabled);
+  };
+
+  const handleBackgroundEffectChange = async (effect: BackgroundEffect) => {
+    const previous = backgroundEffect;
+    setBackgroundEffect(effect);
+    if (effect.type === 'none') {
+      setBackgroundFallback(null);
+    }
+
+    try {
+      await liveKitClientRef.current?.setBackgroundEffect(effect);
+    } catch (error) {
+      console.error('Failed to apply background effect:', error);
+      alert('Could not apply the background effect: ' + (error instanceof Error ? error.message : 'Unknown error'));
+      setBackgroundEffect(previous);
+      await liveKitClientRef.current?.setBackgroundEffect(previous).catch(() => undefined);
+    }
+  };
+
+  const stopTranscript = () => {
+    transcriptServiceRef.current?.stop();
+    transcriptServiceRef.current = null;
+    setTranscriptSegments([]);
+  };
+
+  const createWebCallClient = (roomName: string) => {
+    const client = new LiveKitClient();
+    watchConnectionStatus(client, 'webrtc');
+    watchRemoteRecorders(client);
+
+    chatServiceRef.current?.stop();
+    chatServiceRef.current = null;
+    setChatMessages([]);
+    if (userId) {
+      const chatService = new ChatService(client, userId, null);
+      chatService.on('messages-changed', setChatMessages);
+      chatService.start();
+      chatServiceRef.current = chatService;
+    }
+    startTranscript(client);
+    watchNoiseSuppression(client);
+    watchBandwidthProfile(client);
+    watchAudioOutput(client);
+    watchHold(client);
+    watchHands(client);
+    watchEncryption(client);
+    setPinnedIdentity(null);
+    setBackgroundFallback(null);
+    client.on('background-fallback', (active, reason) => setBackgroundFallback(active ? reason : null));
+    // Applied by publishVideo once the camera track exists
+    void client.setBackgroundEffect(backgroundEffect);
+
+    if (tokenManagerRef.current && userId) {
+      const tokenManager = tokenManagerRef.current;
+      client.setTokenProvider(() => tokenManager.getToken(roomName, { identity: userId }));
+    }
+    client.on('log', (msg) => console.log('[LiveKit]', msg));
+    client.on('participant-left', handleRemoteParticipantDisconnected);
+    client.on('participant-joined', handleRemoteParticipantConnected);
+    client.on('participant-count-changed', handleParticipantCountChanged);
+    client.on('network-stats', setNetworkStats);
+    client.on('screen-share-changed', (identity, active) => {
+      if (identity === client.getLocalParticipant().identity) {
+        setIsScreenSharing(active);
+      }
+    });
+    return client;
+  };
+
+  const handleAcceptCall = () => {
+    if (!incomingInvitation) return;
+
+    if (!userId || isPreCallCheckSkipped(userId)) {
+      void acceptIncomingCall();
+      return;
+    }
+
+    // The check plays a test tone and listens to the microphone, so the ringtone has to stop
+    stopRingtone();
+    setPendingPreCall({ kind: 'incoming' });
+  };
+
+  const handlePreCallContinue = (skipNextTime: boolean) => {
+    const pending = pendingPreCall;
+    setPendingPreCall(null);
+    if (skipNextTime && userId) {
+      setPreCallCheckSkipped(userId, true);
+    }
+
+    if (pending?.kind === 'outgoing') {
+      void startWebCall(pending.calleeUserId);
+    } else if (pending?.kind === 'incoming') {
+      void acceptIncomingCall();
+    }
+  };
+
+  const handlePreCallCancel = () => {
+    const pending = pendingPreCall;
+    setPendingPreCall(null);
+    // Back to the incoming call dialog, still ringing
+    if (pending?.kind === 'incoming' && incomingInvitation) {
+      void startRingtone();
+    }
+  };
+
+  const acceptIncomingCall = async () => {
     if (!incomingInvitation || !callInvitationServiceRef.current) return;
 
     stopRingtone();
 
+    let acceptedSessionId: string | undefined;
     try {
-      const result = await callInvitationServiceRef.current.acceptCall(incomingInvitation.id);
+      keyExchangeRef.current = null;
+      if (incomingInvitation.caller_public_key) {
+        if (!isCallEncryptionSupported()) {
+          await callInvitationServiceRef.current.rejectCall(incomingInvitation.id).catch(() => undefined);
+          throw new Error('This call is end-to-end encrypted, which this browser does not support');
+        }
+        keyExchangeRef.current = await CallKeyExchange.create();
+      }
+
+      const result = await callInvitationServiceRef.current.acceptCall(
+        incomingInvitation.id,
+        keyExchangeRef.current?.getPublicKey()
+      );
 
+      acceptedSessionId = result.session_id;
       setCallRoomName(result.room_name);
       if (result.session_id) {
         setCallSessionId(result.session_id);
         subscribeToCallSession(result.session_id);
       }
+      setCallHostUserId(result.host_user_id || incomingInvitation.caller_user_id);
       setIncomingInvitation(null);
       setIsInCall(true);
       setCallType('webrtc');
@@ -447,34 +1138,26 @@ function MainApp() {
         }
       }
 
-      liveKitClientRef.current = new LiveKitClient(
-        (msg) => console.log('[LiveKit]', msg),
-        () => {},
-        () => {},
-        () => {},
-        handleRemoteParticipantDisconnected,
-        handleRemoteParticipantConnected,
-        handleParticipantCountChanged
-      );
+      liveKitClientRef.current = createWebCallClient(result.room_name);
+      const keyExchange = keyExchangeRef.current;
+      if (keyExchange) {
+        liveKitClientRef.current.enableEncryption();
+      }
 
       await liveKitClientRef.current.connect(livekitUrl, result.token);
 
+      // Before publishing, so our media is never sent unencrypted
+      if (keyExchange) {
+        if (!result.caller_public_key) {
+          throw new Error('The caller did not send an encryption key');
+        }
+        await applyCallEncryption(keyExchange, result.caller_public_key, result.room_name);
+      }
+
       const room = liveKitClientRef.current.getRoom();
       setLivekitRoom(room);
 
-      await liveKitClientRef.current.publishAudio({
-        echoCancellation: true,
-        noiseSuppression: true,
-        autoGainControl: true,
-      });
-
-      try {
-        await liveKitClientRef.current.publishVideo();
-      } catch (videoError) {
-        console.warn('Failed to publish video:', videoError);
-      }
-
-      setLivekitRoom(liveKitClientRef.current.getRoom());
+      await publishWebCallMedia(liveKitClientRef.current);
     } catch (error) {
       console.error('Failed to accept call:', error);
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -490,6 +1173,11 @@ function MainApp() {
         liveKitClientRef.current.disconnect();
         liveKitClientRef.current = null;
       }
+
+      // The caller is already waiting in the room, so the session is ended for them too
+      if (acceptedSessionId) {
+        await endCallSession(acceptedSessionId);
+      }
     }
   };
 
@@ -506,6 +1194,53 @@ function MainApp() {
     }
   };
 
+  const handleInviteToCall = async (calleeUserId: string) => {
+    if (!callInvitationServiceRef.current || !callSessionId) {
+      throw new Error('The call is not ready for more people yet');
+    }
+    await callInvitationServiceRef.current.initiateCall(calleeUserId, callSessionId);
+  };
+
+  const handleDialIntoCall = async (phoneNumber: string, contactName: string) => {
+    const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
+    const supabaseKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+    if (!supabaseUrl || !supabaseKey) {
+      throw new Error('Supabase configuration not found');
+    }
+    if (!callRoomName) {
+      throw new Error('The call is not ready for more people yet');
+    }
+
+    const dialService = new DialService(supabaseUrl, supabaseKey);
+    const result = await dialService.dialContact(phoneNumber, contactName, callRoomName);
+
+    try {
+      await insertCallHistory({
+        phone_number: phoneNumber,
+        contact_name: contactName,
+        call_id: result.callId,
+        status: 'initiated',
+        timestamp: new Date().toISOString(),
+        call_type: 'pstn',
+        callee_identifier: phoneNumber,
+        user_id: userId ?? undefined,
+        session_id: callSessionId ?? undefined,
+      });
+      setHistoryRefreshKey(prev => prev + 1);
+    } catch (error) {
+      console.error('Failed to log dialled participant:', error);
+    }
+  };
+
+  const getUninvitableUserIds = (): Set<string> => {
+    const ids = new Set<string>(userId ? [userId] : []);
+    livekitRoom?.remoteParticipants.forEach(participant => ids.add(participant.identity));
+    sessionInvitations
+      .filter(invitation => invitation.status === 'pending')
+      .forEach(invitation => ids.add(invitation.callee_user_id));
+    return ids;
+  };
+
   const handleCancelOutgoingCall = async () => {
     if (!outgoingInvitation || !callInvitationServiceRef.current) return;
 
@@ -526,13 +1261,28 @@ function MainApp() {
     }
   };
 
-  const handleEndCall = async () => {
+  const endCallSession = async (sessionId: string) => {
+    try {
+      await supabase
+        .from('call_sessions')
+        .update({ status: 'ended', ended_at: new Date().toISOString() })
+        .eq('id', sessionId);
+    } catch (error) {
+      console.error('Failed to update call session:', error);
+    }
+  };
+
+  const handleEndCall = async (historyStatus: 'completed' | 'failed' = 'completed') => {
+    await handleStopRecording(currentCallHistoryId ? { historyId: currentCallHistoryId } : null);
+
     if (currentCallHistoryId && callStartTime) {
       const durationSeconds = Math.floor((Date.now() - callStartTime) / 1000);
       await logWebRTCCallEnd({
         historyId: currentCallHistoryId,
-        status: 'completed',
+        status: historyStatus,
         durationSeconds,
+        qualitySummary: liveKitClientRef.current?.getCallQualitySummary(),
+        holdStats: liveKitClientRef.current?.getHoldStats(),
       });
       setCurrentCallHistoryId(null);
       setHistoryRefreshKey(prev => prev + 1);
@@ -546,21 +1296,28 @@ function MainApp() {
     liveKitClientRef.current?.disconnect();
     liveKitClientRef.current = null;
     setLivekitRoom(null);
+    if (callRoomName) {
+      tokenManagerRef.current?.clearToken(callRoomName);
+    }
 
-    if (callSessionId) {
-      try {
-        await supabase
-          .from('call_sessions')
-          .update({ status: 'ended', ended_at: new Date().toISOString() })
-          .eq('id', callSessionId);
-      } catch (error) {
-        console.error('Failed to update call session:', error);
-      }
+    // With people still talking after this user leaves, the call carries on without them
+    const isConferenceContinuing = humanParticipantCount > 2;
+    if (callSessionId && !isConferenceContinuing) {
+      await endCallSession(callSessionId);
     }
 
     setIsInCall(false);
     setCallRoomName(null);
     setCallSessionId(null);
+    setCallHostUserId(null);
+    setIsScreenSharing(false);
+    setNetworkStats(new Map());
+    setConnectionStatus({ status: 'idle' });
+    setRemoteRecorders(new Set());
+    chatServiceRef.current?.stop();
+    chatServiceRef.current = null;
+    setChatMessages([]);
+    stopTranscript();
     setCallType(null);
     setCallStartTime(null);
     setHumanParticipantCount(0);
@@ -570,6 +1327,82 @@ function MainApp() {
     await presenceManagerRef.current?.setInCall(false);
   };
 
+  const handleConnectionLost = async (kind: 'webrtc' | 'pstn', status: ConnectionStatus) => {
+    if (status.status !== 'disconnected') return;
+    console.warn(`${kind} connection lost:`, status.cause, status.message);
+
+    if (kind === 'webrtc') {
+      alert(status.message);
+      await handleEndCall(status.cause === 'reconnect-failed' || status.cause === 'unknown' ? 'failed' : 'completed');
+      return;
+    }
+
+    if (activePSTNCallId) {
+      try {
+        await updateCallHistory(activePSTNCallId, 'failed', liveKitClientRef.current?.getCallQualitySummary());
+        setHistoryRefreshKey(prev => prev + 1);
+      } catch (error) {
+        console.error('Failed to update call history:', error);
+      }
+    }
+
+    setPstnCallStatus(null);
+    setActivePSTNCallId(null);
+    setIsPSTNCallActive(false);
+    setActiveSipParticipantId(null);
+    setIsInCall(false);
+    currentCallDataRef.current = null;
+    handleStopPSTN();
+    alert(`Phone line disconnected: ${status.message}`);
+  };
+  connectionLostHandlerRef.current = handleConnectionLost;
+
+  const getAdminControlService = () => {
+    const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
+    if (!supabaseUrl || !callSessionId) {
+      throw new Error('No active call session');
+    }
+    return new AdminControlService(supabaseUrl, callSessionId);
+  };
+
+  const handleMuteParticipant = async (participantIdentity: string, muted: boolean) => {
+    try {
+      await getAdminControlService().muteParticipant(participantIdentity, muted);
+    } catch (error) {
+      console.error('Failed to change participant audio:', error);
+      alert(error instanceof Error ? error.message : 'Failed to change participant audio');
+    }
+  };
+
+  const handleToggleParticipantVideo = async (participantIdentity: string, enabled: boolean) => {
+    try {
+      await getAdminControlService().setParticipantVideo(participantIdentity, enabled);
+    } catch (error) {
+      console.error('Failed to change participant video:', error);
+      alert(error instanceof Error ? error.message : 'Failed to change participant video');
+    }
+  };
+
+  const handleLowerParticipantHand = async (participantIdentity: string) => {
+    try {
+      await getAdminControlService().lowerHand(participantIdentity);
+    } catch (error) {
+      console.error('Failed to lower hand:', error);
+      alert(error instanceof Error ? error.message : 'Failed to lower hand');
+    }
+  };
+
+  const handleKickParticipant = async (participantIdentity: string) => {
+    if (!confirm('Remove this participant from the call?')) return;
+
+    try {
+      await getAdminControlService().kickParticipant(participantIdentity);
+    } catch (error) {
+      console.error('Failed to remove participant:', error);
+      alert(error instanceof Error ? error.message : 'Failed to remove participant');
+    }
+  };
+
   const handleRequestNotificationPermission = async () => {
     if (notificationManagerRef.current) {
       const permission = await notificationManagerRef.current.requestPermission();
@@ -577,16 +1410,31 @@ function MainApp() {
     }
   };
 
-  const handleWebCallInitiated = async (calleeUserId: string) => {
+  const handleWebCallInitiated = (calleeUserId: string) => {
+    if (!userId || isPreCallCheckSkipped(userId)) {
+      void startWebCall(calleeUserId);
+      return;
+    }
+
+    setPendingPreCall({ kind: 'outgoing', calleeUserId });
+  };
+
+  const startWebCall = async (calleeUserId: string) => {
     if (!callInvitationServiceRef.current) return;
 
     setOutgoingCalleeId(calleeUserId);
 
     try {
-      const { invitation, caller_token, room_name } = await callInvitationServiceRef.current.initiateCall(calleeUserId);
+      keyExchangeRef.current = encryptCalls && isCallEncryptionSupported() ? await CallKeyExchange.create() : null;
+      const { invitation, caller_token, room_name } = await callInvitationServiceRef.current.initiateCall(
+        calleeUserId,
+        undefined,
+        keyExchangeRef.current?.getPublicKey()
+      );
       setOutgoingInvitation(invitation);
       setCallRoomName(room_name);
       setCallType('webrtc');
+      setCallHostUserId(userId);
 
       await presenceManagerRef.current?.setInCall(true);
 
@@ -597,34 +1445,31 @@ function MainApp() {
 
       setCallStartTime(Date.now());
 
-      liveKitClientRef.current = new LiveKitClient(
-        (msg) => console.log('[LiveKit]', msg),
-        () => {},
-        () => {},
-        () => {},
-        handleRemoteParticipantDisconnected,
-        handleRemoteParticipantConnected,
-        handleParticipantCountChanged
-      );
-
-      await liveKitClientRef.current.connect(livekitUrl, caller_token);
-
-      const room = liveKitClientRef.current.getRoom();
-      setLivekitRoom(room);
-
-      await liveKitClientRef.current.publishAudio({
-        echoCancellation: true,
-        noiseSuppression: true,
-        autoGainControl: true,
-      });
-
-      try {
-        await liveKitClientRef.current.publishVideo();
-      } catch (videoError) {
-        console.warn('Failed to publish video:', videoError);
+      liveKitClientRef.current = createWebCallClient(room_name);
+      if (keyExchangeRef.current) {
+        liveKitClientRef.current.enableEncryption();
       }
 
-      setLivekitRoom(liveKitClientRef.current.getRoom());
+      const client = liveKitClientRef.current;
+      await client.connect(livekitUrl, caller_token);
+
+      setLivekitRoom(client.getRoom());
+
+      if (client.getEncryptionState() === 'pending') {
+        // The callee's key only arrives when they accept, so our media waits for it rather than
+        // going out unencrypted in the meantime
+        const unsubscribe = client.on('encryption-changed', state => {
+          if (state !== 'encrypted' && state !== 'refused-sip') return;
+          unsubscribe();
+          if (liveKitClientRef.current !== client) return;
+          publishWebCallMedia(client).catch(error => {
+            console.error('Failed to publish media:', error);
+            alert('Could not start your microphone for this call');
+          });
+        });
+      } else {
+        await publishWebCallMedia(client);
+      }
     } catch (error) {
       console.error('Failed to initiate call:', error);
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -666,28 +1511,39 @@ function MainApp() {
       const generatedRoomName = `call-${userId}-${Date.now()}-${Math.random().toString(36).substring(2, 6)}`;
 
       const token = await tokenManagerRef.current.getToken(generatedRoomName);
+      pstnRoomNameRef.current = generatedRoomName;
       setJwtToken(token);
 
+      if (getVoiceTransport() === 'websocket') {
+        await connectVoiceSocket(token);
+        return;
+      }
+
       recorderRef.current = new AudioRecorder((level) => {
         setInputLevel(level);
       });
 
       await recorderRef.current.start();
 
-      liveKitClientRef.current = new LiveKitClient(
-        (msg) => console.log('[PSTN LiveKit]', msg),
-        () => {},
-        handlePSTNCallStatus,
-        stopRingtone
-      );
+      const pstnClient = new LiveKitClient();
+      pstnClient.on('log', (msg) => console.log('[PSTN LiveKit]', msg));
+      pstnClient.on('call-status', handlePSTNCallStatus);
+      pstnClient.on('sip-audio-connected', stopRingtone);
+      watchConnectionStatus(pstnClient, 'pstn');
+      watchRemoteRecorders(pstnClient);
+      startTranscript(pstnClient);
+      watchNoiseSuppression(pstnClient);
+      watchBandwidthProfile(pstnClient);
+      watchAudioOutput(pstnClient);
+      watchHold(pstnClient);
+      const tokenManager = tokenManagerRef.current;
+      pstnClient.setTokenProvider(() => tokenManager.getToken(generatedRoomName));
+      liveKitClientRef.current = pstnClient;
 
       await liveKitClientRef.current.connect(liveKitUrl, token);
 
-      await liveKitClientRef.current.publishAudio({
-        echoCancellation: true,
-        noiseSuppression: true,
-        autoGainControl: true,
-      });
+      await liveKitClientRef.current.publishAudio(getAudioCaptureOptions());
+      await applyPreferredOutputDevice();
 
       const room = liveKitClientRef.current.getRoom();
       setLivekitRoom(room);
@@ -704,7 +1560,49 @@ function MainApp() {
     }
   };
 
+  const connectVoiceSocket = async (token: string) => {
+    const voiceUrl = import.meta.env.VITE_VOICE_WS_URL;
+    if (!voiceUrl) {
+      throw new Error('Voice WebSocket URL not configured');
+    }
+
+    const voiceSocket = new WebSocketClient(
+      voiceUrl,
+      token,
+      (msg) => console.log('[PSTN WebSocket]', msg),
+      stopRingtone,
+      handlePSTNCallStatus,
+      (segment) => transcriptServiceRef.current?.addSegment(segment)
+    );
+    watchConnectionStatus(voiceSocket, 'pstn');
+    startTranscript(null);
+    voiceSocketRef.current = voiceSocket;
+
+    try {
+      await voiceSocket.connect();
+
+      recorderRef.current = new AudioRecorder(setInputLevel, (chunk) => voiceSocket.sendAudio(chunk));
+      await recorderRef.current.start(deviceManagerRef.current?.getPreferredDevice('audioinput'));
+    } catch (error) {
+      recorderRef.current?.stop();
+      recorderRef.current = null;
+      voiceSocket.disconnect();
+      voiceSocketRef.current = null;
+      stopTranscript();
+      throw error;
+    }
+
+    setIsPSTNConnected(true);
+    setCallType('pstn');
+  };
+
   const handleStopPSTN = () => {
+    callTransferRef.current?.destroy();
+    callTransferRef.current = null;
+    setTransferProgress(null);
+
+    void handleStopRecording(activePSTNCallId ? { callId: activePSTNCallId } : null);
+
     if (recorderRef.current) {
       recorderRef.current.stop();
       recorderRef.current = null;
@@ -715,20 +1613,31 @@ function MainApp() {
       liveKitClientRef.current = null;
     }
 
+    if (voiceSocketRef.current) {
+      voiceSocketRef.current.sendStop();
+      voiceSocketRef.current.disconnect();
+      voiceSocketRef.current = null;
+    }
+
     stopRingtone();
 
-    if (tokenManagerRef.current) {
-      tokenManagerRef.current.clearToken();
+    if (tokenManagerRef.current && pstnRoomNameRef.current) {
+      tokenManagerRef.current.clearToken(pstnRoomNameRef.current);
     }
+    pstnRoomNameRef.current = null;
 
     setIsPSTNConnected(false);
     setInputLevel(0);
     setLivekitRoom(null);
+    setConnectionStatus({ status: 'idle' });
+    setRemoteRecorders(new Set());
+    stopTranscript();
     setCallType(null);
   };
 
   const handlePSTNDial = async (phoneNumber: string, contactName: string) => {
-    if (!liveKitClientRef.current || !jwtToken) {
+    const voiceConnection = voiceSocketRef.current ?? liveKitClientRef.current;
+    if (!voiceConnection || !jwtToken) {
       alert('Please initialize PSTN first by clicking the phone icon');
       return;
     }
@@ -737,10 +1646,11 @@ function MainApp() {
       setIsPSTNDialing(true);
       setPstnCallStatus('Initiating call...');
       setIsPSTNCallActive(true);
+      setDtmfHistory('');
 
       currentCallDataRef.current = { phoneNumber, contactName };
 
-      const sessionId = liveKitClientRef.current.getSessionId();
+      const sessionId = voiceConnection.getSessionId();
 
       const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
       const supabaseKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
@@ -753,6 +1663,8 @@ function MainApp() {
 
       setPstnCallStatus('ringing');
       setActivePSTNCallId(result.callId);
+      // The PSTN room outlives individual calls, so each call starts a new transcript
+      transcriptServiceRef.current?.clear({ callId: result.callId });
       setActiveSipParticipantId(result.sipParticipantId);
       setIsInCall(true);
       setCallType('pstn');
@@ -799,8 +1711,145 @@ function MainApp() {
     }
   };
 
+  const handleSendDtmf = async (digit: string) => {
+    const client = liveKitClientRef.current;
+    if (!client) return;
+
+    try {
+      await client.sendDtmf(digit);
+      setDtmfHistory(prev => prev + digit);
+    } catch (error) {
+      console.error('Failed to send DTMF:', error);
+    }
+  };
+
+  const connectConsultRoom = async (roomName: string): Promise<LiveKitClient> => {
+    const liveKitUrl = import.meta.env.VITE_LIVEKIT_URL;
+    const tokenManager = tokenManagerRef.current;
+    if (!liveKitUrl || !tokenManager) {
+      throw new Error('LiveKit is not configured');
+    }
+
+    const consultClient = new LiveKitClient();
+    consultClient.on('log', (msg) => console.log('[Consult LiveKit]', msg));
+    consultClient.on('connection-status', (status) => {
+      if (status.status === 'disconnected') {
+        tokenManager.clearToken(roomName);
+      }
+    });
+    consultClient.setTokenProvider(() => tokenManager.getToken(roomName));
+    await consultClient.connect(liveKitUrl, await tokenManager.getToken(roomName));
+    await consultClient.publishAudio(getAudioCaptureOptions());
+    return consultClient;
+  };
+
+  const handleTransfer = async (target: TransferTarget, targetName: string, mode: TransferMode) => {
+    const client = liveKitClientRef.current;
+    const originalCallId = activePSTNCallId;
+    const sipParticipantId = activeSipParticipantId;
+    setShowTransferModal(false);
+    if (!client || !originalCallId || !sipParticipantId || !userId || callTransferRef.current) return;
+
+    const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
+    const supabaseKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+    if (!supabaseUrl || !supabaseKey) {
+      alert('Supabase configuration not found');
+      return;
+    }
+
+    const profile = await getUserProfile(userId).catch(() => null);
+    const transfer = new CallTransfer(new DialService(supabaseUrl, supabaseKey), {
+      client,
+      sipParticipantId,
+      transferredBy: userId,
+      transferredByName: profile?.display_name,
+      invitations: callInvitationServiceRef.current,
+      connectConsultRoom,
+    });
+    callTransferRef.current = transfer;
+
+    const release = () => {
+      if (callTransferRef.current === transfer) {
+        callTransferRef.current = null;
+      }
+      transfer.destroy();
+    };
+
+    transfer.on('progress-changed', (progress) => {
+      setTransferProgress(progress);
+      const invitationId = transfer.getInvitationId();
+      if (invitationId) {
+        transferInvitationIdsRef.current.add(invitationId);
+      }
+    });
+    transfer.on('failed', (message) => {
+      release();
+      alert(message);
+    });
+    transfer.on('completed', (result) => {
+      release();
+      void handleTransferCompleted(originalCallId, sipParticipantId, result);
+    });
+
+    if (mode === 'attended' && target.type === 'phone') {
+      await transfer.consult(target.phoneNumber, targetName);
+    } else {
+      await transfer.blind(target, targetName);
+    }
+  };
+
+  const handleTransferCompleted = async (originalCallId: string, sipParticipantId: string, result: TransferResult) => {
+    const callData = currentCallDataRef.current;
+    transferredCallIdRef.current = originalCallId;
+
+    await handlePSTNCallStatus({
+      event: 'call-status',
+      status: 'transferred',
+      callId: originalCallId,
+      phoneNumber: callData?.phoneNumber ?? '',
+      timestamp: Date.now(),
+      sipParticipantId,
+    });
+
+    try {
+      await insertCallHistory({
+        phone_number: callData?.phoneNumber ?? '',
+        contact_name: callData?.contactName ?? 'Unknown',
+        call_id: result.transferCallId,
+        // A web user has joined by now; a referred phone leg is no longer ours to follow
+        status: result.target.type === 'user' ? 'answered' : 'initiated',
+        timestamp: new Date().toISOString(),
+        call_type: 'pstn',
+        callee_identifier: result.target.type === 'phone' ? result.target.phoneNumber : result.target.userId,
+        callee_user_id: result.target.type === 'user' ? result.target.userId : undefined,
+        user_id: userId ?? undefined,
+        transferred_from_call_id: originalCallId,
+        transfer_type: result.mode,
+      });
+      setHistoryRefreshKey(prev => prev + 1);
+    } catch (error) {
+      console.error('Failed to log transferred call:', error);
+    }
+
+    // The web user is now in the room with the caller, so this device leaves it to them.
+    // A referred phone leg has already left, and the room stays ready for the next call.
+    if (result.target.type === 'user') {
+      handleStopPSTN();
+    } else {
+      await liveKitClientRef.current?.resume();
+    }
+  };
+
+  const handleCompleteTransfer = () => {
+    void callTransferRef.current?.complete();
+  };
+
+  const handleCancelTransfer = () => {
+    void callTransferRef.current?.cancel();
+  };
+
   const handlePSTNHangup = async () => {
-    if (!liveKitClientRef.current || !isPSTNCallActive || !activeSipParticipantId) {
+    if (!(liveKitClientRef.current || voiceSocketRef.current) || !isPSTNCallActive || !activeSipParticipantId) {
       return;
     }
 
@@ -888,6 +1937,50 @@ function MainApp() {
         </div>
       )}
 
+      {pendingPreCall && userId && (pendingPreCall.kind === 'outgoing' || incomingInvitation) && (
+        <PreCallCheckModal
+          title={pendingPreCall.kind === 'outgoing' ? 'Check your setup before calling' : 'Check your setup before joining'}
+          continueLabel={pendingPreCall.kind === 'outgoing' ? 'Start call' : 'Join call'}
+          identity={userId}
+          tokenManager={tokenManagerRef.current}
+          devices={devices}
+          preferences={devicePreferences}
+          supportsOutputSelection={DeviceManager.supportsOutputSelection()}
+          onSelectDevice={handleDeviceSelected}
+          onContinue={handlePreCallContinue}
+          onCancel={handlePreCallCancel}
+        />
+      )}
+
+      {showAddParticipant && userId && isInCall && (
+        <AddParticipantModal
+          currentUserId={userId}
+          unavailableUserIds={getUninvitableUserIds()}
+          onInviteUser={handleInviteToCall}
+          onDialPhone={handleDialIntoCall}
+          isEncrypted={encryptionState === 'pending' || encryptionState === 'encrypted'}
+          onClose={() => setShowAddParticipant(false)}
+        />
+      )}
+
+      {showTransferModal && userId && (
+        <TransferCallModal
+          currentUserId={userId}
+          callerName={currentCallDataRef.current?.contactName || 'caller'}
+          onTransfer={handleTransfer}
+          onClose={() => setShowTransferModal(false)}
+        />
+      )}
+
+      {pendingRecording && userId && (
+        <RecordingSaveModal
+          recording={pendingRecording.recording}
+          currentUserId={userId}
+          historyLink={pendingRecording.link}
+          onClose={() => setPendingRecording(null)}
+        />
+      )}
+
       {showPhoneContactModal && (
         <PhoneContactModal
           currentUserId={userId}
@@ -941,6 +2034,19 @@ function MainApp() {
           </div>
         </div>
 
+        {(isInCall || isPSTNConnected) && <ConnectionStatusBanner status={connectionStatus} />}
+        {(isInCall || isPSTNConnected) && isAudioPlaybackBlocked && (
+          <AudioPlaybackPrompt onEnableAudio={handleEnableAudio} />
+        )}
+        {(isInCall || isPSTNConnected) && (transferProgress ? (
+          <TransferBanner progress={transferProgress} onComplete={handleCompleteTransfer} onCancel={handleCancelTransfer} />
+        ) : (
+          <HoldBanner isOnHold={isOnHold} isHeldByOthers={isHeldByOthers} onResume={handleToggleHold} />
+        ))}
+        {isInCall && callType === 'webrtc' && (
+          <EncryptionBanner state={encryptionState} verificationCode={verificationCode} />
+        )}
+
         {isInCall ? (
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
             <div className="lg:col-span-2 space-y-3 sm:space-y-4">
@@ -964,13 +2070,132 @@ function MainApp() {
                     In Call {callType === 'pstn' ? '(Phone)' : '(Video)'}
                   </h2>
                   <div className="flex items-center gap-3">
+                    {callType === 'webrtc' && (
+                      <div className="flex items-center gap-2">
+                        {!isScreenSharing && (
+                          <label className="hidden sm:flex items-center gap-1 text-xs text-slate-400" title="Include tab or system audio">
+                            <input
+                              type="checkbox"
+                              checked={shareScreenAudio}
+                              onChange={(e) => setShareScreenAudio(e.target.checked)}
+                              className="rounded border-slate-600 bg-slate-700"
+                            />
+                            Audio
+                          </label>
+                        )}
+                        <button
+                          onClick={handleToggleScreenShare}
+                          className={`flex items-center gap-1.5 px-3 py-2 rounded-lg transition-colors text-xs sm:text-sm ${
+                            isScreenSharing ? 'bg-blue-600 hover:bg-blue-700' : 'bg-slate-700 hover:bg-slate-600'
+                          }`}
+                          title={isScreenSharing ? 'Stop presenting' : 'Share your screen'}
+                        >
+                          {isScreenSharing ? <MonitorX className="w-4 h-4" /> : <MonitorUp className="w-4 h-4" />}
+                          <span className="hidden sm:inline">{isScreenSharing ? 'Stop presenting' : 'Present'}</span>
+                        </button>
+                      </div>
+                    )}
+                    {roomClient && (callType === 'webrtc' || pstnCallStatus === 'answered' || pstnCallStatus === 'in-progress') && (
+                      <button
+                        onClick={handleToggleHold}
+                        className={`flex items-center gap-1.5 px-3 py-2 rounded-lg transition-colors text-xs sm:text-sm ${
+                          isOnHold ? 'bg-amber-600 hover:bg-amber-700' : 'bg-slate-700 hover:bg-slate-600'
+                        }`}
+                        title={isOnHold ? 'Resume the call' : 'Put the call on hold'}
+                      >
+                        {isOnHold ? <Play className="w-4 h-4" /> : <Pause className="w-4 h-4" />}
+                        <span className="hidden sm:inline">{isOnHold ? 'Resume' : 'Hold'}</span>
+                      </button>
+                    )}
+                    {callType === 'webrtc' && callSessionId && (
+                      <button
+                        onClick={() => setShowAddParticipant(true)}
+                        className="flex items-center gap-1.5 px-3 py-2 rounded-lg bg-slate-700 hover:bg-slate-600 transition-colors text-xs sm:text-sm"
+                        title="Invite more people or dial a phone number into this call"
+                      >
+                        <UserPlus className="w-4 h-4" />
+                        <span className="hidden sm:inline">Add</span>
+                      </button>
+                    )}
+                    {roomClient && callType === 'pstn' && (pstnCallStatus === 'answered' || pstnCallStatus === 'in-progress') && (
+                      <button
+                        onClick={() => setShowTransferModal(true)}
+                        disabled={transferProgress !== null}
+                        className="flex items-center gap-1.5 px-3 py-2 rounded-lg bg-slate-700 hover:bg-slate-600 transition-colors text-xs sm:text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                        title="Transfer the call to another number or user"
+                      >
+                        <PhoneForwarded className="w-4 h-4" />
+                        <span className="hidden sm:inline">Transfer</span>
+                      </button>
+                    )}
+                    {callType === 'webrtc' && (
+                      <LayoutControl
+                        layout={videoLayout}
+                        isPinned={pinnedIdentity !== null}
+                        onChange={handleVideoLayoutChange}
+                        onUnpin={() => setPinnedIdentity(null)}
+                      />
+                    )}
+                    {callType === 'webrtc' && (
+                      <PictureInPictureControl
+                        client={roomClient}
+                        speakerIdentity={pinnedIdentity || lastSpeaker}
+                        autoEnter={autoPictureInPicture}
+                        onAutoEnterChange={handleAutoPictureInPictureChange}
+                        onHangUp={() => handleEndCall()}
+                      />
+                    )}
+                    {callType === 'webrtc' && (
+                      <ReactionControl
+                        isHandRaised={isHandRaised}
+                        onToggleHand={handleToggleHand}
+                        onReact={handleReaction}
+                      />
+                    )}
+                    <RecordingControl
+                      isRecording={recordingStartedAt !== null}
+                      recordingStartedAt={recordingStartedAt}
+                      includeVideo={recordWithVideo}
+                      canIncludeVideo={callType === 'webrtc'}
+                      remoteRecorderCount={remoteRecorders.size}
+                      onIncludeVideoChange={setRecordWithVideo}
+                      onStart={handleStartRecording}
+                      onStop={() => handleStopRecording(getCurrentHistoryLink())}
+                    />
+                    {callType === 'webrtc' && (
+                      <BackgroundEffectControl
+                        effect={backgroundEffect}
+                        fallbackReason={backgroundFallback}
+                        isSupported={BackgroundProcessor.isSupported()}
+                        onChange={handleBackgroundEffectChange}
+                      />
+                    )}
+                    <BandwidthProfileControl
+                      profile={bandwidthProfile}
+                      degradedFrom={bandwidthDegradedFrom}
+                      autoAudioOnly={autoAudioOnly}
+                      onChange={handleBandwidthProfileChange}
+                      onAutoAudioOnlyChange={handleAutoAudioOnlyChange}
+                    />
+                    <NoiseSuppressionControl
+                      settings={noiseSuppression}
+                      stats={noiseSuppressionStats}
+                      isSupported={NoiseSuppressionProcessor.isSupported()}
+                      onChange={handleNoiseSuppressionChange}
+                    />
+                    <DeviceSettings
+                      devices={devices}
+                      preferences={devicePreferences}
+                      supportsOutputSelection={DeviceManager.supportsOutputSelection()}
+                      onSelectDevice={handleDeviceSelected}
+                    />
                     {callType === 'webrtc' && aloneStartTime && (
                       <span className="text-sm text-amber-400">
                         Waiting for others... ({Math.floor((Date.now() - aloneStartTime) / 1000)}s)
                       </span>
                     )}
                     <button
-                      onClick={callType === 'pstn' ? handlePSTNHangup : handleEndCall}
+                      onClick={callType === 'pstn' ? handlePSTNHangup : () => handleEndCall()}
                       className="w-full sm:w-auto px-4 sm:px-5 md:px-6 py-2 bg-red-600 hover:bg-red-700 rounded-lg font-medium transition-colors text-sm sm:text-base"
                     >
                       End Call
@@ -981,20 +2206,67 @@ function MainApp() {
                 <div className="bg-slate-900 rounded-lg p-2 sm:p-3 md:p-4 min-h-[300px] sm:min-h-[400px]">
                   <VideoGrid
                     room={livekitRoom}
-                    activeSpeakers={new Set()}
+                    activeSpeakers={activeSpeakers}
+                    raisedHands={raisedHands}
+                    reactions={reactions}
+                    layout={videoLayout}
+                    pinnedIdentity={pinnedIdentity}
+                    lastSpeaker={lastSpeaker}
+                    onTogglePin={handleTogglePin}
                   />
                 </div>
               </div>
             </div>
 
-            <div className="lg:col-span-1">
-              <div className="bg-slate-800 rounded-lg p-3 sm:p-4 h-full">
+            <div className="lg:col-span-1 space-y-4">
+              {roomClient && callType === 'pstn' && isPSTNCallActive && (
+                <InCallKeypad
+                  history={dtmfHistory}
+                  disabled={pstnCallStatus !== 'answered' && pstnCallStatus !== 'in-progress'}
+                  onDigit={handleSendDtmf}
+                />
+              )}
+
+              <TranscriptPanel segments={transcriptSegments} />
+
+              {callType === 'webrtc' && (
+                <ChatPanel
+                  messages={chatMessages}
+                  onSend={async (text) => {
+                    await chatServiceRef.current?.send(text);
+                  }}
+                  onRetry={(id) => chatServiceRef.current?.retry(id)}
+                />
+              )}
+
+              {callType === 'webrtc' && (
+                <ParticipantsPanel
+                  room={livekitRoom}
+                  audioLevels={audioLevels}
+                  activeSpeakers={activeSpeakers}
+                  networkStats={networkStats}
+                  adminUserId={callHostUserId || undefined}
+                  currentUserId={userId}
+                  onKickParticipant={handleKickParticipant}
+                  onMuteParticipant={handleMuteParticipant}
+                  onToggleParticipantVideo={handleToggleParticipantVideo}
+                  playback={participantPlayback}
+                  onPlaybackChange={handleParticipantPlaybackChange}
+                  invitations={sessionInvitations}
+                  raisedHands={raisedHands}
+                  reactions={reactions}
+                  onLowerHand={handleLowerParticipantHand}
+                />
+              )}
+
+              <div className="bg-slate-800 rounded-lg p-3 sm:p-4">
                 {userId && (
                   <CallHistory
                     onRedial={handlePSTNDial}
                     isDialing={isPSTNDialing}
                     currentCallId={activePSTNCallId}
                     refreshTrigger={historyRefreshKey}
+                    currentUserId={userId}
                   />
                 )}
               </div>
@@ -1014,6 +2286,10 @@ function MainApp() {
                 />
               )}
 
+              {isPSTNConnected && voiceSocketRef.current && (
+                <VoiceDiagnostics client={voiceSocketRef.current} />
+              )}
+
               <div className="bg-slate-800 rounded-lg p-3 sm:p-4">
                 {userId && (
                   <CallHistory
@@ -1021,12 +2297,24 @@ function MainApp() {
                     isDialing={isPSTNDialing}
                     currentCallId={activePSTNCallId}
                     refreshTrigger={historyRefreshKey}
+                    currentUserId={userId}
                   />
                 )}
               </div>
             </div>
 
             <div className="lg:col-span-2 bg-slate-800 rounded-lg p-3 sm:p-4 md:p-6">
+              {isCallEncryptionSupported() && (
+                <label className="flex items-center gap-2 mb-3 text-xs text-slate-300" title="Only you and the person you call can decrypt the audio and video">
+                  <input
+                    type="checkbox"
+                    checked={encryptCalls}
+                    onChange={(e) => handleCallEncryptionChange(e.target.checked)}
+                    className="rounded border-slate-600 bg-slate-700"
+                  />
+                  End-to-end encrypt my video calls
+                </label>
+              )}
               {userId && callInvitationServiceRef.current && (
                 <UnifiedContacts
                   currentUserId={userId}
@@ -0,0 +1,175 @@
+import { useEffect, useState } from 'react';
+import { X, Phone, User, UserPlus, Users } from 'lucide-react';
+import { getAllUsers, getPhoneContacts, PhoneContact, UserProfile } from '../utils/supabase';
+
+interface AddParticipantModalProps {
+  currentUserId: string;
+  // People already in the call or with an open invitation, who cannot be invited again
+  unavailableUserIds: Set<string>;
+  onInviteUser: (userId: string) => Promise<void>;
+  onDialPhone: (phoneNumber: string, contactName: string) => Promise<void>;
+  // Only the two people who agreed the key can join an encrypted call
+  isEncrypted?: boolean;
+  onClose: () => void;
+}
+
+const E164_REGEX = /^\+[1-9]\d{1,14}$/;
+
+export default function AddParticipantModal({
+  currentUserId,
+  unavailableUserIds,
+  onInviteUser,
+  onDialPhone,
+  isEncrypted = false,
+  onClose,
+}: AddParticipantModalProps) {
+  const [activeTab, setActiveTab] = useState<'web' | 'phone'>(isEncrypted ? 'phone' : 'web');
+  const [webUsers, setWebUsers] = useState<UserProfile[]>([]);
+  const [phoneContacts, setPhoneContacts] = useState<PhoneContact[]>([]);
+  const [phoneNumber, setPhoneNumber] = useState('');
+  const [phoneName, setPhoneName] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    Promise.all([getAllUsers(), getPhoneContacts(currentUserId)])
+      .then(([users, contacts]) => {
+        setWebUsers(users.filter(u => u.user_id !== currentUserId));
+        setPhoneContacts(contacts);
+      })
+      .catch(loadError => console.error('Failed to load contacts:', loadError));
+  }, [currentUserId]);
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      setIsSending(true);
+      setError('');
+      await action();
+      onClose();
+    } catch (actionError) {
+      setError(actionError instanceof Error ? actionError.message : 'Something went wrong');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleDial = () => {
+    const number = phoneNumber.replace(/[\s\-()]/g, '');
+    if (!E164_REGEX.test(number)) {
+      setError('Please enter the number in E.164 format (e.g., +1234567890)');
+      return;
+    }
+    void run(() => onDialPhone(number, phoneName.trim() || number));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-slate-800 rounded-lg max-w-md w-full p-6 shadow-xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-bold text-white flex items-center gap-2">
+            <UserPlus className="w-5 h-5" />
+            Add people
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-1 hover:bg-slate-700 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5 text-slate-400" />
+          </button>
+        </div>
+
+        <div className="flex gap-2 mb-4">
+          <button
+            onClick={() => { setActiveTab('web'); setError(''); }}
+            disabled={isEncrypted}
+            title={isEncrypted ? 'Web users cannot join an end-to-end encrypted call' : undefined}
+            className={`flex-1 flex items-center justify-center gap-1.5 py-2 rounded-lg text-sm transition-colors ${
+              activeTab === 'web' ? 'bg-blue-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+            } disabled:opacity-50 disabled:cursor-not-allowed`}
+          >
+            <Users className="w-4 h-4" />
+            Web user
+          </button>
+          <button
+            onClick={() => { setActiveTab('phone'); setError(''); }}
+            className={`flex-1 flex items-center justify-center gap-1.5 py-2 rounded-lg text-sm transition-colors ${
+              activeTab === 'phone' ? 'bg-blue-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+            }`}
+          >
+            <Phone className="w-4 h-4" />
+            Phone number
+          </button>
+        </div>
+
+        {activeTab === 'web' ? (
+          <div className="max-h-64 overflow-y-auto space-y-1">
+            {webUsers.length === 0 ? (
+              <p className="text-center py-4 text-xs text-slate-400">No other users</p>
+            ) : (
+              webUsers.map(user => {
+                const isUnavailable = unavailableUserIds.has(user.user_id);
+                return (
+                  <button
+                    key={user.user_id}
+                    onClick={() => run(() => onInviteUser(user.user_id))}
+                    disabled={isSending || isUnavailable}
+                    className="w-full flex items-center gap-2 text-left px-3 py-2 rounded text-xs bg-slate-700/50 hover:bg-slate-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <User className="w-3.5 h-3.5 text-slate-400" />
+                    <span className="flex-1 text-white">{user.display_name}</span>
+                    {isUnavailable && <span className="text-[10px] text-slate-400">Already in the call</span>}
+                  </button>
+                );
+              })
+            )}
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <input
+              type="tel"
+              value={phoneNumber}
+              onChange={(e) => { setPhoneNumber(e.target.value); setPhoneName(''); setError(''); }}
+              placeholder="+1234567890"
+              className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white font-mono placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            {phoneContacts.length > 0 && (
+              <div className="max-h-40 overflow-y-auto space-y-1">
+                {phoneContacts.map(contact => (
+                  <button
+                    key={contact.id}
+                    onClick={() => { setPhoneNumber(contact.phone_number); setPhoneName(contact.contact_name); setError(''); }}
+                    className={`w-full text-left px-3 py-2 rounded text-xs transition-colors ${
+                      contact.phone_number === phoneNumber ? 'bg-blue-900/40 border border-blue-500/50' : 'bg-slate-700/50 hover:bg-slate-700'
+                    }`}
+                  >
+                    <span className="text-white">{contact.contact_name}</span>
+                    <span className="ml-2 text-slate-400 font-mono">{contact.phone_number}</span>
+                  </button>
+                ))}
+              </div>
+            )}
+            {isEncrypted && (
+              <p className="text-[11px] text-amber-400">
+                Phone lines cannot decrypt the call, so dialing a number turns off end-to-end encryption for everyone.
+              </p>
+            )}
+            <button
+              onClick={handleDial}
+              disabled={isSending}
+              className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg transition-colors disabled:opacity-50"
+            >
+              <Phone className="w-4 h-4" />
+              {isSending ? 'Dialing...' : 'Dial into call'}
+            </button>
+          </div>
+        )}
+
+        {error && (
+          <div className="mt-4 bg-red-500 bg-opacity-10 border border-red-500 rounded-lg p-3">
+            <p className="text-sm text-red-400">{error}</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,17 @@
+import { VolumeX } from 'lucide-react';
+
+interface AudioPlaybackPromptProps {
+  onEnableAudio: () => void;
+}
+
+export default function AudioPlaybackPrompt({ onEnableAudio }: AudioPlaybackPromptProps) {
+  return (
+    <button
+      onClick={onEnableAudio}
+      className="w-full flex items-center gap-2 mb-3 sm:mb-4 px-3 py-2 rounded-lg bg-blue-900/40 border border-blue-700 text-xs sm:text-sm text-blue-200 hover:bg-blue-900/60 transition-colors"
+    >
+      <VolumeX className="w-4 h-4 flex-shrink-0" />
+      <span className="flex-1 text-left">Your browser blocked call audio. Click to enable audio.</span>
+    </button>
+  );
+}
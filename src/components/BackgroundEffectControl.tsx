@@ -0,0 +1,136 @@
+import { useRef, useState } from 'react';
+import { Sparkles, Ban, Droplets, ImagePlus, AlertTriangle, X } from 'lucide-react';
+import { BackgroundEffect, BackgroundFallbackReason, BlurLevel } from '../utils/BackgroundProcessor';
+
+interface BackgroundEffectControlProps {
+  effect: BackgroundEffect;
+  fallbackReason: BackgroundFallbackReason | null;
+  isSupported: boolean;
+  onChange: (effect: BackgroundEffect) => void;
+}
+
+const BLUR_OPTIONS: { level: BlurLevel; label: string }[] = [
+  { level: 'light', label: 'Light' },
+  { level: 'medium', label: 'Medium' },
+  { level: 'strong', label: 'Strong' },
+];
+
+export default function BackgroundEffectControl({ effect, fallbackReason, isSupported, onChange }: BackgroundEffectControlProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [uploadedImageUrl, setUploadedImageUrl] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const imageUrl = uploadedImageUrl ?? (effect.type === 'image' ? effect.imageUrl : null);
+
+  // The selected image outlives this popover (it is reused for the next call), so its URL is
+  // only released when another image replaces it
+  const handleFileSelected = (file: File | undefined) => {
+    if (!file || !file.type.startsWith('image/')) return;
+
+    if (imageUrl) URL.revokeObjectURL(imageUrl);
+    const newImageUrl = URL.createObjectURL(file);
+    setUploadedImageUrl(newImageUrl);
+    onChange({ type: 'image', imageUrl: newImageUrl });
+  };
+
+  const optionClass = (isSelected: boolean) =>
+    `flex flex-col items-center gap-1 p-2 rounded border text-[11px] transition-colors ${
+      isSelected
+        ? 'bg-blue-600/30 border-blue-500 text-white'
+        : 'bg-slate-700/50 border-slate-600 text-slate-300 hover:bg-slate-700'
+    }`;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`relative p-2 rounded-lg transition-colors ${
+          effect.type !== 'none' ? 'bg-blue-600 hover:bg-blue-700' : 'bg-slate-700 hover:bg-slate-600'
+        }`}
+        title="Background effects"
+      >
+        <Sparkles className="w-4 h-4" />
+        {effect.type !== 'none' && fallbackReason && (
+          <span className="absolute -top-1 -right-1 w-2.5 h-2.5 rounded-full bg-amber-400" />
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-72 z-40 bg-slate-800 border border-slate-600 rounded-lg shadow-xl p-3 space-y-3">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-semibold text-slate-200">Background</span>
+            <button
+              onClick={() => setIsOpen(false)}
+              className="p-1 rounded hover:bg-slate-700 transition-colors"
+            >
+              <X className="w-3.5 h-3.5 text-slate-400" />
+            </button>
+          </div>
+
+          {!isSupported ? (
+            <p className="text-[11px] text-slate-500">This browser cannot process camera video</p>
+          ) : (
+            <>
+              <div className="grid grid-cols-4 gap-1.5">
+                <button onClick={() => onChange({ type: 'none' })} className={optionClass(effect.type === 'none')}>
+                  <Ban className="w-4 h-4" />
+                  None
+                </button>
+                {BLUR_OPTIONS.map(({ level, label }) => (
+                  <button
+                    key={level}
+                    onClick={() => onChange({ type: 'blur', level })}
+                    className={optionClass(effect.type === 'blur' && effect.level === level)}
+                  >
+                    <Droplets className="w-4 h-4" />
+                    {label}
+                  </button>
+                ))}
+              </div>
+
+              <div className="flex items-center gap-2">
+                {imageUrl && (
+                  <button
+                    onClick={() => onChange({ type: 'image', imageUrl })}
+                    className={`w-16 h-9 rounded border overflow-hidden ${
+                      effect.type === 'image' ? 'border-blue-500' : 'border-slate-600'
+                    }`}
+                    title="Use this image"
+                  >
+                    <img src={imageUrl} alt="" className="w-full h-full object-cover" />
+                  </button>
+                )}
+                <button
+                  onClick={() => fileInputRef.current?.click()}
+                  className="flex items-center gap-1.5 px-2.5 py-1.5 rounded text-xs bg-slate-700 hover:bg-slate-600 transition-colors"
+                >
+                  <ImagePlus className="w-3.5 h-3.5" />
+                  {imageUrl ? 'Change image' : 'Use an image'}
+                </button>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept="image/*"
+                  className="hidden"
+                  onChange={(e) => {
+                    handleFileSelected(e.target.files?.[0]);
+                    e.target.value = '';
+                  }}
+                />
+              </div>
+
+              {effect.type !== 'none' && fallbackReason && (
+                <p className="flex items-start gap-1.5 text-[11px] text-amber-400">
+                  <AlertTriangle className="w-3.5 h-3.5 flex-shrink-0 mt-px" />
+                  {fallbackReason === 'overload'
+                    ? 'This device cannot keep up, so your camera is shown without the effect for now.'
+                    : 'The background model could not be loaded, so your camera is shown without the effect.'}
+                </p>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
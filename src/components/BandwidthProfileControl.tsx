@@ -0,0 +1,93 @@
+import { useState } from 'react';
+import { Gauge, AlertTriangle, X } from 'lucide-react';
+import { BANDWIDTH_PROFILES, BandwidthProfileName } from '../utils/BandwidthProfiles';
+
+interface BandwidthProfileControlProps {
+  profile: BandwidthProfileName;
+  // Set when the call dropped to audio-only on its own; holds the profile to go back to
+  degradedFrom: BandwidthProfileName | null;
+  autoAudioOnly: boolean;
+  onChange: (profile: BandwidthProfileName) => void;
+  onAutoAudioOnlyChange: (enabled: boolean) => void;
+}
+
+export default function BandwidthProfileControl({
+  profile,
+  degradedFrom,
+  autoAudioOnly,
+  onChange,
+  onAutoAudioOnlyChange,
+}: BandwidthProfileControlProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`relative p-2 rounded-lg transition-colors ${
+          profile !== 'high' ? 'bg-blue-600 hover:bg-blue-700' : 'bg-slate-700 hover:bg-slate-600'
+        }`}
+        title={`Bandwidth: ${BANDWIDTH_PROFILES[profile].label}`}
+      >
+        <Gauge className="w-4 h-4" />
+        {degradedFrom && (
+          <span className="absolute -top-1 -right-1 w-2.5 h-2.5 rounded-full bg-amber-400" />
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-72 z-40 bg-slate-800 border border-slate-600 rounded-lg shadow-xl p-3 space-y-3">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-semibold text-slate-200">Bandwidth</span>
+            <button
+              onClick={() => setIsOpen(false)}
+              className="p-1 rounded hover:bg-slate-700 transition-colors"
+            >
+              <X className="w-3.5 h-3.5 text-slate-400" />
+            </button>
+          </div>
+
+          {degradedFrom && (
+            <div className="flex items-start gap-1.5 text-[11px] text-amber-400">
+              <AlertTriangle className="w-3.5 h-3.5 flex-shrink-0 mt-px" />
+              <span className="flex-1">Switched to audio only because your connection stayed poor.</span>
+              <button
+                onClick={() => onChange(degradedFrom)}
+                className="px-2 py-0.5 rounded bg-slate-700 hover:bg-slate-600 text-slate-200 transition-colors"
+              >
+                Restore
+              </button>
+            </div>
+          )}
+
+          <div className="space-y-1.5">
+            {Object.values(BANDWIDTH_PROFILES).map(option => (
+              <button
+                key={option.name}
+                onClick={() => onChange(option.name)}
+                className={`w-full text-left px-2.5 py-2 rounded border transition-colors ${
+                  option.name === profile
+                    ? 'bg-blue-600/30 border-blue-500 text-white'
+                    : 'bg-slate-700/50 border-slate-600 text-slate-300 hover:bg-slate-700'
+                }`}
+              >
+                <div className="text-xs font-medium">{option.label}</div>
+                <div className="text-[11px] text-slate-400">{option.description}</div>
+              </button>
+            ))}
+          </div>
+
+          <label className="flex items-center justify-between text-xs text-slate-300 border-t border-slate-700 pt-2">
+            Switch to audio only on a poor connection
+            <input
+              type="checkbox"
+              checked={autoAudioOnly}
+              onChange={(e) => onAutoAudioOnlyChange(e.target.checked)}
+              className="rounded border-slate-600 bg-slate-700"
+            />
+          </label>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,18 +1,32 @@
 import { useEffect, useState } from 'react';
-import { Phone, Clock, PhoneCall, PhoneMissed, PhoneOff, Video } from 'lucide-react';
+import { Phone, Clock, PhoneCall, PhoneForwarded, PhoneMissed, PhoneOff, Video, MessageSquare, FileText, Search, X } from 'lucide-react';
 import { getCallHistory, CallHistoryRecord } from '../utils/supabase';
+import { ChatEntry, fetchChatMessages } from '../utils/ChatService';
+import ChatMessageList from './ChatMessageList';
+import { TranscriptLink, TranscriptSearchResult, TranscriptSegment, fetchTranscript, searchTranscripts } from '../utils/TranscriptService';
+import TranscriptSegmentList from './TranscriptSegmentList';
 
 interface CallHistoryProps {
   onRedial: (phoneNumber: string, contactName: string) => void;
   isDialing: boolean;
   currentCallId?: string;
   refreshTrigger?: number;
+  currentUserId?: string;
 }
 
-export default function CallHistory({ onRedial, isDialing, currentCallId, refreshTrigger }: CallHistoryProps) {
+export default function CallHistory({ onRedial, isDialing, currentCallId, refreshTrigger, currentUserId }: CallHistoryProps) {
   const [history, setHistory] = useState<CallHistoryRecord[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isExpanded, setIsExpanded] = useState(true);
+  const [openChatSessionId, setOpenChatSessionId] = useState<string | null>(null);
+  const [chatMessages, setChatMessages] = useState<ChatEntry[]>([]);
+  const [isChatLoading, setIsChatLoading] = useState(false);
+  const [openTranscriptRecordId, setOpenTranscriptRecordId] = useState<string | null>(null);
+  const [transcriptSegments, setTranscriptSegments] = useState<TranscriptSegment[]>([]);
+  const [isTranscriptLoading, setIsTranscriptLoading] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<TranscriptSearchResult[] | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
 
   useEffect(() => {
     loadHistory();
@@ -55,6 +69,8 @@ export default function CallHistory({ onRedial, isDialing, currentCallId, refres
         return <Icon className="w-4 h-4 text-yellow-400" />;
       case 'cancelled':
         return <PhoneOff className="w-4 h-4 text-slate-400" />;
+      case 'transferred':
+        return <PhoneForwarded className="w-4 h-4 text-purple-400" />;
       default:
         return <PhoneOff className="w-4 h-4 text-slate-400" />;
     }
@@ -74,6 +90,8 @@ export default function CallHistory({ onRedial, isDialing, currentCallId, refres
         return 'text-red-400';
       case 'initiated':
         return 'text-yellow-400';
+      case 'transferred':
+        return 'text-purple-400';
       default:
         return 'text-slate-400';
     }
@@ -105,6 +123,79 @@ export default function CallHistory({ onRedial, isDialing, currentCallId, refres
     return `${secs}s`;
   };
 
+  const handleToggleChat = async (sessionId: string) => {
+    if (openChatSessionId === sessionId) {
+      setOpenChatSessionId(null);
+      return;
+    }
+
+    setOpenChatSessionId(sessionId);
+    setChatMessages([]);
+    try {
+      setIsChatLoading(true);
+      setChatMessages(await fetchChatMessages(sessionId, currentUserId));
+    } catch (error) {
+      console.error('Failed to load chat messages:', error);
+    } finally {
+      setIsChatLoading(false);
+    }
+  };
+
+  const getTranscriptLink = (record: CallHistoryRecord): TranscriptLink | null => {
+    if (record.call_type === 'webrtc') {
+      return record.session_id ? { sessionId: record.session_id } : null;
+    }
+    return record.call_id ? { callId: record.call_id } : null;
+  };
+
+  const handleToggleTranscript = async (record: CallHistoryRecord, link: TranscriptLink) => {
+    if (openTranscriptRecordId === record.id) {
+      setOpenTranscriptRecordId(null);
+      return;
+    }
+
+    setOpenTranscriptRecordId(record.id || null);
+    setTranscriptSegments([]);
+    try {
+      setIsTranscriptLoading(true);
+      setTranscriptSegments(await fetchTranscript(link));
+    } catch (error) {
+      console.error('Failed to load transcript:', error);
+    } finally {
+      setIsTranscriptLoading(false);
+    }
+  };
+
+  const handleSearch = async () => {
+    const query = searchQuery.trim();
+    if (!query) {
+      setSearchResults(null);
+      return;
+    }
+
+    try {
+      setIsSearching(true);
+      setSearchResults(await searchTranscripts(query));
+    } catch (error) {
+      console.error('Failed to search transcripts:', error);
+      setSearchResults([]);
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const clearSearch = () => {
+    setSearchQuery('');
+    setSearchResults(null);
+  };
+
+  const findRecordForResult = (result: TranscriptSearchResult) => {
+    return history.find(record =>
+      (result.sessionId && record.session_id === result.sessionId) ||
+      (result.callId && record.call_id === result.callId)
+    );
+  };
+
   const handleRedial = (record: CallHistoryRecord) => {
     if (!isDialing) {
       onRedial(record.phone_number, record.contact_name);
@@ -136,7 +227,65 @@ export default function CallHistory({ onRedial, isDialing, currentCallId, refres
 
       {isExpanded && (
         <div className="px-3 pb-3">
-          {isLoading ? (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleSearch();
+            }}
+            className="flex items-center gap-1.5 mb-2"
+          >
+            <div className="relative flex-1 min-w-0">
+              <Search className="w-3.5 h-3.5 text-slate-400 absolute left-2 top-1/2 -translate-y-1/2" />
+              <input
+                type="text"
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                placeholder="Search transcripts..."
+                className="w-full pl-7 pr-2 py-1.5 rounded text-xs bg-slate-700 border border-slate-600 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500/50 text-white placeholder-slate-400"
+              />
+            </div>
+            {searchResults !== null && (
+              <button
+                type="button"
+                onClick={clearSearch}
+                className="p-1.5 rounded text-slate-400 hover:text-white hover:bg-slate-700 transition-colors"
+                title="Clear search"
+              >
+                <X className="w-3.5 h-3.5" />
+              </button>
+            )}
+          </form>
+
+          {isSearching ? (
+            <div className="text-center py-4 text-slate-400 text-xs">
+              Searching...
+            </div>
+          ) : searchResults !== null ? (
+            searchResults.length === 0 ? (
+              <div className="text-center py-4 text-slate-400 text-xs">
+                No transcripts match "{searchQuery.trim()}"
+              </div>
+            ) : (
+              <div className="space-y-1.5 max-h-60 overflow-y-auto">
+                {searchResults.map((result) => {
+                  const record = findRecordForResult(result);
+                  return (
+                    <div key={`${result.sessionId || result.callId}-${result.id}`} className="p-2 rounded bg-slate-700/50 border border-slate-600">
+                      <div className="flex items-center justify-between gap-2 mb-1">
+                        <p className="font-medium text-white text-xs truncate">
+                          {record?.contact_name || 'Call'}
+                        </p>
+                        <p className="text-[10px] text-slate-400 flex-shrink-0">
+                          {new Date(result.timestamp).toLocaleDateString()}
+                        </p>
+                      </div>
+                      <TranscriptSegmentList segments={[result]} highlight={searchQuery} />
+                    </div>
+                  );
+                })}
+              </div>
+            )
+          ) : isLoading ? (
             <div className="text-center py-4 text-slate-400 text-xs">
               Loading...
             </div>
@@ -146,49 +295,97 @@ export default function CallHistory({ onRedial, isDialing, currentCallId, refres
             </div>
           ) : (
             <div className="space-y-1.5 max-h-60 overflow-y-auto">
-              {history.map((record) => (
-                <button
-                  key={record.id}
-                  onClick={() => handleRedial(record)}
-                  disabled={isDialing}
-                  className={`w-full text-left p-2 rounded border transition-all ${
-                    record.call_id === currentCallId
-                      ? 'bg-blue-900/30 border-blue-500/50'
-                      : 'bg-slate-700/50 border-slate-600 hover:bg-slate-700 hover:border-slate-500'
-                  } ${isDialing ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer active:scale-98'}`}
-                >
-                  <div className="flex items-center gap-2">
-                    <div className="flex-shrink-0">
-                      {getStatusIcon(record.status, record.call_type || 'pstn')}
-                    </div>
-                    <div className="flex-1 min-w-0">
-                      <div className="flex items-center justify-between gap-2">
-                        <p className="font-medium text-white text-xs truncate">
-                          {record.contact_name}
-                        </p>
-                        <p className="text-[10px] text-slate-400 flex-shrink-0">
-                          {formatTimestamp(record.created_at)}
-                        </p>
-                      </div>
-                      <div className="flex items-center justify-between gap-2 mt-0.5">
-                        <p className="text-xs text-slate-300 font-mono truncate">
-                          {record.phone_number}
-                        </p>
-                        <div className="flex items-center gap-1.5 flex-shrink-0">
-                          {record.duration_seconds && record.duration_seconds > 0 && (
-                            <span className="text-[10px] text-slate-400">
-                              {formatDuration(record.duration_seconds)}
-                            </span>
-                          )}
-                          <p className={`text-[10px] font-medium capitalize ${getStatusColor(record.status)}`}>
-                            {record.status}
-                          </p>
+              {history.map((record) => {
+                const transcriptLink = getTranscriptLink(record);
+                return (
+                  <div key={record.id}>
+                    <button
+                      onClick={() => handleRedial(record)}
+                      disabled={isDialing}
+                      className={`w-full text-left p-2 rounded border transition-all ${
+                        record.call_id === currentCallId
+                          ? 'bg-blue-900/30 border-blue-500/50'
+                          : 'bg-slate-700/50 border-slate-600 hover:bg-slate-700 hover:border-slate-500'
+                      } ${isDialing ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer active:scale-98'}`}
+                    >
+                      <div className="flex items-center gap-2">
+                        <div className="flex-shrink-0">
+                          {getStatusIcon(record.status, record.call_type || 'pstn')}
+                        </div>
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-center justify-between gap-2">
+                            <p className="font-medium text-white text-xs truncate">
+                              {record.contact_name}
+                            </p>
+                            <p className="text-[10px] text-slate-400 flex-shrink-0">
+                              {formatTimestamp(record.created_at)}
+                            </p>
+                          </div>
+                          <div className="flex items-center justify-between gap-2 mt-0.5">
+                            <p className="text-xs text-slate-300 font-mono truncate">
+                              {record.phone_number}
+                              {record.transferred_from_call_id && (
+                                <span className="ml-1.5 font-sans text-[10px] text-purple-300" title={`Transferred from call ${record.transferred_from_call_id}`}>
+                                  {record.transfer_type === 'attended' ? 'attended transfer' : 'transfer'} to {record.callee_user_id ? 'a web user' : record.callee_identifier}
+                                </span>
+                              )}
+                            </p>
+                            <div className="flex items-center gap-1.5 flex-shrink-0">
+                              {record.duration_seconds && record.duration_seconds > 0 && (
+                                <span className="text-[10px] text-slate-400">
+                                  {formatDuration(record.duration_seconds)}
+                                  {record.hold_duration_seconds ? ` (${formatDuration(record.hold_duration_seconds)} on hold)` : ''}
+                                </span>
+                              )}
+                              <p className={`text-[10px] font-medium capitalize ${getStatusColor(record.status)}`}>
+                                {record.status}
+                              </p>
+                            </div>
+                          </div>
                         </div>
                       </div>
-                    </div>
+                    </button>
+                    {transcriptLink && (
+                      <div className="pl-8 pt-1 flex items-center gap-3">
+                        {record.call_type === 'webrtc' && record.session_id && (
+                          <button
+                            onClick={() => handleToggleChat(record.session_id!)}
+                            className="flex items-center gap-1 text-[10px] text-slate-400 hover:text-slate-200 transition-colors"
+                          >
+                            <MessageSquare className="w-3 h-3" />
+                            {openChatSessionId === record.session_id ? 'Hide chat' : 'View chat'}
+                          </button>
+                        )}
+                        <button
+                          onClick={() => handleToggleTranscript(record, transcriptLink)}
+                          className="flex items-center gap-1 text-[10px] text-slate-400 hover:text-slate-200 transition-colors"
+                        >
+                          <FileText className="w-3 h-3" />
+                          {openTranscriptRecordId === record.id ? 'Hide transcript' : 'View transcript'}
+                        </button>
+                      </div>
+                    )}
+                    {record.call_type === 'webrtc' && openChatSessionId === record.session_id && (
+                      <div className="ml-8 mt-1.5 p-2 rounded bg-slate-900/50 border border-slate-700 max-h-48 overflow-y-auto">
+                        {isChatLoading ? (
+                          <div className="text-center py-2 text-slate-400 text-xs">Loading...</div>
+                        ) : (
+                          <ChatMessageList messages={chatMessages} emptyText="No messages in this call" />
+                        )}
+                      </div>
+                    )}
+                    {openTranscriptRecordId === record.id && (
+                      <div className="ml-8 mt-1.5 p-2 rounded bg-slate-900/50 border border-slate-700 max-h-48 overflow-y-auto">
+                        {isTranscriptLoading ? (
+                          <div className="text-center py-2 text-slate-400 text-xs">Loading...</div>
+                        ) : (
+                          <TranscriptSegmentList segments={transcriptSegments} emptyText="No transcript for this call" />
+                        )}
+                      </div>
+                    )}
                   </div>
-                </button>
-              ))}
+                );
+              })}
             </div>
           )}
         </div>
@@ -0,0 +1,110 @@
+import { useEffect, useRef, useState } from 'react';
+import { Check, CheckCheck, AlertCircle, Clock } from 'lucide-react';
+import { ChatEntry } from '../utils/ChatService';
+import { fetchUserProfiles, getDisplayName, UserProfile } from '../utils/ProfileService';
+
+interface ChatMessageListProps {
+  messages: ChatEntry[];
+  onRetry?: (id: string) => void;
+  emptyText?: string;
+}
+
+const LINK_PATTERN = /(https?:\/\/[^\s]+|\+?\d[\d\s().-]{6,}\d)/g;
+
+function renderText(text: string) {
+  return text.split(LINK_PATTERN).map((part, index) => {
+    if (index % 2 === 0) return part;
+
+    if (part.startsWith('http')) {
+      return (
+        <a key={index} href={part} target="_blank" rel="noopener noreferrer" className="underline break-all">
+          {part}
+        </a>
+      );
+    }
+
+    return (
+      <a key={index} href={`tel:${part.replace(/[^\d+]/g, '')}`} className="underline font-mono">
+        {part}
+      </a>
+    );
+  });
+}
+
+export default function ChatMessageList({ messages, onRetry, emptyText = 'No messages yet' }: ChatMessageListProps) {
+  const [userProfiles, setUserProfiles] = useState<Map<string, UserProfile>>(new Map());
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const senderIds = Array.from(new Set(messages.map(message => message.senderIdentity)))
+      .filter(id => !id.startsWith('sip-'));
+
+    if (senderIds.length === 0) {
+      return;
+    }
+
+    fetchUserProfiles(senderIds).then(profiles => {
+      setUserProfiles(profiles);
+    });
+  }, [messages]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [messages.length]);
+
+  const getStatusIcon = (message: ChatEntry) => {
+    switch (message.status) {
+      case 'sending':
+        return <Clock className="w-3 h-3 text-slate-400" />;
+      case 'sent':
+        return <Check className="w-3 h-3 text-slate-300" />;
+      case 'delivered':
+        return <CheckCheck className="w-3 h-3 text-blue-300" />;
+      case 'failed':
+        return <AlertCircle className="w-3 h-3 text-red-400" />;
+    }
+  };
+
+  if (messages.length === 0) {
+    return (
+      <div className="text-center py-4 text-slate-400 text-xs">
+        {emptyText}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {messages.map((message) => (
+        <div key={message.id} className={`flex flex-col ${message.isLocal ? 'items-end' : 'items-start'}`}>
+          <span className="text-[10px] text-slate-400 mb-0.5">
+            {message.isLocal ? 'You' : getDisplayName(message.senderIdentity, userProfiles)}
+            {' · '}
+            {new Date(message.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+          </span>
+          <div
+            className={`max-w-[85%] px-2.5 py-1.5 rounded-lg text-xs whitespace-pre-wrap break-words ${
+              message.isLocal ? 'bg-blue-600 text-white' : 'bg-slate-700 text-slate-100'
+            }`}
+          >
+            {renderText(message.text)}
+          </div>
+          {message.isLocal && (
+            <div className="flex items-center gap-1 mt-0.5" title={message.status}>
+              {getStatusIcon(message)}
+              {message.status === 'failed' && onRetry && (
+                <button
+                  onClick={() => onRetry(message.id)}
+                  className="text-[10px] text-red-400 hover:text-red-300 underline"
+                >
+                  Retry
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      ))}
+      <div ref={bottomRef} />
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+import { useEffect, useState } from 'react';
+import { MessageSquare, Send } from 'lucide-react';
+import { ChatEntry, MAX_CHAT_MESSAGE_LENGTH } from '../utils/ChatService';
+import ChatMessageList from './ChatMessageList';
+
+interface ChatPanelProps {
+  messages: ChatEntry[];
+  onSend: (text: string) => Promise<void>;
+  onRetry: (id: string) => void;
+}
+
+export default function ChatPanel({ messages, onSend, onRetry }: ChatPanelProps) {
+  const [isExpanded, setIsExpanded] = useState(true);
+  const [draft, setDraft] = useState('');
+  const [seenCount, setSeenCount] = useState(0);
+
+  useEffect(() => {
+    if (isExpanded) {
+      setSeenCount(messages.length);
+    }
+  }, [isExpanded, messages.length]);
+
+  const unreadCount = messages.slice(seenCount).filter(message => !message.isLocal).length;
+
+  const handleSend = async () => {
+    const text = draft;
+    if (!text.trim()) return;
+
+    setDraft('');
+    try {
+      await onSend(text);
+    } catch (error) {
+      setDraft(text);
+      alert(error instanceof Error ? error.message : 'Failed to send message');
+    }
+  };
+
+  return (
+    <div className="bg-slate-800/50 rounded-lg border border-slate-700 overflow-hidden">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full px-3 py-2.5 flex items-center justify-between hover:bg-slate-700/50 transition-colors"
+      >
+        <span className="font-semibold text-sm text-slate-200 flex items-center gap-2">
+          <MessageSquare className="w-4 h-4" />
+          Chat
+          {!isExpanded && unreadCount > 0 && (
+            <span className="px-1.5 py-0.5 text-[10px] bg-blue-600 text-white rounded-full">
+              {unreadCount}
+            </span>
+          )}
+        </span>
+        <span className="text-slate-400 text-xs">
+          {isExpanded ? '▼' : '▶'}
+        </span>
+      </button>
+
+      {isExpanded && (
+        <div className="px-3 pb-3">
+          <div className="max-h-72 overflow-y-auto mb-2 pr-1">
+            <ChatMessageList
+              messages={messages}
+              onRetry={onRetry}
+              emptyText="Share a link or a number with the other participants"
+            />
+          </div>
+
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleSend();
+            }}
+            className="flex items-center gap-2"
+          >
+            <input
+              type="text"
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              maxLength={MAX_CHAT_MESSAGE_LENGTH}
+              placeholder="Type a message..."
+              className="flex-1 min-w-0 px-2.5 py-1.5 rounded text-xs bg-slate-700 border border-slate-600 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500/50 text-white placeholder-slate-400"
+            />
+            <button
+              type="submit"
+              disabled={!draft.trim()}
+              className="p-2 rounded bg-blue-600 hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              title="Send"
+            >
+              <Send className="w-3.5 h-3.5" />
+            </button>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+import { Loader2, WifiOff } from 'lucide-react';
+import { ConnectionStatus } from '../utils/LiveKitClient';
+
+interface ConnectionStatusBannerProps {
+  status: ConnectionStatus;
+}
+
+export default function ConnectionStatusBanner({ status }: ConnectionStatusBannerProps) {
+  if (status.status === 'connecting') {
+    return (
+      <div className="flex items-center gap-2 mb-3 sm:mb-4 px-3 py-2 rounded-lg bg-slate-800 border border-slate-700 text-xs sm:text-sm text-slate-300">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        <span>Connecting...</span>
+      </div>
+    );
+  }
+
+  if (status.status === 'reconnecting') {
+    return (
+      <div className="flex items-center gap-2 mb-3 sm:mb-4 px-3 py-2 rounded-lg bg-amber-900/40 border border-amber-700 text-xs sm:text-sm text-amber-200">
+        <WifiOff className="w-4 h-4 flex-shrink-0" />
+        <span className="flex-1">
+          Connection interrupted. Reconnecting
+          {status.attempt > 0 ? ` (attempt ${status.attempt} of ${status.maxAttempts})` : ''}...
+        </span>
+        <Loader2 className="w-4 h-4 animate-spin flex-shrink-0" />
+      </div>
+    );
+  }
+
+  return null;
+}
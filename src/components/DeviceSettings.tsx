@@ -0,0 +1,95 @@
+import { useState } from 'react';
+import { Settings, Mic, Video as VideoIcon, Volume2, X } from 'lucide-react';
+import { DeviceKind, DeviceLists, DevicePreferences } from '../utils/DeviceManager';
+
+interface DeviceSettingsProps {
+  devices: DeviceLists;
+  preferences: DevicePreferences;
+  supportsOutputSelection: boolean;
+  onSelectDevice: (kind: DeviceKind, deviceId: string) => void;
+}
+
+const DEVICE_ROWS: { kind: DeviceKind; label: string; Icon: typeof Mic }[] = [
+  { kind: 'audioinput', label: 'Microphone', Icon: Mic },
+  { kind: 'videoinput', label: 'Camera', Icon: VideoIcon },
+  { kind: 'audiooutput', label: 'Speaker', Icon: Volume2 },
+];
+
+export default function DeviceSettings({
+  devices,
+  preferences,
+  supportsOutputSelection,
+  onSelectDevice,
+}: DeviceSettingsProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const getDeviceLabel = (device: MediaDeviceInfo, index: number) => {
+    if (device.label) return device.label;
+    return `${device.kind === 'audioinput' ? 'Microphone' : device.kind === 'videoinput' ? 'Camera' : 'Speaker'} ${index + 1}`;
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`p-2 rounded-lg transition-colors ${
+          isOpen ? 'bg-blue-600 hover:bg-blue-700' : 'bg-slate-700 hover:bg-slate-600'
+        }`}
+        title="Audio and video devices"
+      >
+        <Settings className="w-4 h-4" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-72 sm:w-80 z-40 bg-slate-800 border border-slate-600 rounded-lg shadow-xl p-3 space-y-3">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-semibold text-slate-200">Devices</span>
+            <button
+              onClick={() => setIsOpen(false)}
+              className="p-1 rounded hover:bg-slate-700 transition-colors"
+            >
+              <X className="w-3.5 h-3.5 text-slate-400" />
+            </button>
+          </div>
+
+          {DEVICE_ROWS.map(({ kind, label, Icon }) => {
+            const list = devices[kind];
+            const isOutputUnsupported = kind === 'audiooutput' && !supportsOutputSelection;
+
+            return (
+              <div key={kind}>
+                <label className="flex items-center gap-1.5 text-xs font-medium text-slate-400 mb-1">
+                  <Icon className="w-3 h-3" />
+                  {label}
+                </label>
+                {isOutputUnsupported ? (
+                  <p className="text-[11px] text-slate-500">
+                    This browser plays audio on the system default speaker only
+                  </p>
+                ) : list.length === 0 ? (
+                  <p className="text-[11px] text-slate-500">No {label.toLowerCase()} found</p>
+                ) : (
+                  <select
+                    value={preferences[kind] || list[0].deviceId}
+                    onChange={(e) => onSelectDevice(kind, e.target.value)}
+                    className="w-full px-2.5 py-1.5 rounded text-xs bg-slate-700 border border-slate-600 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500/50 text-white"
+                  >
+                    {list.map((device, index) => (
+                      <option key={device.deviceId} value={device.deviceId}>
+                        {getDeviceLabel(device, index)}
+                      </option>
+                    ))}
+                  </select>
+                )}
+              </div>
+            );
+          })}
+
+          <p className="text-[10px] text-slate-500">
+            Changes apply immediately and are remembered for your next call.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+import { Loader2, ShieldAlert, ShieldCheck } from 'lucide-react';
+import { EncryptionState } from '../utils/LiveKitClient';
+
+interface EncryptionBannerProps {
+  state: EncryptionState;
+  verificationCode: string | null;
+}
+
+export default function EncryptionBanner({ state, verificationCode }: EncryptionBannerProps) {
+  if (state === 'pending') {
+    return (
+      <div className="flex items-center gap-2 mb-3 sm:mb-4 px-3 py-2 rounded-lg bg-slate-800 border border-slate-600 text-xs sm:text-sm text-slate-200">
+        <Loader2 className="w-4 h-4 flex-shrink-0 animate-spin" />
+        <span className="flex-1">Setting up end-to-end encryption. Your microphone and camera turn on once the other side answers.</span>
+      </div>
+    );
+  }
+
+  if (state === 'encrypted') {
+    return (
+      <div className="flex items-center gap-2 mb-3 sm:mb-4 px-3 py-2 rounded-lg bg-green-900/30 border border-green-700 text-xs sm:text-sm text-green-200">
+        <ShieldCheck className="w-4 h-4 flex-shrink-0" />
+        <span className="flex-1">
+          End-to-end encrypted. Check that the other person sees the same code:
+        </span>
+        {verificationCode && (
+          <span className="px-2 py-0.5 rounded bg-green-800/60 font-mono font-semibold tracking-wider text-white">
+            {verificationCode}
+          </span>
+        )}
+      </div>
+    );
+  }
+
+  if (state === 'refused-sip') {
+    return (
+      <div className="flex items-center gap-2 mb-3 sm:mb-4 px-3 py-2 rounded-lg bg-red-900/40 border border-red-700 text-xs sm:text-sm text-red-200">
+        <ShieldAlert className="w-4 h-4 flex-shrink-0" />
+        <span className="flex-1">
+          A phone participant joined, so this call is no longer end-to-end encrypted. Phone lines cannot decrypt the media.
+        </span>
+      </div>
+    );
+  }
+
+  return null;
+}
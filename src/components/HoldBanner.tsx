@@ -0,0 +1,37 @@
+import { Pause, Play } from 'lucide-react';
+
+interface HoldBannerProps {
+  isOnHold: boolean;
+  // Another participant has put this call on hold
+  isHeldByOthers: boolean;
+  onResume: () => void;
+}
+
+export default function HoldBanner({ isOnHold, isHeldByOthers, onResume }: HoldBannerProps) {
+  if (isOnHold) {
+    return (
+      <div className="flex items-center gap-2 mb-3 sm:mb-4 px-3 py-2 rounded-lg bg-amber-900/40 border border-amber-700 text-xs sm:text-sm text-amber-200">
+        <Pause className="w-4 h-4 flex-shrink-0" />
+        <span className="flex-1">Call on hold. The other side hears hold music.</span>
+        <button
+          onClick={onResume}
+          className="flex items-center gap-1.5 px-2.5 py-1 rounded bg-amber-700 hover:bg-amber-600 text-white transition-colors"
+        >
+          <Play className="w-3.5 h-3.5" />
+          Resume
+        </button>
+      </div>
+    );
+  }
+
+  if (isHeldByOthers) {
+    return (
+      <div className="flex items-center gap-2 mb-3 sm:mb-4 px-3 py-2 rounded-lg bg-slate-800 border border-slate-600 text-xs sm:text-sm text-slate-200">
+        <Pause className="w-4 h-4 flex-shrink-0 text-amber-400" />
+        <span className="flex-1">You are on hold. The call will continue when the other side resumes it.</span>
+      </div>
+    );
+  }
+
+  return null;
+}
@@ -0,0 +1,93 @@
+import { useEffect, useRef, useState } from 'react';
+import { Grid3x3 } from 'lucide-react';
+import { DTMF_KEYS, DtmfTonePlayer } from '../utils/Dtmf';
+
+interface InCallKeypadProps {
+  // Digits sent during the current call, oldest first
+  history: string;
+  disabled?: boolean;
+  onDigit: (digit: string) => void;
+}
+
+const KEY_LETTERS: Record<string, string> = {
+  '2': 'ABC', '3': 'DEF', '4': 'GHI', '5': 'JKL', '6': 'MNO', '7': 'PQRS', '8': 'TUV', '9': 'WXYZ', '0': '+',
+};
+
+export default function InCallKeypad({ history, disabled = false, onDigit }: InCallKeypadProps) {
+  const [isExpanded, setIsExpanded] = useState(true);
+  const tonePlayerRef = useRef<DtmfTonePlayer | null>(null);
+
+  useEffect(() => {
+    tonePlayerRef.current = new DtmfTonePlayer();
+    return () => {
+      tonePlayerRef.current?.close();
+      tonePlayerRef.current = null;
+    };
+  }, []);
+
+  const pressKey = (digit: string) => {
+    if (disabled) return;
+    tonePlayerRef.current?.play(digit);
+    onDigit(digit);
+  };
+
+  // Typing digits works too, as long as focus is not in a text field
+  useEffect(() => {
+    if (!isExpanded || disabled) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target?.closest('input, textarea, select, [contenteditable="true"]')) return;
+      if (e.repeat || e.ctrlKey || e.metaKey || e.altKey) return;
+      if (DTMF_KEYS.includes(e.key)) {
+        e.preventDefault();
+        pressKey(e.key);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  return (
+    <div className="bg-slate-800/50 rounded-lg border border-slate-700 overflow-hidden">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full px-3 py-2.5 flex items-center justify-between hover:bg-slate-700/50 transition-colors"
+      >
+        <span className="font-semibold text-sm text-slate-200 flex items-center gap-2">
+          <Grid3x3 className="w-4 h-4" />
+          Keypad
+        </span>
+        <span className="text-slate-400 text-xs">
+          {isExpanded ? '▼' : '▶'}
+        </span>
+      </button>
+
+      {isExpanded && (
+        <div className="px-3 pb-3 space-y-2">
+          <div
+            className="h-8 px-2.5 flex items-center justify-end rounded bg-slate-900 font-mono text-sm tracking-widest text-white overflow-hidden"
+            title="Digits sent in this call"
+          >
+            {history ? history.slice(-24) : <span className="text-xs tracking-normal text-slate-500">Tones you send appear here</span>}
+          </div>
+
+          <div className="grid grid-cols-3 gap-1.5">
+            {DTMF_KEYS.map(digit => (
+              <button
+                key={digit}
+                onClick={() => pressKey(digit)}
+                disabled={disabled}
+                className="py-2 rounded-lg bg-slate-700 hover:bg-slate-600 active:scale-95 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex flex-col items-center leading-tight"
+              >
+                <span className="text-base font-semibold text-white">{digit}</span>
+                <span className="text-[9px] text-slate-400 h-3">{KEY_LETTERS[digit] ?? ''}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
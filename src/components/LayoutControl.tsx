@@ -0,0 +1,42 @@
+import { LayoutGrid, LayoutPanelTop, PinOff } from 'lucide-react';
+import { VideoLayoutMode } from '../utils/VideoLayout';
+
+interface LayoutControlProps {
+  layout: VideoLayoutMode;
+  isPinned: boolean;
+  onChange: (layout: VideoLayoutMode) => void;
+  onUnpin: () => void;
+}
+
+export default function LayoutControl({ layout, isPinned, onChange, onUnpin }: LayoutControlProps) {
+  return (
+    <div className="flex items-center gap-2">
+      {isPinned && (
+        <button
+          onClick={onUnpin}
+          className="flex items-center gap-1.5 px-3 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 transition-colors text-xs sm:text-sm"
+          title="Stop spotlighting this participant"
+        >
+          <PinOff className="w-4 h-4" />
+          <span className="hidden sm:inline">Unpin</span>
+        </button>
+      )}
+      <div className="flex items-center rounded-lg bg-slate-700 p-0.5">
+        <button
+          onClick={() => onChange('gallery')}
+          className={`p-1.5 rounded-md transition-colors ${layout === 'gallery' && !isPinned ? 'bg-slate-500' : 'hover:bg-slate-600'}`}
+          title="Gallery view"
+        >
+          <LayoutGrid className="w-4 h-4" />
+        </button>
+        <button
+          onClick={() => onChange('speaker')}
+          className={`p-1.5 rounded-md transition-colors ${layout === 'speaker' && !isPinned ? 'bg-slate-500' : 'hover:bg-slate-600'}`}
+          title="Speaker view"
+        >
+          <LayoutPanelTop className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+import { ConnectionQuality } from 'livekit-client';
+import { ParticipantNetworkStats } from '../utils/CallQualityMonitor';
+
+interface NetworkIndicatorProps {
+  stats?: ParticipantNetworkStats;
+}
+
+const QUALITY_STYLES: Record<ConnectionQuality, { bars: number; color: string; label: string }> = {
+  [ConnectionQuality.Excellent]: { bars: 4, color: 'bg-green-400', label: 'Excellent' },
+  [ConnectionQuality.Good]: { bars: 3, color: 'bg-green-400', label: 'Good' },
+  [ConnectionQuality.Poor]: { bars: 2, color: 'bg-amber-400', label: 'Poor' },
+  [ConnectionQuality.Lost]: { bars: 1, color: 'bg-red-500', label: 'Connection lost' },
+  [ConnectionQuality.Unknown]: { bars: 0, color: 'bg-slate-500', label: 'Measuring...' },
+};
+
+export default function NetworkIndicator({ stats }: NetworkIndicatorProps) {
+  const style = QUALITY_STYLES[stats?.quality || ConnectionQuality.Unknown];
+
+  const details = stats
+    ? [
+        style.label,
+        stats.rttMs !== null ? `RTT ${stats.rttMs} ms` : null,
+        stats.jitterMs !== null ? `Jitter ${stats.jitterMs} ms` : null,
+        stats.packetLossPct !== null ? `Loss ${stats.packetLossPct}%` : null,
+        stats.bitrateKbps !== null ? `${stats.bitrateKbps} kbps` : null,
+        stats.codecs.length > 0 ? stats.codecs.join(', ') : null,
+      ].filter(Boolean).join(' · ')
+    : style.label;
+
+  return (
+    <div className="flex items-end gap-0.5 h-3" title={details}>
+      {[1, 2, 3, 4].map((bar) => (
+        <div
+          key={bar}
+          className={`w-0.5 rounded-sm ${bar <= style.bars ? style.color : 'bg-slate-600'}`}
+          style={{ height: `${bar * 25}%` }}
+        />
+      ))}
+    </div>
+  );
+}
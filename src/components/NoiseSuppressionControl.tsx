@@ -0,0 +1,105 @@
+import { useState } from 'react';
+import { AudioLines, X } from 'lucide-react';
+import { NoiseSuppressionSettings } from '../utils/LiveKitClient';
+import { NoiseSuppressionStats } from '../utils/NoiseSuppressionProcessor';
+
+interface NoiseSuppressionControlProps {
+  settings: NoiseSuppressionSettings;
+  stats: NoiseSuppressionStats | null;
+  isSupported: boolean;
+  onChange: (settings: NoiseSuppressionSettings) => void;
+}
+
+// Above this share of the render budget the audio thread risks glitching
+const HIGH_LOAD_PCT = 25;
+
+export default function NoiseSuppressionControl({ settings, stats, isSupported, onChange }: NoiseSuppressionControlProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const formatMs = (value: number | null) => (value === null ? '–' : `${value.toFixed(3)} ms`);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`p-2 rounded-lg transition-colors ${
+          settings.enabled ? 'bg-blue-600 hover:bg-blue-700' : 'bg-slate-700 hover:bg-slate-600'
+        }`}
+        title={settings.enabled ? 'Noise suppression on' : 'Noise suppression off'}
+      >
+        <AudioLines className="w-4 h-4" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-64 z-40 bg-slate-800 border border-slate-600 rounded-lg shadow-xl p-3 space-y-3">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-semibold text-slate-200">Noise suppression</span>
+            <button
+              onClick={() => setIsOpen(false)}
+              className="p-1 rounded hover:bg-slate-700 transition-colors"
+            >
+              <X className="w-3.5 h-3.5 text-slate-400" />
+            </button>
+          </div>
+
+          {!isSupported ? (
+            <p className="text-[11px] text-slate-500">This browser does not support audio worklets</p>
+          ) : (
+            <>
+              <label className="flex items-center justify-between text-xs text-slate-300">
+                Reduce background noise
+                <input
+                  type="checkbox"
+                  checked={settings.enabled}
+                  onChange={(e) => onChange({ ...settings, enabled: e.target.checked })}
+                  className="rounded border-slate-600 bg-slate-700"
+                />
+              </label>
+
+              <div>
+                <label className="flex items-center justify-between text-xs font-medium text-slate-400 mb-1">
+                  Strength
+                  <span className="text-slate-300">{Math.round(settings.strength * 100)}%</span>
+                </label>
+                <input
+                  type="range"
+                  min={0}
+                  max={100}
+                  value={Math.round(settings.strength * 100)}
+                  disabled={!settings.enabled}
+                  onChange={(e) => onChange({ ...settings, strength: Number(e.target.value) / 100 })}
+                  className="w-full accent-blue-500 disabled:opacity-50"
+                />
+              </div>
+
+              {settings.enabled && stats && (
+                <div className="text-[11px] text-slate-400 space-y-0.5 border-t border-slate-700 pt-2">
+                  <div className="flex justify-between">
+                    <span>Frame cost (avg / max)</span>
+                    <span className="font-mono">{formatMs(stats.avgFrameMs)} / {formatMs(stats.maxFrameMs)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>Frame budget</span>
+                    <span className="font-mono">{stats.frameBudgetMs.toFixed(2)} ms</span>
+                  </div>
+                  {stats.loadPct !== null && (
+                    <div className="flex justify-between">
+                      <span>Audio thread load</span>
+                      <span className={`font-mono ${stats.loadPct > HIGH_LOAD_PCT ? 'text-amber-400' : 'text-green-400'}`}>
+                        {stats.loadPct.toFixed(1)}%
+                      </span>
+                    </div>
+                  )}
+                  <div className="flex justify-between">
+                    <span>Noise reduced by</span>
+                    <span className="font-mono">{Math.abs(stats.maxReductionDb).toFixed(0)} dB</span>
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,9 @@
-import { Mic, MicOff, Video as VideoIcon, VideoOff, User, UserX, Crown } from 'lucide-react';
+import { Mic, MicOff, Video as VideoIcon, VideoOff, User, UserX, Crown, Volume2, VolumeX, Hand } from 'lucide-react';
 import { RemoteParticipant, LocalParticipant } from 'livekit-client';
 import { UserProfile, getDisplayName } from '../utils/ProfileService';
+import { ParticipantNetworkStats } from '../utils/CallQualityMonitor';
+import { ParticipantPlayback } from '../utils/AudioOutputRouter';
+import NetworkIndicator from './NetworkIndicator';
 
 interface ParticipantTileProps {
   participant: RemoteParticipant | LocalParticipant;
@@ -13,6 +16,13 @@ interface ParticipantTileProps {
   onMuteParticipant?: (participantId: string, muted: boolean) => void;
   onToggleParticipantVideo?: (participantId: string, enabled: boolean) => void;
   userProfiles?: Map<string, UserProfile>;
+  networkStats?: ParticipantNetworkStats;
+  playback?: ParticipantPlayback;
+  onPlaybackChange?: (participantId: string, playback: ParticipantPlayback) => void;
+  // Place in the queue of raised hands, starting at 1; undefined while the hand is down
+  handPosition?: number;
+  reaction?: string;
+  onLowerHand?: (participantId: string) => void;
 }
 
 export default function ParticipantTile({
@@ -25,7 +35,13 @@ export default function ParticipantTile({
   onKickParticipant,
   onMuteParticipant,
   onToggleParticipantVideo,
-  userProfiles = new Map()
+  userProfiles = new Map(),
+  networkStats,
+  playback = { volume: 1, muted: false },
+  onPlaybackChange,
+  handPosition,
+  reaction,
+  onLowerHand
 }: ParticipantTileProps) {
   const hasAudio = participant.isMicrophoneEnabled;
   const hasVideo = participant.isCameraEnabled;
@@ -52,7 +68,13 @@ export default function ParticipantTile({
 
   const handleVideoToggle = () => {
     if (onToggleParticipantVideo && !isLocal) {
-      onToggleParticipantVideo(identity, hasVideo);
+      onToggleParticipantVideo(identity, !hasVideo);
+    }
+  };
+
+  const handleLowerHand = () => {
+    if (onLowerHand && !isLocal) {
+      onLowerHand(identity);
     }
   };
 
@@ -74,12 +96,18 @@ export default function ParticipantTile({
 
   return (
     <div
-      className={`p-3 rounded-lg border transition-all ${
+      className={`relative p-3 rounded-lg border transition-all ${
         isSpeaking
           ? 'bg-slate-700/70 border-green-500 shadow-lg shadow-green-500/20'
           : 'bg-slate-800/50 border-slate-700'
       }`}
     >
+      {reaction && (
+        <span className="absolute -top-2 right-2 text-2xl animate-bounce pointer-events-none">
+          {reaction}
+        </span>
+      )}
+
       <div className="flex items-center gap-3">
         <div className={`w-10 h-10 rounded-full flex items-center justify-center ${
           isSpeaking ? 'bg-green-600' : 'bg-slate-600'
@@ -105,6 +133,29 @@ export default function ParticipantTile({
                 PSTN
               </span>
             )}
+            {handPosition !== undefined && (
+              isCurrentUserAdmin && !isLocal ? (
+                <button
+                  onClick={handleLowerHand}
+                  className="flex items-center gap-0.5 px-1.5 py-0.5 text-[10px] bg-amber-500 hover:bg-amber-600 text-slate-900 rounded flex-shrink-0 transition-colors"
+                  title="Lower hand"
+                >
+                  <Hand className="w-3 h-3" />
+                  {handPosition}
+                </button>
+              ) : (
+                <span
+                  className="flex items-center gap-0.5 px-1.5 py-0.5 text-[10px] bg-amber-500 text-slate-900 rounded flex-shrink-0"
+                  title="Hand raised"
+                >
+                  <Hand className="w-3 h-3" />
+                  {handPosition}
+                </span>
+              )
+            )}
+            <div className="ml-auto flex-shrink-0">
+              <NetworkIndicator stats={networkStats} />
+            </div>
           </div>
 
           <div className="flex items-center gap-2 mt-1">
@@ -168,6 +219,32 @@ export default function ParticipantTile({
               </div>
             )}
           </div>
+
+          {!isLocal && onPlaybackChange && (
+            <div className="flex items-center gap-2 mt-1.5">
+              <button
+                onClick={() => onPlaybackChange(identity, { ...playback, muted: !playback.muted })}
+                className="p-1 rounded hover:bg-slate-600 transition-colors"
+                title={playback.muted ? 'Unmute for me' : 'Mute for me'}
+              >
+                {playback.muted ? (
+                  <VolumeX className="w-3 h-3 text-red-400" />
+                ) : (
+                  <Volume2 className="w-3 h-3 text-slate-300" />
+                )}
+              </button>
+              <input
+                type="range"
+                min={0}
+                max={100}
+                value={Math.round(playback.volume * 100)}
+                disabled={playback.muted}
+                onChange={(e) => onPlaybackChange(identity, { ...playback, volume: Number(e.target.value) / 100 })}
+                className="flex-1 h-1 accent-blue-500 disabled:opacity-50"
+                title={`Volume ${Math.round(playback.volume * 100)}%`}
+              />
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -1,33 +1,72 @@
 import { useEffect, useState } from 'react';
-import { Users } from 'lucide-react';
-import { RemoteParticipant, LocalParticipant, Room, RoomEvent } from 'livekit-client';
+import { Phone, User, Users } from 'lucide-react';
+import { RemoteParticipant, LocalParticipant, ParticipantKind, Room, RoomEvent } from 'livekit-client';
 import ParticipantTile from './ParticipantTile';
-import { fetchUserProfiles, UserProfile } from '../utils/ProfileService';
+import { fetchUserProfiles, getDisplayName, UserProfile } from '../utils/ProfileService';
+import { ParticipantNetworkStats } from '../utils/CallQualityMonitor';
+import { ParticipantPlayback } from '../utils/AudioOutputRouter';
+import { CallInvitation } from '../utils/supabase';
+import { getInvitationState, getSipDialState, InviteeState } from '../utils/SessionInvitations';
 
 interface ParticipantsPanelProps {
   room: Room | null;
   audioLevels: Map<string, number>;
   activeSpeakers: Set<string>;
+  networkStats?: Map<string, ParticipantNetworkStats>;
   adminUserId?: string;
   currentUserId?: string;
   onKickParticipant?: (participantId: string) => void;
   onMuteParticipant?: (participantId: string, muted: boolean) => void;
   onToggleParticipantVideo?: (participantId: string, enabled: boolean) => void;
+  playback?: Map<string, ParticipantPlayback>;
+  onPlaybackChange?: (participantId: string, playback: ParticipantPlayback) => void;
+  // Invitations into this call, from SessionInvitationTracker
+  invitations?: CallInvitation[];
+  // Identity to when the hand went up, oldest first
+  raisedHands?: Map<string, number>;
+  reactions?: Map<string, string>;
+  onLowerHand?: (participantId: string) => void;
 }
 
+interface Invitee {
+  key: string;
+  name: string;
+  kind: 'user' | 'phone';
+  state: InviteeState;
+}
+
+const INVITEE_STATE_STYLES: Record<InviteeState, { label: string; className: string }> = {
+  invited: { label: 'Invited', className: 'bg-slate-600 text-slate-200' },
+  ringing: { label: 'Ringing', className: 'bg-blue-600/40 text-blue-200 animate-pulse' },
+  joined: { label: 'Joined', className: 'bg-green-600/30 text-green-300' },
+  declined: { label: 'Declined', className: 'bg-red-600/30 text-red-300' },
+};
+
+const isPhoneParticipant = (participant: RemoteParticipant | LocalParticipant) =>
+  participant.kind === ParticipantKind.SIP || participant.identity.startsWith('sip-');
+
 export default function ParticipantsPanel({
   room,
   audioLevels,
   activeSpeakers,
+  networkStats,
   adminUserId,
   currentUserId,
   onKickParticipant,
   onMuteParticipant,
-  onToggleParticipantVideo
+  onToggleParticipantVideo,
+  playback,
+  onPlaybackChange,
+  invitations = [],
+  raisedHands = new Map(),
+  reactions = new Map(),
+  onLowerHand
 }: ParticipantsPanelProps) {
   const [participants, setParticipants] = useState<(RemoteParticipant | LocalParticipant)[]>([]);
   const [isExpanded, setIsExpanded] = useState(true);
   const [userProfiles, setUserProfiles] = useState<Map<string, UserProfile>>(new Map());
+  // Phone numbers that hung up or never answered, which are no longer in the room to ask
+  const [declinedPhones, setDeclinedPhones] = useState<Map<string, string>>(new Map());
 
   useEffect(() => {
     if (!room) {
@@ -41,10 +80,19 @@ export default function ParticipantsPanel({
       setParticipants([localParticipant, ...remoteParticipants]);
     };
 
+    const handleDisconnected = (participant: RemoteParticipant) => {
+      if (isPhoneParticipant(participant) && getSipDialState(participant) !== 'joined') {
+        setDeclinedPhones(previous => new Map(previous).set(participant.identity, participant.name || participant.identity));
+      }
+      updateParticipants();
+    };
+
     updateParticipants();
+    setDeclinedPhones(new Map());
 
     room.on(RoomEvent.ParticipantConnected, updateParticipants);
-    room.on(RoomEvent.ParticipantDisconnected, updateParticipants);
+    room.on(RoomEvent.ParticipantDisconnected, handleDisconnected);
+    room.on(RoomEvent.ParticipantAttributesChanged, updateParticipants);
     room.on(RoomEvent.TrackPublished, updateParticipants);
     room.on(RoomEvent.TrackUnpublished, updateParticipants);
     room.on(RoomEvent.TrackMuted, updateParticipants);
@@ -52,7 +100,8 @@ export default function ParticipantsPanel({
 
     return () => {
       room.off(RoomEvent.ParticipantConnected, updateParticipants);
-      room.off(RoomEvent.ParticipantDisconnected, updateParticipants);
+      room.off(RoomEvent.ParticipantDisconnected, handleDisconnected);
+      room.off(RoomEvent.ParticipantAttributesChanged, updateParticipants);
       room.off(RoomEvent.TrackPublished, updateParticipants);
       room.off(RoomEvent.TrackUnpublished, updateParticipants);
       room.off(RoomEvent.TrackMuted, updateParticipants);
@@ -61,12 +110,11 @@ export default function ParticipantsPanel({
   }, [room]);
 
   useEffect(() => {
-    if (participants.length === 0) {
+    if (participants.length === 0 && invitations.length === 0) {
       return;
     }
 
-    const userIds = participants
-      .map(p => p.identity)
+    const userIds = [...participants.map(p => p.identity), ...invitations.map(invitation => invitation.callee_user_id)]
       .filter(id => !id.startsWith('sip-'));
 
     if (userIds.length === 0) {
@@ -76,12 +124,44 @@ export default function ParticipantsPanel({
     fetchUserProfiles(userIds).then(profiles => {
       setUserProfiles(profiles);
     });
-  }, [participants]);
+  }, [participants, invitations]);
 
   if (!room) {
     return null;
   }
 
+  const joinedIdentities = new Set(participants.map(p => p.identity));
+  // Raised hands come first, in the order they went up
+  const handQueue = Array.from(raisedHands.keys());
+  const handPosition = (identity: string) => {
+    const index = handQueue.indexOf(identity);
+    return index >= 0 ? index + 1 : undefined;
+  };
+  const orderedParticipants = [...participants].sort((a, b) =>
+    (handPosition(a.identity) ?? Number.MAX_SAFE_INTEGER) - (handPosition(b.identity) ?? Number.MAX_SAFE_INTEGER)
+  );
+  // Someone can be invited more than once; their latest invitation is the one that counts
+  const latestInvitations = new Map<string, CallInvitation>();
+  invitations.forEach(invitation => latestInvitations.set(invitation.callee_user_id, invitation));
+
+  const invitees: Invitee[] = [
+    ...Array.from(latestInvitations.values()).flatMap(invitation => {
+      const state = getInvitationState(invitation, joinedIdentities);
+      return state
+        ? [{ key: invitation.id, name: getDisplayName(invitation.callee_user_id, userProfiles), kind: 'user' as const, state }]
+        : [];
+    }),
+    ...participants.filter(isPhoneParticipant).map(participant => ({
+      key: participant.identity,
+      name: participant.name || participant.identity,
+      kind: 'phone' as const,
+      state: getSipDialState(participant),
+    })),
+    ...Array.from(declinedPhones.entries())
+      .filter(([identity]) => !joinedIdentities.has(identity))
+      .map(([identity, name]) => ({ key: identity, name, kind: 'phone' as const, state: 'declined' as const })),
+  ];
+
   return (
     <div className="bg-slate-800/50 rounded-lg border border-slate-700 overflow-hidden">
       <button
@@ -99,12 +179,28 @@ export default function ParticipantsPanel({
 
       {isExpanded && (
         <div className="px-3 pb-3 space-y-2 max-h-96 overflow-y-auto">
+          {invitees.length > 0 && (
+            <div className="space-y-1 pb-2 border-b border-slate-700">
+              <p className="text-[10px] uppercase tracking-wide text-slate-500">Invited</p>
+              {invitees.map(invitee => (
+                <div key={invitee.key} className="flex items-center gap-2 text-xs">
+                  {invitee.kind === 'phone'
+                    ? <Phone className="w-3.5 h-3.5 text-slate-400 flex-shrink-0" />
+                    : <User className="w-3.5 h-3.5 text-slate-400 flex-shrink-0" />}
+                  <span className="flex-1 truncate text-slate-200">{invitee.name}</span>
+                  <span className={`px-1.5 py-0.5 rounded text-[10px] ${INVITEE_STATE_STYLES[invitee.state].className}`}>
+                    {INVITEE_STATE_STYLES[invitee.state].label}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
           {participants.length === 0 ? (
             <div className="text-center py-4 text-slate-400 text-xs">
               No participants yet
             </div>
           ) : (
-            participants.map((participant) => {
+            orderedParticipants.map((participant) => {
               const isLocal = participant === room.localParticipant;
               const isSpeaking = activeSpeakers.has(participant.identity);
               const audioLevel = audioLevels.get(participant.identity) || 0;
@@ -124,6 +220,12 @@ export default function ParticipantsPanel({
                   onMuteParticipant={onMuteParticipant}
                   onToggleParticipantVideo={onToggleParticipantVideo}
                   userProfiles={userProfiles}
+                  networkStats={networkStats?.get(participant.identity)}
+                  playback={playback?.get(participant.identity)}
+                  onPlaybackChange={onPlaybackChange}
+                  handPosition={handPosition(participant.identity)}
+                  reaction={reactions.get(participant.identity)}
+                  onLowerHand={onLowerHand}
                 />
               );
             })
@@ -0,0 +1,248 @@
+import { useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { Mic, MicOff, PhoneOff, PictureInPicture2, Video as VideoIcon, VideoOff } from 'lucide-react';
+import { LocalParticipant, RemoteParticipant, RemoteVideoTrack, LocalVideoTrack, RoomEvent, Track } from 'livekit-client';
+import VideoTile from './VideoTile';
+import { LiveKitClient } from '../utils/LiveKitClient';
+import { CallPictureInPicture } from '../utils/PictureInPicture';
+import { isMediaWorker } from '../utils/MediaWorkerDetector';
+import { fetchUserProfiles, UserProfile } from '../utils/ProfileService';
+
+interface PictureInPictureControlProps {
+  client: LiveKitClient | null;
+  // The remote participant to show, from useActiveSpeakers
+  speakerIdentity: string | null;
+  autoEnter: boolean;
+  onAutoEnterChange: (enabled: boolean) => void;
+  onHangUp: () => void;
+}
+
+// Room changes that alter who is shown or the state of our own buttons
+const ROOM_UPDATE_EVENTS = [
+  RoomEvent.ParticipantConnected,
+  RoomEvent.ParticipantDisconnected,
+  RoomEvent.TrackSubscribed,
+  RoomEvent.TrackUnsubscribed,
+  RoomEvent.TrackMuted,
+  RoomEvent.TrackUnmuted,
+  RoomEvent.LocalTrackPublished,
+  RoomEvent.LocalTrackUnpublished,
+] as const;
+
+export default function PictureInPictureControl({
+  client,
+  speakerIdentity,
+  autoEnter,
+  onAutoEnterChange,
+  onHangUp,
+}: PictureInPictureControlProps) {
+  const pipRef = useRef<CallPictureInPicture | null>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  // Set when the window was opened because the tab was hidden, so it closes again on return
+  const autoOpenedRef = useRef(false);
+  const [container, setContainer] = useState<HTMLElement | null>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [userProfiles, setUserProfiles] = useState<Map<string, UserProfile>>(new Map());
+  const [, setRoomVersion] = useState(0);
+  const supportedMode = CallPictureInPicture.getSupportedMode();
+  const room = client?.getRoom() ?? null;
+
+  useEffect(() => {
+    const pip = new CallPictureInPicture();
+    pip.on('closed', () => {
+      setContainer(null);
+      setIsOpen(false);
+      autoOpenedRef.current = false;
+    });
+    pipRef.current = pip;
+
+    return () => {
+      pip.destroy();
+      pipRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!room) {
+      void pipRef.current?.close();
+      return;
+    }
+
+    const update = () => setRoomVersion(version => version + 1);
+    ROOM_UPDATE_EVENTS.forEach(event => room.on(event, update));
+    return () => {
+      ROOM_UPDATE_EVENTS.forEach(event => room.off(event, update));
+    };
+  }, [room]);
+
+  const remotes = room ? Array.from(room.remoteParticipants.values()).filter(p => !isMediaWorker(p)) : [];
+  const remoteSpeaker = remotes.find(p => p.identity === speakerIdentity) || (remotes.length > 0 ? remotes[0] : null);
+  const speaker: RemoteParticipant | LocalParticipant | null = remoteSpeaker || room?.localParticipant || null;
+  const isLocalSpeaker = speaker !== null && remoteSpeaker === null;
+  const isMuted = !room?.localParticipant.isMicrophoneEnabled;
+  const isCameraOn = !!room?.localParticipant.isCameraEnabled;
+  const speakerTrack = speaker?.getTrackPublication(Track.Source.Camera)?.track as
+    | RemoteVideoTrack
+    | LocalVideoTrack
+    | undefined;
+
+  const remoteSpeakerIdentity = remoteSpeaker?.identity ?? null;
+
+  useEffect(() => {
+    if (!remoteSpeakerIdentity) return;
+    fetchUserProfiles([remoteSpeakerIdentity]).then(setUserProfiles);
+  }, [remoteSpeakerIdentity]);
+
+  // Video-element PiP shows whatever is attached to the hidden element, so follow the speaker
+  useEffect(() => {
+    const element = videoRef.current;
+    if (!element || !speakerTrack) return;
+
+    speakerTrack.attach(element);
+    return () => {
+      speakerTrack.detach(element);
+    };
+  }, [speakerTrack]);
+
+  useEffect(() => {
+    pipRef.current?.setMediaState(!isMuted, isCameraOn);
+  });
+
+  const handleToggleMute = () => {
+    client?.toggleMute().catch(error => console.error('Failed to toggle microphone:', error));
+  };
+
+  const handleToggleCamera = () => {
+    client?.toggleVideo().catch(error => console.error('Failed to toggle camera:', error));
+  };
+
+  const handleHangUp = () => {
+    void pipRef.current?.close();
+    onHangUp();
+  };
+
+  const open = async () => {
+    const pip = pipRef.current;
+    if (!pip || pip.getMode() || !room) return;
+
+    if (supportedMode === 'document') {
+      setContainer(await pip.openDocument());
+    } else if (videoRef.current) {
+      await pip.openVideo(videoRef.current, {
+        onToggleMute: handleToggleMute,
+        onToggleCamera: handleToggleCamera,
+        onHangUp: handleHangUp,
+      });
+    }
+    setIsOpen(pip.getMode() !== null);
+  };
+  const openRef = useRef(open);
+  openRef.current = open;
+
+  const handleToggle = async () => {
+    if (isOpen) {
+      await pipRef.current?.close();
+      return;
+    }
+
+    try {
+      await openRef.current();
+    } catch (error) {
+      console.error('Failed to open picture-in-picture:', error);
+      alert(supportedMode === 'video' && !speakerTrack
+        ? 'Picture-in-picture needs a camera to show in this browser'
+        : 'Could not open picture-in-picture');
+    }
+  };
+
+  // Browsers only allow opening without a click through the media session handler, so the
+  // visibilitychange attempt is a best effort for those that relax the rule
+  useEffect(() => {
+    const pip = pipRef.current;
+    if (!autoEnter || !room || !pip) return;
+
+    const enter = () => {
+      if (pip.getMode()) return;
+      openRef.current()
+        .then(() => { autoOpenedRef.current = pip.getMode() !== null; })
+        .catch(error => console.warn('Could not open picture-in-picture automatically:', error));
+    };
+
+    const handleVisibilityChange = () => {
+      if (document.hidden) {
+        enter();
+      } else if (autoOpenedRef.current) {
+        void pip.close();
+      }
+    };
+
+    pip.setAutoEnterHandler(enter);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      pip.setAutoEnterHandler(null);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [autoEnter, room]);
+
+  if (!supportedMode) {
+    return null;
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <label className="hidden sm:flex items-center gap-1 text-xs text-slate-400" title="Open picture-in-picture when you switch tabs">
+        <input
+          type="checkbox"
+          checked={autoEnter}
+          onChange={(e) => onAutoEnterChange(e.target.checked)}
+          className="rounded border-slate-600 bg-slate-700"
+        />
+        Auto
+      </label>
+      <button
+        onClick={handleToggle}
+        disabled={!room}
+        className={`p-2 rounded-lg transition-colors disabled:opacity-50 ${
+          isOpen ? 'bg-blue-600 hover:bg-blue-700' : 'bg-slate-700 hover:bg-slate-600'
+        }`}
+        title={isOpen ? 'Close picture-in-picture' : 'Open picture-in-picture'}
+      >
+        <PictureInPicture2 className="w-4 h-4" />
+      </button>
+
+      {supportedMode === 'video' && (
+        <video ref={videoRef} autoPlay playsInline muted className="absolute w-px h-px opacity-0 pointer-events-none" />
+      )}
+
+      {container && speaker && createPortal(
+        <div className="p-2 space-y-2">
+          <VideoTile participant={speaker} isLocal={isLocalSpeaker} userProfiles={userProfiles} />
+          <div className="flex items-center justify-center gap-2">
+            <button
+              onClick={handleToggleMute}
+              className={`p-2.5 rounded-full transition-colors ${isMuted ? 'bg-red-600 hover:bg-red-700' : 'bg-slate-700 hover:bg-slate-600'}`}
+              title={isMuted ? 'Unmute' : 'Mute'}
+            >
+              {isMuted ? <MicOff className="w-4 h-4" /> : <Mic className="w-4 h-4" />}
+            </button>
+            <button
+              onClick={handleToggleCamera}
+              className={`p-2.5 rounded-full transition-colors ${isCameraOn ? 'bg-slate-700 hover:bg-slate-600' : 'bg-red-600 hover:bg-red-700'}`}
+              title={isCameraOn ? 'Turn camera off' : 'Turn camera on'}
+            >
+              {isCameraOn ? <VideoIcon className="w-4 h-4" /> : <VideoOff className="w-4 h-4" />}
+            </button>
+            <button
+              onClick={handleHangUp}
+              className="p-2.5 rounded-full bg-red-600 hover:bg-red-700 transition-colors"
+              title="Hang up"
+            >
+              <PhoneOff className="w-4 h-4" />
+            </button>
+          </div>
+        </div>,
+        container
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,260 @@
+import { ReactNode, useEffect, useRef, useState } from 'react';
+import { X, Mic, Video as VideoIcon, Volume2, Wifi, CheckCircle, AlertTriangle, XCircle, Loader2, Play, RefreshCw } from 'lucide-react';
+import { DeviceKind, DeviceLists, DevicePreferences } from '../utils/DeviceManager';
+import { TokenManager } from '../utils/TokenManager';
+import {
+  NetworkCheckDetails,
+  PreCallCheck,
+  PreCallCheckName,
+  PreCallCheckResult,
+  PreCallCheckStatus,
+} from '../utils/PreCallCheck';
+
+interface PreCallCheckModalProps {
+  title: string;
+  continueLabel: string;
+  identity: string;
+  tokenManager: TokenManager | null;
+  devices: DeviceLists;
+  preferences: DevicePreferences;
+  supportsOutputSelection: boolean;
+  onSelectDevice: (kind: DeviceKind, deviceId: string) => void;
+  onContinue: (skipNextTime: boolean) => void;
+  onCancel: () => void;
+}
+
+const STATUS_ICONS: Record<PreCallCheckStatus, ReactNode> = {
+  idle: <span className="w-4 h-4 rounded-full border border-slate-500" />,
+  running: <Loader2 className="w-4 h-4 text-blue-400 animate-spin" />,
+  pass: <CheckCircle className="w-4 h-4 text-green-400" />,
+  warn: <AlertTriangle className="w-4 h-4 text-amber-400" />,
+  fail: <XCircle className="w-4 h-4 text-red-400" />,
+};
+
+export default function PreCallCheckModal({
+  title,
+  continueLabel,
+  identity,
+  tokenManager,
+  devices,
+  preferences,
+  supportsOutputSelection,
+  onSelectDevice,
+  onContinue,
+  onCancel,
+}: PreCallCheckModalProps) {
+  const [check] = useState(() => new PreCallCheck(tokenManager, identity));
+  const [results, setResults] = useState(() => check.getResults());
+  const [micLevel, setMicLevel] = useState(0);
+  const [networkDetails, setNetworkDetails] = useState<NetworkCheckDetails | null>(null);
+  const [skipNextTime, setSkipNextTime] = useState(false);
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    check.on('result-changed', (name: PreCallCheckName, result: PreCallCheckResult) => {
+      setResults(previous => ({ ...previous, [name]: result }));
+    });
+    check.on('mic-level', setMicLevel);
+    check.on('network-details', setNetworkDetails);
+    void check.runNetworkTest(import.meta.env.VITE_LIVEKIT_URL);
+
+    return () => check.stop();
+  }, [check]);
+
+  useEffect(() => {
+    void check.startMicrophone(preferences.audioinput);
+  }, [check, preferences.audioinput]);
+
+  useEffect(() => {
+    check.startCamera(preferences.videoinput).then(stream => {
+      if (videoRef.current) {
+        videoRef.current.srcObject = stream;
+      }
+    });
+  }, [check, preferences.videoinput]);
+
+  const releaseDevicesAndContinue = () => {
+    // The call opens the same devices, and some browsers refuse a second capture of a camera
+    check.stopMicrophone();
+    check.stopCamera();
+    onContinue(skipNextTime);
+  };
+
+  const renderDeviceSelect = (kind: DeviceKind) => {
+    const list = devices[kind];
+    if (kind === 'audiooutput' && !supportsOutputSelection) {
+      return <p className="text-[11px] text-slate-500">Plays on the system default speaker</p>;
+    }
+    if (list.length === 0) {
+      return <p className="text-[11px] text-slate-500">No device found</p>;
+    }
+
+    return (
+      <select
+        value={preferences[kind] || list[0].deviceId}
+        onChange={(e) => onSelectDevice(kind, e.target.value)}
+        className="w-full px-2.5 py-1.5 rounded text-xs bg-slate-700 border border-slate-600 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500/50 text-white"
+      >
+        {list.map((device, index) => (
+          <option key={device.deviceId} value={device.deviceId}>
+            {device.label || `Device ${index + 1}`}
+          </option>
+        ))}
+      </select>
+    );
+  };
+
+  const renderResult = (name: PreCallCheckName) => (
+    <div className="flex items-start gap-2 text-xs">
+      <span className="flex-shrink-0 mt-px">{STATUS_ICONS[results[name].status]}</span>
+      <span className={results[name].status === 'fail' ? 'text-red-300' : 'text-slate-300'}>
+        {results[name].message}
+      </span>
+    </div>
+  );
+
+  const hasFailure = Object.values(results).some(result => result.status === 'fail');
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-slate-800 rounded-lg max-w-2xl w-full p-6 shadow-xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-xl font-bold text-white">{title}</h2>
+          <button
+            onClick={onCancel}
+            className="p-1 hover:bg-slate-700 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5 text-slate-400" />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <div className="aspect-video bg-slate-900 rounded-lg overflow-hidden flex items-center justify-center">
+              {results.camera.status === 'fail' && <VideoIcon className="w-8 h-8 text-slate-600" />}
+              <video
+                ref={videoRef}
+                autoPlay
+                playsInline
+                muted
+                className={`w-full h-full object-cover scale-x-[-1] ${results.camera.status === 'fail' ? 'hidden' : ''}`}
+              />
+            </div>
+            <label className="flex items-center gap-1.5 text-xs font-medium text-slate-400">
+              <VideoIcon className="w-3 h-3" />
+              Camera
+            </label>
+            {renderDeviceSelect('videoinput')}
+            {renderResult('camera')}
+          </div>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <label className="flex items-center gap-1.5 text-xs font-medium text-slate-400">
+                <Mic className="w-3 h-3" />
+                Microphone
+              </label>
+              {renderDeviceSelect('audioinput')}
+              <div className="h-2 rounded-full bg-slate-700 overflow-hidden">
+                <div
+                  className="h-full bg-green-500 transition-all duration-75"
+                  style={{ width: `${Math.round(micLevel * 100)}%` }}
+                />
+              </div>
+              {renderResult('microphone')}
+            </div>
+
+            <div className="space-y-2">
+              <label className="flex items-center gap-1.5 text-xs font-medium text-slate-400">
+                <Volume2 className="w-3 h-3" />
+                Speaker
+              </label>
+              {renderDeviceSelect('audiooutput')}
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => check.playTestTone(preferences.audiooutput)}
+                  className="flex items-center gap-1.5 px-2.5 py-1.5 rounded text-xs bg-slate-700 hover:bg-slate-600 transition-colors"
+                >
+                  <Play className="w-3.5 h-3.5" />
+                  Play test tone
+                </button>
+                {results.speaker.needsConfirmation && (
+                  <>
+                    <button
+                      onClick={() => check.confirmSpeaker(true)}
+                      className="px-2.5 py-1.5 rounded text-xs bg-green-700 hover:bg-green-600 transition-colors"
+                    >
+                      Yes
+                    </button>
+                    <button
+                      onClick={() => check.confirmSpeaker(false)}
+                      className="px-2.5 py-1.5 rounded text-xs bg-slate-700 hover:bg-slate-600 transition-colors"
+                    >
+                      No
+                    </button>
+                  </>
+                )}
+              </div>
+              {renderResult('speaker')}
+            </div>
+
+            <div className="space-y-2">
+              <label className="flex items-center justify-between text-xs font-medium text-slate-400">
+                <span className="flex items-center gap-1.5">
+                  <Wifi className="w-3 h-3" />
+                  Connection
+                </span>
+                <button
+                  onClick={() => check.runNetworkTest(import.meta.env.VITE_LIVEKIT_URL)}
+                  disabled={results.network.status === 'running'}
+                  className="p-1 rounded hover:bg-slate-700 transition-colors disabled:opacity-50"
+                  title="Test again"
+                >
+                  <RefreshCw className="w-3 h-3" />
+                </button>
+              </label>
+              {renderResult('network')}
+              {networkDetails && (
+                <p className="text-[11px] text-slate-500">
+                  Joined the test room in {networkDetails.connectMs} ms
+                </p>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {hasFailure && (
+          <div className="mt-4 bg-red-500 bg-opacity-10 border border-red-500 rounded-lg p-3">
+            <p className="text-sm text-red-400">Some checks failed. You can still continue, but the call may not work well.</p>
+          </div>
+        )}
+
+        <div className="flex items-center justify-between gap-3 mt-6">
+          <label className="flex items-center gap-2 text-xs text-slate-400">
+            <input
+              type="checkbox"
+              checked={skipNextTime}
+              onChange={(e) => setSkipNextTime(e.target.checked)}
+              className="rounded border-slate-600 bg-slate-700"
+            />
+            Don't check before every call
+          </label>
+          <div className="flex gap-3">
+            <button
+              onClick={onCancel}
+              className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={releaseDevicesAndContinue}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors"
+            >
+              {continueLabel}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
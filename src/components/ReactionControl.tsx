@@ -0,0 +1,54 @@
+import { useState } from 'react';
+import { Hand, SmilePlus } from 'lucide-react';
+
+const REACTION_EMOJIS = ['👍', '👏', '😂', '❤️', '🎉', '😮'];
+
+interface ReactionControlProps {
+  isHandRaised: boolean;
+  onToggleHand: () => void;
+  onReact: (emoji: string) => void;
+}
+
+export default function ReactionControl({ isHandRaised, onToggleHand, onReact }: ReactionControlProps) {
+  const [isPickerOpen, setIsPickerOpen] = useState(false);
+
+  return (
+    <div className="relative flex items-center gap-2">
+      <button
+        onClick={onToggleHand}
+        className={`flex items-center gap-1.5 px-3 py-2 rounded-lg transition-colors text-xs sm:text-sm ${
+          isHandRaised ? 'bg-amber-500 hover:bg-amber-600 text-slate-900' : 'bg-slate-700 hover:bg-slate-600'
+        }`}
+        title={isHandRaised ? 'Lower your hand' : 'Raise your hand'}
+      >
+        <Hand className="w-4 h-4" />
+        <span className="hidden sm:inline">{isHandRaised ? 'Lower' : 'Raise'}</span>
+      </button>
+
+      <button
+        onClick={() => setIsPickerOpen(!isPickerOpen)}
+        className={`p-2 rounded-lg transition-colors ${isPickerOpen ? 'bg-slate-600' : 'bg-slate-700 hover:bg-slate-600'}`}
+        title="Send a reaction"
+      >
+        <SmilePlus className="w-4 h-4" />
+      </button>
+
+      {isPickerOpen && (
+        <div className="absolute right-0 top-full mt-2 z-20 flex gap-1 p-1.5 bg-slate-800 border border-slate-700 rounded-lg shadow-xl">
+          {REACTION_EMOJIS.map(emoji => (
+            <button
+              key={emoji}
+              onClick={() => {
+                onReact(emoji);
+                setIsPickerOpen(false);
+              }}
+              className="w-8 h-8 flex items-center justify-center text-lg rounded hover:bg-slate-700 transition-colors"
+            >
+              {emoji}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
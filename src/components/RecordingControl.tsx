@@ -0,0 +1,80 @@
+import { useEffect, useState } from 'react';
+import { Circle, Square } from 'lucide-react';
+
+interface RecordingControlProps {
+  isRecording: boolean;
+  recordingStartedAt: number | null;
+  includeVideo: boolean;
+  canIncludeVideo: boolean;
+  remoteRecorderCount: number;
+  onIncludeVideoChange: (includeVideo: boolean) => void;
+  onStart: () => void;
+  onStop: () => void;
+}
+
+export default function RecordingControl({
+  isRecording,
+  recordingStartedAt,
+  includeVideo,
+  canIncludeVideo,
+  remoteRecorderCount,
+  onIncludeVideoChange,
+  onStart,
+  onStop,
+}: RecordingControlProps) {
+  const [elapsed, setElapsed] = useState(0);
+
+  useEffect(() => {
+    if (!isRecording || !recordingStartedAt) {
+      setElapsed(0);
+      return;
+    }
+
+    const update = () => setElapsed(Math.floor((Date.now() - recordingStartedAt) / 1000));
+    update();
+    const timer = setInterval(update, 1000);
+    return () => clearInterval(timer);
+  }, [isRecording, recordingStartedAt]);
+
+  const formatElapsed = () => {
+    const minutes = Math.floor(elapsed / 60);
+    return `${minutes}:${String(elapsed % 60).padStart(2, '0')}`;
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      {(isRecording || remoteRecorderCount > 0) && (
+        <span
+          className="flex items-center gap-1.5 px-2 py-1 text-[10px] sm:text-xs font-semibold bg-red-600/20 border border-red-600 text-red-400 rounded"
+          title={remoteRecorderCount > 0 ? 'Another participant is recording this call' : 'You are recording this call'}
+        >
+          <span className="w-2 h-2 rounded-full bg-red-500 animate-pulse" />
+          REC{isRecording ? ` ${formatElapsed()}` : ''}
+        </span>
+      )}
+
+      {!isRecording && canIncludeVideo && (
+        <label className="hidden sm:flex items-center gap-1 text-xs text-slate-400" title="Record the active video as well">
+          <input
+            type="checkbox"
+            checked={includeVideo}
+            onChange={(e) => onIncludeVideoChange(e.target.checked)}
+            className="rounded border-slate-600 bg-slate-700"
+          />
+          Video
+        </label>
+      )}
+
+      <button
+        onClick={isRecording ? onStop : onStart}
+        className={`flex items-center gap-1.5 px-3 py-2 rounded-lg transition-colors text-xs sm:text-sm ${
+          isRecording ? 'bg-red-600 hover:bg-red-700' : 'bg-slate-700 hover:bg-slate-600'
+        }`}
+        title={isRecording ? 'Stop recording' : 'Record this call on your device'}
+      >
+        {isRecording ? <Square className="w-4 h-4" /> : <Circle className="w-4 h-4 text-red-400" />}
+        <span className="hidden sm:inline">{isRecording ? 'Stop' : 'Record'}</span>
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+import { useState } from 'react';
+import { X, Download, UploadCloud, Film, Mic } from 'lucide-react';
+import { CallRecording } from '../utils/CallRecorder';
+import { RecordingHistoryLink, downloadRecording, uploadRecording } from '../utils/RecordingStorage';
+
+interface RecordingSaveModalProps {
+  recording: CallRecording;
+  currentUserId: string;
+  historyLink: RecordingHistoryLink | null;
+  onClose: () => void;
+}
+
+function formatDuration(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export default function RecordingSaveModal({ recording, currentUserId, historyLink, onClose }: RecordingSaveModalProps) {
+  const [isUploading, setIsUploading] = useState(false);
+  const [isUploaded, setIsUploaded] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleUpload = async () => {
+    try {
+      setIsUploading(true);
+      setError('');
+      await uploadRecording(recording, currentUserId, historyLink);
+      setIsUploaded(true);
+    } catch (err) {
+      console.error('Failed to upload recording:', err);
+      setError('Failed to upload recording. You can still download it.');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (!isUploaded && !confirm('Discard this recording? It has not been saved.')) {
+      return;
+    }
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-slate-800 rounded-lg max-w-md w-full p-6 shadow-xl">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-xl font-bold text-white">Save Recording</h2>
+          <button
+            onClick={handleClose}
+            className="p-1 hover:bg-slate-700 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5 text-slate-400" />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <div className="flex items-center gap-3 p-3 bg-slate-700/50 rounded-lg">
+            {recording.includesVideo ? (
+              <Film className="w-5 h-5 text-blue-400" />
+            ) : (
+              <Mic className="w-5 h-5 text-blue-400" />
+            )}
+            <div className="text-sm">
+              <p className="text-white">{recording.includesVideo ? 'Audio and video' : 'Audio only'}</p>
+              <p className="text-slate-400">
+                {formatDuration(recording.durationSeconds)} · {formatSize(recording.blob.size)}
+              </p>
+            </div>
+          </div>
+
+          {!historyLink && (
+            <p className="text-xs text-slate-400">
+              This recording is not linked to a call history entry and will be stored on its own.
+            </p>
+          )}
+
+          {isUploaded && (
+            <div className="bg-green-500 bg-opacity-10 border border-green-500 rounded-lg p-3">
+              <p className="text-sm text-green-400">Recording saved to your call history.</p>
+            </div>
+          )}
+
+          {error && (
+            <div className="bg-red-500 bg-opacity-10 border border-red-500 rounded-lg p-3">
+              <p className="text-sm text-red-400">{error}</p>
+            </div>
+          )}
+
+          <div className="flex space-x-3 pt-2">
+            <button
+              onClick={() => downloadRecording(recording)}
+              className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg transition-colors"
+            >
+              <Download className="w-4 h-4" />
+              Download
+            </button>
+            <button
+              onClick={isUploaded ? onClose : handleUpload}
+              disabled={isUploading}
+              className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <UploadCloud className="w-4 h-4" />
+              {isUploaded ? 'Done' : isUploading ? 'Uploading...' : 'Upload'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+import { useEffect, useRef } from 'react';
+import { MonitorUp } from 'lucide-react';
+import { RemoteParticipant, LocalParticipant, LocalVideoTrack, RemoteVideoTrack, Track } from 'livekit-client';
+import { UserProfile, getDisplayName } from '../utils/ProfileService';
+
+interface ScreenShareTileProps {
+  participant: RemoteParticipant | LocalParticipant;
+  isLocal?: boolean;
+  userProfiles?: Map<string, UserProfile>;
+}
+
+export default function ScreenShareTile({
+  participant,
+  isLocal = false,
+  userProfiles = new Map()
+}: ScreenShareTileProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const videoTrack = participant.getTrackPublication(Track.Source.ScreenShare)?.track as
+    | RemoteVideoTrack
+    | LocalVideoTrack
+    | undefined;
+  const presenterName = isLocal ? 'You are' : `${getDisplayName(participant.identity, userProfiles)} is`;
+
+  useEffect(() => {
+    const element = videoRef.current;
+    if (!element || !videoTrack) return;
+
+    videoTrack.attach(element);
+
+    return () => {
+      videoTrack.detach(element);
+    };
+  }, [participant, videoTrack]);
+
+  return (
+    <div className="relative aspect-video bg-black rounded-lg overflow-hidden border-2 border-blue-500">
+      {videoTrack && (
+        <video
+          ref={videoRef}
+          autoPlay
+          playsInline
+          muted
+          className="w-full h-full object-contain"
+        />
+      )}
+
+      <div className="absolute top-0 left-0 p-2 sm:p-3">
+        <span className="flex items-center gap-1.5 px-2 py-1 text-[10px] sm:text-xs font-medium bg-blue-600/90 text-white rounded">
+          <MonitorUp className="w-3 h-3 sm:w-3.5 sm:h-3.5" />
+          {presenterName} presenting
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+import { useEffect, useRef, useState } from 'react';
+import { FileText } from 'lucide-react';
+import { TranscriptSegment } from '../utils/TranscriptService';
+import TranscriptSegmentList from './TranscriptSegmentList';
+
+interface TranscriptPanelProps {
+  segments: TranscriptSegment[];
+}
+
+// Pixels from the bottom within which the list keeps following new segments
+const FOLLOW_THRESHOLD_PX = 40;
+
+export default function TranscriptPanel({ segments }: TranscriptPanelProps) {
+  const [isExpanded, setIsExpanded] = useState(true);
+  const [isFollowing, setIsFollowing] = useState(true);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  const lastSegment = segments[segments.length - 1];
+
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (element && isFollowing) {
+      element.scrollTop = element.scrollHeight;
+    }
+  }, [segments.length, lastSegment?.text, isFollowing, isExpanded]);
+
+  const handleScroll = () => {
+    const element = scrollRef.current;
+    if (!element) return;
+    setIsFollowing(element.scrollHeight - element.scrollTop - element.clientHeight < FOLLOW_THRESHOLD_PX);
+  };
+
+  return (
+    <div className="bg-slate-800/50 rounded-lg border border-slate-700 overflow-hidden">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full px-3 py-2.5 flex items-center justify-between hover:bg-slate-700/50 transition-colors"
+      >
+        <span className="font-semibold text-sm text-slate-200 flex items-center gap-2">
+          <FileText className="w-4 h-4" />
+          Transcript
+          {lastSegment && !lastSegment.isFinal && (
+            <span className="w-1.5 h-1.5 rounded-full bg-red-500 animate-pulse" title="Live" />
+          )}
+        </span>
+        <span className="text-slate-400 text-xs">
+          {isExpanded ? '▼' : '▶'}
+        </span>
+      </button>
+
+      {isExpanded && (
+        <div className="px-3 pb-3 relative">
+          <div ref={scrollRef} onScroll={handleScroll} className="max-h-72 overflow-y-auto pr-1">
+            <TranscriptSegmentList segments={segments} emptyText="Waiting for someone to speak..." />
+          </div>
+          {!isFollowing && (
+            <button
+              onClick={() => setIsFollowing(true)}
+              className="absolute bottom-4 right-4 px-2 py-1 text-[10px] bg-blue-600 hover:bg-blue-700 rounded-full shadow transition-colors"
+            >
+              Jump to latest
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+import { useEffect, useState } from 'react';
+import { TranscriptSegment } from '../utils/TranscriptService';
+import { fetchUserProfiles, getDisplayName, UserProfile } from '../utils/ProfileService';
+
+interface TranscriptSegmentListProps {
+  segments: TranscriptSegment[];
+  emptyText?: string;
+  highlight?: string;
+}
+
+function renderText(text: string, highlight?: string) {
+  const terms = (highlight || '').split(/\s+/).filter(Boolean).map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  if (terms.length === 0) return text;
+
+  return text.split(new RegExp(`(${terms.join('|')})`, 'gi')).map((part, index) =>
+    index % 2 === 1 ? <mark key={index} className="bg-amber-400/40 text-inherit rounded-sm">{part}</mark> : part
+  );
+}
+
+export default function TranscriptSegmentList({ segments, emptyText = 'No transcript', highlight }: TranscriptSegmentListProps) {
+  const [userProfiles, setUserProfiles] = useState<Map<string, UserProfile>>(new Map());
+
+  useEffect(() => {
+    const speakerIds = Array.from(new Set(
+      segments
+        .filter(segment => !segment.speakerName && segment.speakerIdentity)
+        .map(segment => segment.speakerIdentity!)
+    )).filter(id => !id.startsWith('sip-'));
+
+    if (speakerIds.length === 0) {
+      return;
+    }
+
+    fetchUserProfiles(speakerIds).then(profiles => {
+      setUserProfiles(profiles);
+    });
+  }, [segments]);
+
+  const getSpeakerName = (segment: TranscriptSegment) => {
+    if (segment.speakerName) return segment.speakerName;
+    if (segment.speakerIdentity) return getDisplayName(segment.speakerIdentity, userProfiles);
+    return 'Unknown speaker';
+  };
+
+  if (segments.length === 0) {
+    return (
+      <div className="text-center py-4 text-slate-400 text-xs">
+        {emptyText}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-1.5">
+      {segments.map((segment) => (
+        <div key={segment.id} className="text-xs">
+          <div className="flex items-baseline gap-1.5">
+            <span className="font-medium text-blue-300 truncate">{getSpeakerName(segment)}</span>
+            <span className="text-[10px] text-slate-500 flex-shrink-0">
+              {new Date(segment.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })}
+            </span>
+          </div>
+          <p className={`break-words ${segment.isFinal ? 'text-slate-200' : 'text-slate-400 italic'}`}>
+            {renderText(segment.text, highlight)}
+          </p>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+import { Loader2, PhoneForwarded, X } from 'lucide-react';
+import { TransferProgress } from '../utils/CallTransfer';
+
+interface TransferBannerProps {
+  progress: TransferProgress | null;
+  onComplete: () => void;
+  onCancel: () => void;
+}
+
+export default function TransferBanner({ progress, onComplete, onCancel }: TransferBannerProps) {
+  if (!progress) return null;
+
+  const { phase, targetName, isConsultAnswered } = progress;
+  const message = phase === 'consulting'
+    ? (isConsultAnswered ? `Talking to ${targetName}. The caller is on hold.` : `Calling ${targetName}...`)
+    : phase === 'waiting'
+      ? `Waiting for ${targetName} to answer. The caller is on hold.`
+      : `Transferring to ${targetName}...`;
+
+  return (
+    <div className="flex items-center gap-2 mb-3 sm:mb-4 px-3 py-2 rounded-lg bg-blue-900/40 border border-blue-700 text-xs sm:text-sm text-blue-100">
+      {phase === 'transferring' ? (
+        <Loader2 className="w-4 h-4 flex-shrink-0 animate-spin" />
+      ) : (
+        <PhoneForwarded className="w-4 h-4 flex-shrink-0" />
+      )}
+      <span className="flex-1">{message}</span>
+      {phase === 'consulting' && (
+        <button
+          onClick={onComplete}
+          disabled={!isConsultAnswered}
+          className="flex items-center gap-1.5 px-2.5 py-1 rounded bg-blue-600 hover:bg-blue-500 text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <PhoneForwarded className="w-3.5 h-3.5" />
+          Complete transfer
+        </button>
+      )}
+      {phase !== 'transferring' && (
+        <button
+          onClick={onCancel}
+          className="flex items-center gap-1.5 px-2.5 py-1 rounded bg-slate-700 hover:bg-slate-600 text-white transition-colors"
+          title="Cancel the transfer and return to the caller"
+        >
+          <X className="w-3.5 h-3.5" />
+          Back to caller
+        </button>
+      )}
+    </div>
+  );
+}
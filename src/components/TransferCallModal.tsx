@@ -0,0 +1,180 @@
+import { useEffect, useState } from 'react';
+import { X, Phone, User, PhoneForwarded, Users } from 'lucide-react';
+import { getAllUsers, getPhoneContacts, PhoneContact, UserProfile } from '../utils/supabase';
+import { TransferTarget } from '../utils/DialService';
+import { TransferMode } from '../utils/CallTransfer';
+
+interface TransferCallModalProps {
+  currentUserId: string;
+  callerName: string;
+  onTransfer: (target: TransferTarget, targetName: string, mode: TransferMode) => void;
+  onClose: () => void;
+}
+
+const E164_REGEX = /^\+[1-9]\d{1,14}$/;
+
+export default function TransferCallModal({ currentUserId, callerName, onTransfer, onClose }: TransferCallModalProps) {
+  const [activeTab, setActiveTab] = useState<'phone' | 'web'>('phone');
+  const [phoneContacts, setPhoneContacts] = useState<PhoneContact[]>([]);
+  const [webUsers, setWebUsers] = useState<UserProfile[]>([]);
+  const [phoneNumber, setPhoneNumber] = useState('');
+  const [phoneName, setPhoneName] = useState('');
+  const [selectedUser, setSelectedUser] = useState<UserProfile | null>(null);
+  const [consultFirst, setConsultFirst] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    Promise.all([getPhoneContacts(currentUserId), getAllUsers()])
+      .then(([contacts, users]) => {
+        setPhoneContacts(contacts);
+        setWebUsers(users.filter(u => u.user_id !== currentUserId));
+      })
+      .catch(loadError => console.error('Failed to load transfer targets:', loadError));
+  }, [currentUserId]);
+
+  const selectPhoneContact = (contact: PhoneContact) => {
+    setPhoneNumber(contact.phone_number);
+    setPhoneName(contact.contact_name);
+    setError('');
+  };
+
+  const handleTransfer = () => {
+    if (activeTab === 'phone') {
+      const number = phoneNumber.replace(/[\s\-()]/g, '');
+      if (!E164_REGEX.test(number)) {
+        setError('Please enter the number in E.164 format (e.g., +1234567890)');
+        return;
+      }
+      onTransfer({ type: 'phone', phoneNumber: number }, phoneName.trim() || number, consultFirst ? 'attended' : 'blind');
+      return;
+    }
+
+    if (!selectedUser) {
+      setError('Choose who to transfer the call to');
+      return;
+    }
+    onTransfer({ type: 'user', userId: selectedUser.user_id }, selectedUser.display_name, 'blind');
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-slate-800 rounded-lg max-w-md w-full p-6 shadow-xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-bold text-white flex items-center gap-2">
+            <PhoneForwarded className="w-5 h-5" />
+            Transfer {callerName}
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-1 hover:bg-slate-700 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5 text-slate-400" />
+          </button>
+        </div>
+
+        <div className="flex gap-2 mb-4">
+          <button
+            onClick={() => { setActiveTab('phone'); setError(''); }}
+            className={`flex-1 flex items-center justify-center gap-1.5 py-2 rounded-lg text-sm transition-colors ${
+              activeTab === 'phone' ? 'bg-blue-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+            }`}
+          >
+            <Phone className="w-4 h-4" />
+            Phone number
+          </button>
+          <button
+            onClick={() => { setActiveTab('web'); setError(''); }}
+            className={`flex-1 flex items-center justify-center gap-1.5 py-2 rounded-lg text-sm transition-colors ${
+              activeTab === 'web' ? 'bg-blue-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+            }`}
+          >
+            <Users className="w-4 h-4" />
+            Web user
+          </button>
+        </div>
+
+        {activeTab === 'phone' ? (
+          <div className="space-y-3">
+            <input
+              type="tel"
+              value={phoneNumber}
+              onChange={(e) => { setPhoneNumber(e.target.value); setPhoneName(''); setError(''); }}
+              placeholder="+1234567890"
+              className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white font-mono placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            {phoneContacts.length > 0 && (
+              <div className="max-h-40 overflow-y-auto space-y-1">
+                {phoneContacts.map(contact => (
+                  <button
+                    key={contact.id}
+                    onClick={() => selectPhoneContact(contact)}
+                    className={`w-full text-left px-3 py-2 rounded text-xs transition-colors ${
+                      contact.phone_number === phoneNumber ? 'bg-blue-900/40 border border-blue-500/50' : 'bg-slate-700/50 hover:bg-slate-700'
+                    }`}
+                  >
+                    <span className="text-white">{contact.contact_name}</span>
+                    <span className="ml-2 text-slate-400 font-mono">{contact.phone_number}</span>
+                  </button>
+                ))}
+              </div>
+            )}
+            <label className="flex items-center gap-2 text-xs text-slate-300">
+              <input
+                type="checkbox"
+                checked={consultFirst}
+                onChange={(e) => setConsultFirst(e.target.checked)}
+                className="rounded border-slate-600 bg-slate-700"
+              />
+              Talk to them first (attended transfer)
+            </label>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <div className="max-h-56 overflow-y-auto space-y-1">
+              {webUsers.length === 0 ? (
+                <p className="text-center py-4 text-xs text-slate-400">No other users</p>
+              ) : (
+                webUsers.map(user => (
+                  <button
+                    key={user.user_id}
+                    onClick={() => { setSelectedUser(user); setError(''); }}
+                    className={`w-full flex items-center gap-2 text-left px-3 py-2 rounded text-xs transition-colors ${
+                      selectedUser?.user_id === user.user_id ? 'bg-blue-900/40 border border-blue-500/50' : 'bg-slate-700/50 hover:bg-slate-700'
+                    }`}
+                  >
+                    <User className="w-3.5 h-3.5 text-slate-400" />
+                    <span className="text-white">{user.display_name}</span>
+                  </button>
+                ))
+              )}
+            </div>
+            <p className="text-[11px] text-slate-500">
+              The caller stays on hold until they answer, then you leave the call.
+            </p>
+          </div>
+        )}
+
+        {error && (
+          <div className="mt-4 bg-red-500 bg-opacity-10 border border-red-500 rounded-lg p-3">
+            <p className="text-sm text-red-400">{error}</p>
+          </div>
+        )}
+
+        <div className="flex gap-3 mt-6">
+          <button
+            onClick={onClose}
+            className="flex-1 px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleTransfer}
+            className="flex-1 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors"
+          >
+            {activeTab === 'phone' && consultFirst ? 'Call first' : 'Transfer'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
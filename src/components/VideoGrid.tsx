@@ -1,15 +1,34 @@
 import { useEffect, useState } from 'react';
-import { RemoteParticipant, LocalParticipant, Room, RoomEvent } from 'livekit-client';
+import { RemoteParticipant, LocalParticipant, Room, RoomEvent, Track } from 'livekit-client';
 import VideoTile from './VideoTile';
+import ScreenShareTile from './ScreenShareTile';
 import { fetchUserProfiles, UserProfile } from '../utils/ProfileService';
 import { filterHumanParticipants } from '../utils/MediaWorkerDetector';
+import { VideoLayoutMode } from '../utils/VideoLayout';
 
 interface VideoGridProps {
   room: Room | null;
   activeSpeakers: Set<string>;
+  // Identity to when the hand went up, oldest first
+  raisedHands?: Map<string, number>;
+  reactions?: Map<string, string>;
+  layout?: VideoLayoutMode;
+  // A pinned participant is spotlighted whatever the layout
+  pinnedIdentity?: string | null;
+  lastSpeaker?: string | null;
+  onTogglePin?: (participantId: string) => void;
 }
 
-export default function VideoGrid({ room, activeSpeakers }: VideoGridProps) {
+export default function VideoGrid({
+  room,
+  activeSpeakers,
+  raisedHands = new Map(),
+  reactions = new Map(),
+  layout = 'gallery',
+  pinnedIdentity = null,
+  lastSpeaker = null,
+  onTogglePin
+}: VideoGridProps) {
   const [participants, setParticipants] = useState<(RemoteParticipant | LocalParticipant)[]>([]);
   const [userProfiles, setUserProfiles] = useState<Map<string, UserProfile>>(new Map());
 
@@ -87,22 +106,73 @@ export default function VideoGrid({ room, activeSpeakers }: VideoGridProps) {
     return 'grid-cols-2 md:grid-cols-3 lg:grid-cols-4';
   };
 
+  const handQueue = Array.from(raisedHands.keys());
+
+  const renderTile = (participant: RemoteParticipant | LocalParticipant) => {
+    const handIndex = handQueue.indexOf(participant.identity);
+    return (
+      <VideoTile
+        key={participant.identity}
+        participant={participant}
+        isLocal={participant === room.localParticipant}
+        isSpeaking={activeSpeakers.has(participant.identity)}
+        userProfiles={userProfiles}
+        handPosition={handIndex >= 0 ? handIndex + 1 : undefined}
+        reaction={reactions.get(participant.identity)}
+        isPinned={participant.identity === pinnedIdentity}
+        onTogglePin={participants.length > 1 ? onTogglePin : undefined}
+      />
+    );
+  };
+
+  const filmstrip = (stripParticipants: (RemoteParticipant | LocalParticipant)[]) => (
+    <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-2 sm:gap-3">
+      {stripParticipants.map(renderTile)}
+    </div>
+  );
+
+  const pinned = participants.find(p => p.identity === pinnedIdentity);
+  if (pinned) {
+    return (
+      <div className="space-y-2 sm:space-y-3">
+        {renderTile(pinned)}
+        {filmstrip(participants.filter(p => p !== pinned))}
+      </div>
+    );
+  }
+
+  // Remote shares are preferred so a presenter keeps seeing whoever else is sharing
+  const presenters = participants.filter(p => p.getTrackPublication(Track.Source.ScreenShare)?.track);
+  const presenter = presenters.find(p => p !== room.localParticipant) || presenters[0];
+
+  if (presenter) {
+    return (
+      <div className="space-y-2 sm:space-y-3">
+        <ScreenShareTile
+          participant={presenter}
+          isLocal={presenter === room.localParticipant}
+          userProfiles={userProfiles}
+        />
+        {filmstrip(participants)}
+      </div>
+    );
+  }
+
+  // Speaker view falls back to the first remote participant until someone has spoken
+  if (layout === 'speaker' && participants.length > 1) {
+    const remotes = participants.filter(p => p !== room.localParticipant);
+    const speaker = remotes.find(p => p.identity === lastSpeaker) || remotes[0];
+    return (
+      <div className="space-y-2 sm:space-y-3">
+        {renderTile(speaker)}
+        {filmstrip(participants.filter(p => p !== speaker))}
+      </div>
+    );
+  }
+
   return (
     <div className={`grid ${getGridClass()} gap-2 sm:gap-3 md:gap-4 auto-rows-fr`}>
-      {participants.map((participant) => {
-        const isLocal = participant === room.localParticipant;
-        const isSpeaking = activeSpeakers.has(participant.identity);
-
-        return (
-          <VideoTile
-            key={participant.identity}
-            participant={participant}
-            isLocal={isLocal}
-            isSpeaking={isSpeaking}
-            userProfiles={userProfiles}
-          />
-        );
-      })}
+      {participants.map(renderTile)}
     </div>
   );
 }
@@ -1,5 +1,5 @@
 import { useEffect, useRef } from 'react';
-import { Mic, MicOff, Video as VideoIcon, VideoOff, User } from 'lucide-react';
+import { Mic, MicOff, Video as VideoIcon, VideoOff, User, MonitorUp, Hand, Pin, PinOff } from 'lucide-react';
 import { RemoteParticipant, LocalParticipant, RemoteVideoTrack, LocalVideoTrack, Track } from 'livekit-client';
 import { UserProfile, getDisplayName } from '../utils/ProfileService';
 
@@ -8,16 +8,26 @@ interface VideoTileProps {
   isLocal?: boolean;
   isSpeaking?: boolean;
   userProfiles?: Map<string, UserProfile>;
+  // Place in the queue of raised hands, starting at 1; undefined while the hand is down
+  handPosition?: number;
+  reaction?: string;
+  isPinned?: boolean;
+  onTogglePin?: (participantId: string) => void;
 }
 
 export default function VideoTile({
   participant,
   isLocal = false,
   isSpeaking = false,
-  userProfiles = new Map()
+  userProfiles = new Map(),
+  handPosition,
+  reaction,
+  isPinned = false,
+  onTogglePin
 }: VideoTileProps) {
   const videoRef = useRef<HTMLVideoElement>(null);
   const hasAudio = participant.isMicrophoneEnabled;
+  const isPresenting = participant.isScreenShareEnabled;
   const identity = participant.identity;
   const isSip = identity.startsWith('sip-');
 
@@ -61,7 +71,7 @@ export default function VideoTile({
 
   return (
     <div
-      className={`relative aspect-video bg-slate-900 rounded-lg overflow-hidden border-2 transition-all ${
+      className={`group relative aspect-video bg-slate-900 rounded-lg overflow-hidden border-2 transition-all ${
         isSpeaking
           ? 'border-green-500 shadow-lg shadow-green-500/30'
           : 'border-slate-700'
@@ -88,6 +98,22 @@ export default function VideoTile({
         </div>
       )}
 
+      {handPosition !== undefined && (
+        <div
+          className="absolute top-2 left-2 flex items-center gap-1 px-2 py-1 rounded-lg bg-amber-500 text-slate-900 text-xs font-semibold shadow-lg"
+          title="Hand raised"
+        >
+          <Hand className="w-4 h-4" />
+          {handPosition}
+        </div>
+      )}
+
+      {reaction && (
+        <div className="absolute top-2 right-2 text-4xl animate-bounce pointer-events-none">
+          {reaction}
+        </div>
+      )}
+
       <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/70 to-transparent p-3">
         <div className="flex items-center justify-between">
           <div className="flex items-center gap-2">
@@ -107,6 +133,24 @@ export default function VideoTile({
           </div>
 
           <div className="flex items-center gap-2">
+            {onTogglePin && (
+              <button
+                onClick={() => onTogglePin(identity)}
+                className={`p-1 rounded transition-all ${
+                  isPinned ? 'bg-blue-600' : 'bg-slate-700/70 opacity-0 group-hover:opacity-100 hover:bg-slate-600'
+                }`}
+                title={isPinned ? 'Unpin' : 'Pin to spotlight'}
+              >
+                {isPinned ? <PinOff className="w-3 h-3 text-white" /> : <Pin className="w-3 h-3 text-white" />}
+              </button>
+            )}
+
+            {isPresenting && (
+              <div className="p-1 rounded bg-blue-600" title="Presenting">
+                <MonitorUp className="w-3 h-3 text-white" />
+              </div>
+            )}
+
             {hasAudio ? (
               <div className={`p-1 rounded ${isSpeaking ? 'bg-green-600' : 'bg-slate-700/70'}`}>
                 <Mic className="w-3 h-3 text-white" />
@@ -0,0 +1,49 @@
+import { useEffect, useState } from 'react';
+import { Activity } from 'lucide-react';
+import { VoiceSocketStats, WebSocketClient } from '../utils/WebSocketClient';
+
+interface VoiceDiagnosticsProps {
+  client: WebSocketClient;
+}
+
+const REFRESH_INTERVAL_MS = 1000;
+
+export default function VoiceDiagnostics({ client }: VoiceDiagnosticsProps) {
+  const [stats, setStats] = useState<VoiceSocketStats>(() => client.getStats());
+
+  useEffect(() => {
+    setStats(client.getStats());
+    const interval = setInterval(() => setStats(client.getStats()), REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [client]);
+
+  const playback = stats.playback;
+  const rows: [string, string, boolean][] = [
+    ['Round trip', stats.roundTripMs !== null ? `${stats.roundTripMs} ms` : '—', false],
+    ['Audio sent', String(stats.audioSent), false],
+    ['Audio dropped', String(stats.audioDropped), stats.audioDropped > 0],
+    ['Buffer depth', playback ? `${playback.depthMs} / ${playback.targetMs} ms` : '—', false],
+    ['Added latency', playback ? `${playback.addedLatencyMs} ms` : '—', false],
+    ['Underruns', playback ? String(playback.underruns) : '—', !!playback && playback.underruns > 0],
+    ['Late frames', playback ? String(playback.lateFrames) : '—', !!playback && playback.lateFrames > 0],
+    ['Concealed', playback ? String(playback.concealedFrames) : '—', false],
+    ['Trimmed', playback ? String(playback.droppedFrames) : '—', false],
+  ];
+
+  return (
+    <div className="bg-slate-800 rounded-lg p-3 sm:p-4">
+      <div className="flex items-center gap-2 mb-2 text-sm font-semibold">
+        <Activity className="w-4 h-4 text-blue-400" />
+        Voice connection
+      </div>
+      <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs">
+        {rows.map(([label, value, isWarning]) => (
+          <div key={label} className="contents">
+            <dt className="text-slate-400">{label}</dt>
+            <dd className={`text-right tabular-nums ${isWarning ? 'text-amber-400' : 'text-slate-200'}`}>{value}</dd>
+          </div>
+        ))}
+      </dl>
+    </div>
+  );
+}
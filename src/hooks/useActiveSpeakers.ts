@@ -0,0 +1,45 @@
+import { useEffect, useState } from 'react';
+import { LiveKitClient } from '../utils/LiveKitClient';
+import { useLiveKitEvent } from './useLiveKitEvent';
+
+export interface ActiveSpeakerState {
+  activeSpeakers: Set<string>;
+  // Identity to audio level (0-1); participants who are not speaking are left out
+  audioLevels: Map<string, number>;
+  // The remote participant who spoke most recently. It stays set through silences so speaker
+  // view does not jump around between sentences.
+  lastSpeaker: string | null;
+}
+
+const EMPTY_STATE: ActiveSpeakerState = { activeSpeakers: new Set(), audioLevels: new Map(), lastSpeaker: null };
+
+export function useActiveSpeakers(client: LiveKitClient | null): ActiveSpeakerState {
+  const [state, setState] = useState<ActiveSpeakerState>(EMPTY_STATE);
+
+  useEffect(() => {
+    setState(client ? toState(client, client.getActiveSpeakers(), null) : EMPTY_STATE);
+  }, [client]);
+
+  useLiveKitEvent(client, 'active-speakers-changed', (audioLevels) => {
+    if (!client) return;
+    setState(previous => toState(client, audioLevels, previous.lastSpeaker));
+  });
+
+  useLiveKitEvent(client, 'participant-left', (identity) => {
+    setState(previous => previous.lastSpeaker === identity ? { ...previous, lastSpeaker: null } : previous);
+  });
+
+  return state;
+}
+
+function toState(client: LiveKitClient, audioLevels: Map<string, number>, lastSpeaker: string | null): ActiveSpeakerState {
+  const localIdentity = client.getRoom().localParticipant.identity;
+  // Speakers arrive loudest first
+  const loudestRemote = Array.from(audioLevels.keys()).find(identity => identity !== localIdentity);
+
+  return {
+    activeSpeakers: new Set(audioLevels.keys()),
+    audioLevels,
+    lastSpeaker: loudestRemote ?? lastSpeaker,
+  };
+}
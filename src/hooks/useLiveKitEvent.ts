@@ -0,0 +1,21 @@
+import { useEffect, useRef } from 'react';
+import { LiveKitClient, LiveKitClientEvent, LiveKitClientEvents } from '../utils/LiveKitClient';
+
+export function useLiveKitEvent<E extends LiveKitClientEvent>(
+  client: LiveKitClient | null,
+  event: E,
+  handler: LiveKitClientEvents[E]
+) {
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(() => {
+    if (!client) return;
+
+    const listener = ((...args: Parameters<LiveKitClientEvents[E]>) => {
+      (handlerRef.current as (...args: Parameters<LiveKitClientEvents[E]>) => void)(...args);
+    }) as LiveKitClientEvents[E];
+
+    return client.on(event, listener);
+  }, [client, event]);
+}
@@ -0,0 +1,73 @@
+import { supabase } from './supabase';
+
+type AdminAction = 'mute-audio' | 'toggle-video' | 'kick' | 'lower-hand';
+
+interface AdminControlResponse {
+  success: boolean;
+  message: string;
+}
+
+export class AdminControlService {
+  private baseUrl: string;
+  private sessionId: string;
+
+  constructor(baseUrl: string, sessionId: string) {
+    this.baseUrl = baseUrl;
+    this.sessionId = sessionId;
+  }
+
+  async muteParticipant(participantIdentity: string, muted: boolean): Promise<AdminControlResponse> {
+    return this.send('mute-audio', participantIdentity, { muted });
+  }
+
+  async setParticipantVideo(participantIdentity: string, enabled: boolean): Promise<AdminControlResponse> {
+    return this.send('toggle-video', participantIdentity, { enabled });
+  }
+
+  async kickParticipant(participantIdentity: string): Promise<AdminControlResponse> {
+    return this.send('kick', participantIdentity);
+  }
+
+  async lowerHand(participantIdentity: string): Promise<AdminControlResponse> {
+    return this.send('lower-hand', participantIdentity);
+  }
+
+  private async send(
+    action: AdminAction,
+    participantIdentity: string,
+    options: { muted?: boolean; enabled?: boolean } = {}
+  ): Promise<AdminControlResponse> {
+    const { data } = await supabase.auth.getSession();
+    const accessToken = data.session?.access_token;
+    if (!accessToken) {
+      throw new Error('You must be signed in to use admin controls');
+    }
+
+    const response = await fetch(`${this.baseUrl}/functions/v1/admin-control`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        session_id: this.sessionId,
+        action,
+        target_identity: participantIdentity,
+        ...options,
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      let message = errorText;
+      try {
+        message = JSON.parse(errorText).error || errorText;
+      } catch {
+        // Keep the raw response text
+      }
+      throw new Error(`Admin control failed: ${response.status} ${message}`);
+    }
+
+    return await response.json();
+  }
+}
@@ -0,0 +1,247 @@
+export interface JitterBufferStats {
+  // Audio received but not yet handed to the AudioContext
+  depthMs: number;
+  targetMs: number;
+  // Times the buffer ran dry and playback had to stop and refill
+  underruns: number;
+  // Frames that arrived after their turn had already been played or concealed
+  lateFrames: number;
+  // Frames filled in for audio that was missing when it was due
+  concealedFrames: number;
+  // Frames thrown away to pull latency back down after a burst
+  droppedFrames: number;
+  // Total delay the buffer adds between arrival and playback, buffered plus already scheduled
+  addedLatencyMs: number;
+}
+
+export interface JitterBufferOptions {
+  targetMs?: number;
+  maxMs?: number;
+}
+
+interface Frame {
+  sequence: number;
+  samples: Float32Array;
+}
+
+const DEFAULT_TARGET_MS = 80;
+const DEFAULT_MAX_MS = 400;
+const TICK_MS = 20;
+// How far ahead of the AudioContext clock frames are scheduled. Larger survives timer hiccups,
+// smaller reacts to depth changes sooner.
+const SCHEDULE_AHEAD_MS = 60;
+// Above target * this factor playback speeds up slightly to drain the excess
+const SPEED_UP_FACTOR = 1.5;
+const SPEED_UP_RATE = 1.05;
+// A sequence this far from the next expected one is a restarted stream, not a late or lost frame
+const SEQUENCE_RESTART_GAP = 100;
+// Each concealed frame repeats the last one at this fraction of its level, so a gap fades out
+const CONCEALMENT_FADE = 0.5;
+
+/**
+ * Plays a stream of PCM frames that arrive unevenly over a WebSocket. Frames wait until
+ * targetMs of audio has built up, play in sequence order, and a missing frame is covered by a
+ * faded repeat of the one before. When bursts push the depth past the target, playback runs a
+ * little fast until it is back, and past maxMs the oldest frames are dropped.
+ */
+export class AudioJitterBuffer {
+  private context: AudioContext;
+  private sampleRate: number;
+  private targetMs: number;
+  private maxMs: number;
+
+  private frames = new Map<number, Frame>();
+  private bufferedSamples = 0;
+  private nextSequence: number | null = null;
+  private arrivalSequence = 0;
+  private isBuffering = true;
+  private nextPlayTime = 0;
+  private lastSamples: Float32Array | null = null;
+  private concealmentLevel = 1;
+  private scheduledSources = new Set<AudioBufferSourceNode>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  private underruns = 0;
+  private lateFrames = 0;
+  private concealedFrames = 0;
+  private droppedFrames = 0;
+
+  constructor(context: AudioContext, sampleRate: number, options: JitterBufferOptions = {}) {
+    this.context = context;
+    this.sampleRate = sampleRate;
+    this.targetMs = options.targetMs ?? DEFAULT_TARGET_MS;
+    this.maxMs = Math.max(options.maxMs ?? DEFAULT_MAX_MS, this.targetMs * 2);
+  }
+
+  // Frames without a sequence number are numbered in arrival order
+  push(samples: Float32Array, sequence?: number): void {
+    const frameSequence = sequence ?? this.arrivalSequence;
+    this.arrivalSequence = frameSequence + 1;
+
+    if (this.nextSequence !== null && Math.abs(frameSequence - this.nextSequence) > SEQUENCE_RESTART_GAP) {
+      console.log('🎵 [JitterBuffer] Sequence restarted, flushing buffer');
+      this.flush();
+    } else if (this.nextSequence !== null && frameSequence < this.nextSequence) {
+      this.lateFrames++;
+      return;
+    }
+
+    if (this.frames.has(frameSequence)) return;
+
+    this.frames.set(frameSequence, { sequence: frameSequence, samples });
+    this.bufferedSamples += samples.length;
+    if (this.nextSequence === null) {
+      this.nextSequence = frameSequence;
+    }
+
+    this.trimExcess();
+    this.start();
+  }
+
+  getStats(): JitterBufferStats {
+    const depthMs = this.toMs(this.bufferedSamples);
+    const scheduledMs = Math.max(0, (this.nextPlayTime - this.context.currentTime) * 1000);
+    return {
+      depthMs: Math.round(depthMs),
+      targetMs: this.targetMs,
+      underruns: this.underruns,
+      lateFrames: this.lateFrames,
+      concealedFrames: this.concealedFrames,
+      droppedFrames: this.droppedFrames,
+      addedLatencyMs: Math.round(depthMs + scheduledMs),
+    };
+  }
+
+  getScheduledCount(): number {
+    return this.scheduledSources.size;
+  }
+
+  getNextPlayTime(): number {
+    return this.nextPlayTime;
+  }
+
+  // Stops playback and forgets buffered audio; counters are kept
+  flush(): void {
+    this.stopTimer();
+    for (const source of this.scheduledSources) {
+      try {
+        source.stop();
+      } catch {
+        // Already stopped
+      }
+    }
+    this.scheduledSources.clear();
+    this.frames.clear();
+    this.bufferedSamples = 0;
+    this.nextSequence = null;
+    this.isBuffering = true;
+    this.nextPlayTime = 0;
+    this.lastSamples = null;
+  }
+
+  private start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.schedule(), TICK_MS);
+    this.schedule();
+  }
+
+  private stopTimer(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private schedule(): void {
+    if (this.isBuffering) {
+      if (this.toMs(this.bufferedSamples) < this.targetMs) return;
+      this.isBuffering = false;
+      this.nextPlayTime = Math.max(this.context.currentTime, this.nextPlayTime);
+    }
+
+    const horizon = this.context.currentTime + SCHEDULE_AHEAD_MS / 1000;
+    while (this.nextPlayTime < horizon) {
+      const frame = this.takeNextFrame();
+      if (frame) {
+        this.lastSamples = frame.samples;
+        this.concealmentLevel = 1;
+        this.play(frame.samples);
+        continue;
+      }
+
+      // The next frame is missing. Cover the gap with a faded repeat; if nothing at all is
+      // buffered, this is an underrun and playback waits to refill to the target.
+      if (this.lastSamples) {
+        this.concealedFrames++;
+        this.concealmentLevel *= CONCEALMENT_FADE;
+        this.play(this.lastSamples, this.concealmentLevel);
+      }
+
+      if (this.frames.size === 0) {
+        this.underruns++;
+        this.isBuffering = true;
+        this.lastSamples = null;
+        this.stopTimer();
+        return;
+      }
+    }
+  }
+
+  // Returns the next frame in order, skipping past a lost one once later audio has arrived
+  private takeNextFrame(): Frame | null {
+    if (this.nextSequence === null) return null;
+
+    const frame = this.frames.get(this.nextSequence);
+    this.nextSequence++;
+    if (!frame) {
+      if (this.frames.size === 0) this.nextSequence--;
+      return null;
+    }
+
+    this.frames.delete(frame.sequence);
+    this.bufferedSamples -= frame.samples.length;
+    return frame;
+  }
+
+  // Drift correction for bursts: a hard cap on depth, beyond which the oldest audio goes
+  private trimExcess(): void {
+    while (this.toMs(this.bufferedSamples) > this.maxMs && this.nextSequence !== null) {
+      const frame = this.frames.get(this.nextSequence);
+      this.nextSequence++;
+      if (frame) {
+        this.frames.delete(frame.sequence);
+        this.bufferedSamples -= frame.samples.length;
+        this.droppedFrames++;
+      }
+    }
+  }
+
+  private play(samples: Float32Array, gain = 1): void {
+    const audioBuffer = this.context.createBuffer(1, samples.length, this.sampleRate);
+    const channelData = audioBuffer.getChannelData(0);
+    for (let i = 0; i < samples.length; i++) {
+      channelData[i] = samples[i] * gain;
+    }
+
+    // Gentle drift correction: slightly fast playback while the buffer sits well above target
+    const rate = this.toMs(this.bufferedSamples) > this.targetMs * SPEED_UP_FACTOR ? SPEED_UP_RATE : 1;
+
+    const source = this.context.createBufferSource();
+    source.buffer = audioBuffer;
+    source.playbackRate.value = rate;
+    source.connect(this.context.destination);
+
+    const startTime = Math.max(this.context.currentTime, this.nextPlayTime);
+    source.start(startTime);
+    this.nextPlayTime = startTime + audioBuffer.duration / rate;
+
+    source.onended = () => {
+      this.scheduledSources.delete(source);
+    };
+    this.scheduledSources.add(source);
+  }
+
+  private toMs(samples: number): number {
+    return (samples / this.sampleRate) * 1000;
+  }
+}
@@ -0,0 +1,155 @@
+import { RemoteAudioTrack } from 'livekit-client';
+import { TypedEventEmitter } from './TypedEventEmitter';
+
+export interface ParticipantPlayback {
+  // 0-1, applied on top of the ducking level
+  volume: number;
+  // Muted for this listener only; the participant keeps publishing
+  muted: boolean;
+}
+
+interface AudioOutputRouterEvents {
+  'blocked-changed': (blocked: boolean) => void;
+  'playback-changed': (playback: Map<string, ParticipantPlayback>) => void;
+}
+
+interface RoutedElement {
+  identity: string;
+  track: RemoteAudioTrack;
+  element: HTMLMediaElement;
+}
+
+const DEFAULT_PLAYBACK: ParticipantPlayback = { volume: 1, muted: false };
+// Share of the normal level remote audio keeps while a ringtone is playing
+const DUCKED_LEVEL = 0.25;
+
+// Owns the <audio> elements for remote tracks: one per track, kept in a single hidden container
+// so they can all be found and removed when the call ends.
+export class AudioOutputRouter {
+  private elements = new Map<string, RoutedElement>();
+  private playback = new Map<string, ParticipantPlayback>();
+  private container: HTMLDivElement | null = null;
+  private isDucked = false;
+  private isHeld = false;
+  private isBlocked = false;
+  private events = new TypedEventEmitter<AudioOutputRouterEvents>();
+
+  on<E extends keyof AudioOutputRouterEvents>(event: E, handler: AudioOutputRouterEvents[E]): () => void {
+    return this.events.on(event, handler);
+  }
+
+  attach(trackSid: string, identity: string, track: RemoteAudioTrack): void {
+    this.detach(trackSid);
+
+    const element = track.attach();
+    element.dataset.participantIdentity = identity;
+    this.getContainer().appendChild(element);
+    this.elements.set(trackSid, { identity, track, element });
+    this.applyPlayback(identity);
+    this.play(element);
+  }
+
+  detach(trackSid: string): void {
+    const routed = this.elements.get(trackSid);
+    if (!routed) return;
+
+    routed.track.detach(routed.element);
+    routed.element.srcObject = null;
+    routed.element.remove();
+    this.elements.delete(trackSid);
+  }
+
+  detachAll(): void {
+    Array.from(this.elements.keys()).forEach(trackSid => this.detach(trackSid));
+    this.container?.remove();
+    this.container = null;
+    this.setBlocked(false);
+  }
+
+  getPlayback(identity: string): ParticipantPlayback {
+    return this.playback.get(identity) ?? DEFAULT_PLAYBACK;
+  }
+
+  setVolume(identity: string, volume: number): void {
+    this.updatePlayback(identity, { volume: Math.min(1, Math.max(0, volume)) });
+  }
+
+  setMuted(identity: string, muted: boolean): void {
+    this.updatePlayback(identity, { muted });
+  }
+
+  setDucked(ducked: boolean): void {
+    if (this.isDucked === ducked) return;
+    this.isDucked = ducked;
+    this.elements.forEach(({ identity }) => this.applyPlayback(identity));
+  }
+
+  // Silences every participant while the call is on hold, without touching their own settings
+  setHeld(held: boolean): void {
+    if (this.isHeld === held) return;
+    this.isHeld = held;
+    this.elements.forEach(({ identity }) => this.applyPlayback(identity));
+  }
+
+  isPlaybackBlocked(): boolean {
+    return this.isBlocked;
+  }
+
+  // Must be called from a user gesture, otherwise the browser blocks play() again
+  async resume(): Promise<void> {
+    const results = await Promise.allSettled(
+      Array.from(this.elements.values()).map(({ element }) => element.play())
+    );
+    this.setBlocked(results.some(result => result.status === 'rejected'));
+  }
+
+  destroy(): void {
+    this.detachAll();
+    this.playback.clear();
+    this.events.removeAllListeners();
+  }
+
+  private play(element: HTMLMediaElement): void {
+    element.play().catch((error: unknown) => {
+      if (error instanceof DOMException && error.name === 'NotAllowedError') {
+        console.warn('⚠️ Remote audio blocked by autoplay policy');
+        this.setBlocked(true);
+      } else {
+        console.error('❌ Failed to play remote audio:', error);
+      }
+    });
+  }
+
+  private updatePlayback(identity: string, changes: Partial<ParticipantPlayback>): void {
+    this.playback.set(identity, { ...this.getPlayback(identity), ...changes });
+    this.applyPlayback(identity);
+    this.events.emit('playback-changed', new Map(this.playback));
+  }
+
+  private applyPlayback(identity: string): void {
+    const { volume, muted } = this.getPlayback(identity);
+    const level = volume * (this.isDucked ? DUCKED_LEVEL : 1);
+
+    this.elements.forEach(routed => {
+      if (routed.identity !== identity) return;
+      routed.element.volume = level;
+      routed.element.muted = muted || this.isHeld;
+    });
+  }
+
+  private setBlocked(blocked: boolean): void {
+    if (this.isBlocked === blocked) return;
+    this.isBlocked = blocked;
+    this.events.emit('blocked-changed', blocked);
+  }
+
+  private getContainer(): HTMLDivElement {
+    if (!this.container) {
+      this.container = document.createElement('div');
+      this.container.id = 'remote-audio-output';
+      this.container.hidden = true;
+      document.body.appendChild(this.container);
+    }
+    return this.container;
+  }
+}
@@ -1,5 +1,9 @@
+// Sample rate of the μ-law audio the voice-assistant WebSocket expects
+const MULAW_SAMPLE_RATE = 8000;
+
 export class AudioRecorder {
   private onAudioLevel?: (level: number) => void;
+  private onAudioData?: (chunk: ArrayBuffer) => void;
   private audioContext: AudioContext | null = null;
   private mediaStream: MediaStream | null = null;
   private processor: ScriptProcessorNode | null = null;
@@ -11,18 +15,22 @@ export class AudioRecorder {
   private maxPeakHistory = 50; // Track last 50 peaks
   private adaptiveGain = 5.0; // Start with moderate gain
 
+  // onAudioData receives the microphone as 8 kHz μ-law chunks, for sending over WebSocketClient
   constructor(
-    onAudioLevel?: (level: number) => void
+    onAudioLevel?: (level: number) => void,
+    onAudioData?: (chunk: ArrayBuffer) => void
   ) {
     this.onAudioLevel = onAudioLevel;
+    this.onAudioData = onAudioData;
   }
 
-  async start(): Promise<void> {
+  async start(deviceId?: string): Promise<void> {
     console.log('🎤 [AudioRecorder] Requesting microphone access...');
 
     try {
       this.mediaStream = await navigator.mediaDevices.getUserMedia({
         audio: {
+          deviceId: deviceId && deviceId !== 'default' ? { exact: deviceId } : undefined,
           sampleRate: 16000,
           channelCount: 1,
           echoCancellation: true,
@@ -91,6 +99,10 @@ export class AudioRecorder {
       if (this.onAudioLevel) {
         this.onAudioLevel(level);
       }
+
+      if (this.onAudioData && this.audioContext) {
+        this.onAudioData(this.toMulaw(inputData, this.audioContext.sampleRate));
+      }
     };
 
     source.connect(this.processor);
@@ -114,4 +126,34 @@ export class AudioRecorder {
     }
     console.log('🛑 Audio recording stopped');
   }
+
+  // Downsamples by averaging each group of input samples, then μ-law encodes
+  private toMulaw(input: Float32Array, sampleRate: number): ArrayBuffer {
+    const ratio = sampleRate / MULAW_SAMPLE_RATE;
+    const output = new Uint8Array(Math.floor(input.length / ratio));
+
+    for (let i = 0; i < output.length; i++) {
+      const start = Math.floor(i * ratio);
+      const end = Math.min(input.length, Math.floor((i + 1) * ratio));
+      let sum = 0;
+      for (let j = start; j < end; j++) {
+        sum += input[j];
+      }
+      const sample = Math.max(-1, Math.min(1, sum / Math.max(1, end - start)));
+      output[i] = this.linearToMulaw(Math.round(sample * 32767));
+    }
+
+    return output.buffer;
+  }
+
+  private linearToMulaw(sample: number): number {
+    const sign = sample < 0 ? 0x80 : 0;
+    const magnitude = Math.min(Math.abs(sample), 32635) + 0x84;
+    let exponent = 7;
+    for (let mask = 0x4000; (magnitude & mask) === 0 && exponent > 0; mask >>= 1) {
+      exponent--;
+    }
+    const mantissa = (magnitude >> (exponent + 3)) & 0x0f;
+    return ~(sign | (exponent << 4) | mantissa) & 0xff;
+  }
 }
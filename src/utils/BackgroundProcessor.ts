@@ -0,0 +1,312 @@
+import { Track, TrackProcessor, VideoProcessorOptions } from 'livekit-client';
+import type { ImageSegmenter } from '@mediapipe/tasks-vision';
+import wasmLoaderPath from '@mediapipe/tasks-vision/vision_wasm_internal.js?url';
+import wasmBinaryPath from '@mediapipe/tasks-vision/vision_wasm_internal.wasm?url';
+import { TypedEventEmitter } from './TypedEventEmitter';
+
+export type BlurLevel = 'light' | 'medium' | 'strong';
+
+export type BackgroundEffect =
+  | { type: 'none' }
+  | { type: 'blur'; level: BlurLevel }
+  | { type: 'image'; imageUrl: string };
+
+export type BackgroundFallbackReason = 'overload' | 'unavailable';
+
+interface BackgroundProcessorEvents {
+  // Raw camera frames are being sent instead of the effect
+  'fallback-changed': (active: boolean, reason: BackgroundFallbackReason | null) => void;
+}
+
+type Surface = {
+  canvas: OffscreenCanvas | HTMLCanvasElement;
+  context: OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D;
+};
+
+const MODEL_URL = import.meta.env.VITE_SEGMENTATION_MODEL_URL ||
+  'https://storage.googleapis.com/mediapipe-models/image_segmenter/selfie_segmenter/float16/latest/selfie_segmenter.tflite';
+
+const BLUR_RADIUS_PX: Record<BlurLevel, number> = { light: 6, medium: 12, strong: 24 };
+// Segmentation runs on a small frame; the soft upscaled mask also feathers the edges
+const SEGMENTATION_WIDTH = 256;
+const SEGMENTATION_HEIGHT = 144;
+const OUTPUT_FPS = 24;
+const FRAME_BUDGET_MS = 1000 / OUTPUT_FPS;
+// Consecutive frames over 80% of the budget before giving up on the effect
+const OVERLOAD_FRAME_LIMIT = 15;
+const RECOVERY_BASE_DELAY_MS = 10000;
+const RECOVERY_MAX_DELAY_MS = 60000;
+
+let segmenterPromise: Promise<ImageSegmenter> | null = null;
+
+// One segmenter is shared by every processor; the library and model are only loaded on first use
+function loadSegmenter(): Promise<ImageSegmenter> {
+  if (!segmenterPromise) {
+    segmenterPromise = import('@mediapipe/tasks-vision').then(({ ImageSegmenter }) => ImageSegmenter.createFromOptions(
+      { wasmLoaderPath, wasmBinaryPath },
+      {
+        baseOptions: { modelAssetPath: MODEL_URL, delegate: 'CPU' },
+        runningMode: 'VIDEO',
+        outputConfidenceMasks: true,
+        outputCategoryMask: false,
+      }
+    )).catch((error) => {
+      segmenterPromise = null;
+      throw error;
+    });
+  }
+  return segmenterPromise;
+}
+
+function createSurface(width: number, height: number): Surface {
+  const canvas = typeof OffscreenCanvas !== 'undefined'
+    ? new OffscreenCanvas(width, height)
+    : Object.assign(document.createElement('canvas'), { width, height });
+  const context = canvas.getContext('2d', { willReadFrequently: true }) as Surface['context'];
+  return { canvas, context };
+}
+
+// LiveKit track processor that replaces or blurs the camera background using CPU-only
+// segmentation. Frames are drawn on a timer so a background tab keeps sending video.
+export class BackgroundProcessor implements TrackProcessor<Track.Kind.Video, VideoProcessorOptions> {
+  name = 'background-effect';
+  processedTrack?: MediaStreamTrack;
+
+  private effect: BackgroundEffect;
+  private events = new TypedEventEmitter<BackgroundProcessorEvents>();
+  private segmenter: ImageSegmenter | null = null;
+  private backgroundImage: HTMLImageElement | null = null;
+
+  private videoElement: HTMLVideoElement | null = null;
+  private output: HTMLCanvasElement | null = null;
+  private outputContext: CanvasRenderingContext2D | null = null;
+  private segmentationInput: Surface | null = null;
+  private mask: Surface | null = null;
+  private maskImage: ImageData | null = null;
+  private person: Surface | null = null;
+  private frameTimer: ReturnType<typeof setTimeout> | null = null;
+  private lastTimestamp = 0;
+
+  private overloadedFrames = 0;
+  private fallbackReason: BackgroundFallbackReason | null = null;
+  private recoveryTimer: ReturnType<typeof setTimeout> | null = null;
+  private recoveryDelayMs = RECOVERY_BASE_DELAY_MS;
+
+  constructor(effect: BackgroundEffect) {
+    this.effect = effect;
+  }
+
+  static isSupported(): boolean {
+    return typeof HTMLCanvasElement !== 'undefined' && 'captureStream' in HTMLCanvasElement.prototype;
+  }
+
+  on<E extends keyof BackgroundProcessorEvents>(event: E, handler: BackgroundProcessorEvents[E]): () => void {
+    return this.events.on(event, handler);
+  }
+
+  async init({ track }: VideoProcessorOptions): Promise<void> {
+    const { width = 1280, height = 720 } = track.getSettings();
+
+    this.videoElement = document.createElement('video');
+    this.videoElement.muted = true;
+    this.videoElement.playsInline = true;
+    this.videoElement.srcObject = new MediaStream([track]);
+    await this.videoElement.play();
+
+    this.output = document.createElement('canvas');
+    this.output.width = width;
+    this.output.height = height;
+    this.outputContext = this.output.getContext('2d');
+    this.segmentationInput = createSurface(SEGMENTATION_WIDTH, SEGMENTATION_HEIGHT);
+    this.mask = createSurface(SEGMENTATION_WIDTH, SEGMENTATION_HEIGHT);
+    this.maskImage = new ImageData(SEGMENTATION_WIDTH, SEGMENTATION_HEIGHT);
+    this.person = createSurface(width, height);
+
+    this.processedTrack = this.output.captureStream(OUTPUT_FPS).getVideoTracks()[0];
+    this.renderFrame();
+    // Raw frames are sent while the model downloads instead of holding up the camera
+    this.prepareEffect().catch(error => console.error('❌ [BackgroundProcessor] Failed to prepare effect:', error));
+  }
+
+  async restart(options: VideoProcessorOptions): Promise<void> {
+    this.teardown();
+    await this.init(options);
+  }
+
+  async destroy(): Promise<void> {
+    this.teardown();
+    this.events.removeAllListeners();
+  }
+
+  async setEffect(effect: BackgroundEffect): Promise<void> {
+    this.effect = effect;
+    await this.prepareEffect();
+  }
+
+  getEffect(): BackgroundEffect {
+    return this.effect;
+  }
+
+  private async prepareEffect(): Promise<void> {
+    const effect = this.effect;
+    if (effect.type === 'none') return;
+
+    if (effect.type === 'image' && this.backgroundImage?.src !== effect.imageUrl) {
+      const image = new Image();
+      image.crossOrigin = 'anonymous';
+      image.src = effect.imageUrl;
+      await image.decode();
+      this.backgroundImage = image;
+    }
+
+    if (!this.segmenter) {
+      try {
+        this.segmenter = await loadSegmenter();
+        if (this.fallbackReason === 'unavailable') {
+          this.fallbackReason = null;
+          this.events.emit('fallback-changed', false, null);
+        }
+      } catch (error) {
+        console.error('❌ [BackgroundProcessor] Failed to load segmentation model:', error);
+        this.setFallback('unavailable');
+      }
+    }
+  }
+
+  private renderFrame = () => {
+    const startedAt = performance.now();
+    const video = this.videoElement;
+    const context = this.outputContext;
+
+    if (video && context && this.output && video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA) {
+      this.resizeOutput(video.videoWidth, video.videoHeight);
+      if (this.effect.type === 'none' || this.fallbackReason || !this.segmenter) {
+        context.drawImage(video, 0, 0, this.output.width, this.output.height);
+      } else {
+        this.drawWithEffect(video, context, this.segmenter);
+        this.checkLoad(performance.now() - startedAt);
+      }
+    }
+
+    const elapsed = performance.now() - startedAt;
+    this.frameTimer = setTimeout(this.renderFrame, Math.max(0, FRAME_BUDGET_MS - elapsed));
+  };
+
+  private resizeOutput(width: number, height: number): void {
+    if (!this.output || !this.person || width === 0 || height === 0) return;
+    if (this.output.width === width && this.output.height === height) return;
+
+    this.output.width = width;
+    this.output.height = height;
+    this.person.canvas.width = width;
+    this.person.canvas.height = height;
+  }
+
+  private drawWithEffect(video: HTMLVideoElement, context: CanvasRenderingContext2D, segmenter: ImageSegmenter): void {
+    const input = this.segmentationInput!;
+    const mask = this.mask!;
+    const maskImage = this.maskImage!;
+    const person = this.person!;
+    const { width, height } = this.output!;
+
+    input.context.drawImage(video, 0, 0, SEGMENTATION_WIDTH, SEGMENTATION_HEIGHT);
+
+    // The segmenter requires strictly increasing timestamps
+    this.lastTimestamp = Math.max(this.lastTimestamp + 1, Math.round(performance.now()));
+    const result = segmenter.segmentForVideo(input.canvas, this.lastTimestamp);
+    const confidence = result.confidenceMasks?.[0]?.getAsFloat32Array();
+    result.close();
+    if (!confidence) {
+      context.drawImage(video, 0, 0, width, height);
+      return;
+    }
+
+    for (let i = 0; i < confidence.length; i++) {
+      maskImage.data[i * 4 + 3] = confidence[i] * 255;
+    }
+    mask.context.putImageData(maskImage, 0, 0);
+
+    person.context.globalCompositeOperation = 'copy';
+    person.context.drawImage(video, 0, 0, width, height);
+    person.context.globalCompositeOperation = 'destination-in';
+    person.context.drawImage(mask.canvas, 0, 0, width, height);
+    person.context.globalCompositeOperation = 'source-over';
+
+    this.drawBackground(video, context, width, height);
+    context.drawImage(person.canvas, 0, 0);
+  }
+
+  private drawBackground(video: HTMLVideoElement, context: CanvasRenderingContext2D, width: number, height: number): void {
+    const effect = this.effect;
+
+    if (effect.type === 'image' && this.backgroundImage) {
+      // Cover the frame like CSS object-fit: cover
+      const image = this.backgroundImage;
+      const scale = Math.max(width / image.naturalWidth, height / image.naturalHeight);
+      const drawWidth = image.naturalWidth * scale;
+      const drawHeight = image.naturalHeight * scale;
+      context.drawImage(image, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+      return;
+    }
+
+    const radius = effect.type === 'blur' ? BLUR_RADIUS_PX[effect.level] : BLUR_RADIUS_PX.medium;
+    if (typeof context.filter === 'string') {
+      context.filter = `blur(${radius}px)`;
+      context.drawImage(video, 0, 0, width, height);
+      context.filter = 'none';
+      return;
+    }
+
+    // Browsers without canvas filters get a cheaper blur by upscaling a tiny copy of the frame
+    const input = this.segmentationInput!;
+    const factor = Math.max(radius / 2, width / SEGMENTATION_WIDTH, height / SEGMENTATION_HEIGHT);
+    input.context.drawImage(video, 0, 0, width / factor, height / factor);
+    context.imageSmoothingEnabled = true;
+    context.drawImage(input.canvas, 0, 0, width / factor, height / factor, 0, 0, width, height);
+  }
+
+  private checkLoad(frameMs: number): void {
+    this.overloadedFrames = frameMs > FRAME_BUDGET_MS * 0.8 ? this.overloadedFrames + 1 : 0;
+    if (this.overloadedFrames < OVERLOAD_FRAME_LIMIT) return;
+
+    console.warn(`⚠️ [BackgroundProcessor] Frames take ${frameMs.toFixed(1)}ms, sending raw video`);
+    this.setFallback('overload');
+  }
+
+  private setFallback(reason: BackgroundFallbackReason): void {
+    this.overloadedFrames = 0;
+    this.fallbackReason = reason;
+    this.events.emit('fallback-changed', true, reason);
+
+    if (reason !== 'overload') return;
+
+    // Retry the effect later in case the load was temporary, backing off while it keeps failing
+    this.recoveryTimer = setTimeout(() => {
+      this.recoveryTimer = null;
+      this.fallbackReason = null;
+      this.events.emit('fallback-changed', false, null);
+    }, this.recoveryDelayMs);
+    this.recoveryDelayMs = Math.min(this.recoveryDelayMs * 2, RECOVERY_MAX_DELAY_MS);
+  }
+
+  private teardown(): void {
+    if (this.frameTimer) clearTimeout(this.frameTimer);
+    if (this.recoveryTimer) clearTimeout(this.recoveryTimer);
+    this.frameTimer = null;
+    this.recoveryTimer = null;
+
+    this.processedTrack?.stop();
+    this.processedTrack = undefined;
+    if (this.videoElement) {
+      this.videoElement.srcObject = null;
+    }
+    this.videoElement = null;
+    this.output = null;
+    this.outputContext = null;
+    this.segmentationInput = null;
+    this.mask = null;
+    this.maskImage = null;
+    this.person = null;
+    this.overloadedFrames = 0;
+  }
+}
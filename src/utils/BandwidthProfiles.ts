@@ -0,0 +1,110 @@
+import {
+  AudioPreset,
+  AudioPresets,
+  RoomOptions,
+  TrackPublishOptions,
+  VideoPreset,
+  VideoPresets,
+  VideoQuality,
+} from 'livekit-client';
+
+export type BandwidthProfileName = 'high' | 'balanced' | 'low-data' | 'audio-only';
+
+export interface BandwidthProfile {
+  name: BandwidthProfileName;
+  label: string;
+  description: string;
+  publishVideo: boolean;
+  // Capture resolution and top encoding; null when the camera is not published
+  videoPreset: VideoPreset | null;
+  // Lower simulcast layers sent alongside the top encoding; empty disables simulcast
+  simulcastLayers: VideoPreset[];
+  audioPreset: AudioPreset;
+  // Remote cameras are unsubscribed entirely when false; screen shares are always kept
+  subscribeVideo: boolean;
+  maxSubscriptionQuality: VideoQuality;
+  adaptiveStream: RoomOptions['adaptiveStream'];
+  dynacast: boolean;
+}
+
+export const BANDWIDTH_PROFILES: Record<BandwidthProfileName, BandwidthProfile> = {
+  high: {
+    name: 'high',
+    label: 'High quality',
+    description: '720p video, best on fast and stable connections',
+    publishVideo: true,
+    videoPreset: VideoPresets.h720,
+    simulcastLayers: [VideoPresets.h180, VideoPresets.h360],
+    audioPreset: AudioPresets.music,
+    subscribeVideo: true,
+    maxSubscriptionQuality: VideoQuality.HIGH,
+    adaptiveStream: { pixelDensity: 'screen' },
+    dynacast: true,
+  },
+  balanced: {
+    name: 'balanced',
+    label: 'Balanced',
+    description: '540p video that adapts to the window size',
+    publishVideo: true,
+    videoPreset: VideoPresets.h540,
+    simulcastLayers: [VideoPresets.h180],
+    audioPreset: AudioPresets.speech,
+    subscribeVideo: true,
+    maxSubscriptionQuality: VideoQuality.MEDIUM,
+    adaptiveStream: true,
+    dynacast: true,
+  },
+  'low-data': {
+    name: 'low-data',
+    label: 'Low data',
+    description: '360p at 15 fps and low-quality remote video, for mobile data',
+    publishVideo: true,
+    videoPreset: new VideoPreset(640, 360, 300_000, 15),
+    simulcastLayers: [],
+    audioPreset: AudioPresets.telephone,
+    subscribeVideo: true,
+    maxSubscriptionQuality: VideoQuality.LOW,
+    adaptiveStream: true,
+    dynacast: true,
+  },
+  'audio-only': {
+    name: 'audio-only',
+    label: 'Audio only',
+    description: 'No camera video in either direction; screen shares stay visible',
+    publishVideo: false,
+    videoPreset: null,
+    simulcastLayers: [],
+    audioPreset: AudioPresets.speech,
+    subscribeVideo: false,
+    maxSubscriptionQuality: VideoQuality.LOW,
+    adaptiveStream: true,
+    dynacast: true,
+  },
+};
+
+export const DEFAULT_BANDWIDTH_PROFILE: BandwidthProfileName = 'high';
+
+export function getAudioPublishOptions(profile: BandwidthProfile): TrackPublishOptions {
+  // DTX and redundant encoding keep speech intelligible through packet loss
+  return { audioPreset: profile.audioPreset, dtx: true, red: true };
+}
+
+export function getVideoPublishOptions(profile: BandwidthProfile): TrackPublishOptions {
+  const preset = profile.videoPreset ?? VideoPresets.h360;
+  return {
+    videoEncoding: preset.encoding,
+    simulcast: profile.simulcastLayers.length > 0,
+    videoSimulcastLayers: profile.simulcastLayers,
+  };
+}
+
+const STORAGE_KEY_PREFIX = 'bandwidth_profile_';
+
+export function loadBandwidthProfile(userId: string): BandwidthProfileName {
+  const stored = localStorage.getItem(STORAGE_KEY_PREFIX + userId);
+  return stored && stored in BANDWIDTH_PROFILES ? (stored as BandwidthProfileName) : DEFAULT_BANDWIDTH_PROFILE;
+}
+
+export function saveBandwidthProfile(userId: string, profile: BandwidthProfileName): void {
+  localStorage.setItem(STORAGE_KEY_PREFIX + userId, profile);
+}
@@ -0,0 +1,80 @@
+import { isE2EESupported } from 'livekit-client';
+
+export interface CallEncryptionKey {
+  // Raw key material for LiveKit's key provider
+  key: ArrayBuffer;
+  // Short code both people read out to check nobody swapped the public keys in between
+  verificationCode: string;
+}
+
+const ECDH_PARAMS: EcKeyImportParams = { name: 'ECDH', namedCurve: 'P-256' };
+const KEY_INFO = new TextEncoder().encode('livekit-web-client call e2ee');
+const STORAGE_KEY_PREFIX = 'call_encryption_';
+
+export function isCallEncryptionSupported(): boolean {
+  return isE2EESupported() && typeof crypto !== 'undefined' && !!crypto.subtle;
+}
+
+export function loadCallEncryption(userId: string): boolean {
+  return localStorage.getItem(STORAGE_KEY_PREFIX + userId) === 'true';
+}
+
+export function saveCallEncryption(userId: string, enabled: boolean): void {
+  localStorage.setItem(STORAGE_KEY_PREFIX + userId, String(enabled));
+}
+
+function toBase64(buffer: ArrayBuffer): string {
+  return btoa(String.fromCharCode(...new Uint8Array(buffer)));
+}
+
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), char => char.charCodeAt(0));
+}
+
+// Both sides hash the two public keys in the same order, so a substituted key gives each
+// side a different code
+async function getVerificationCode(publicKey: string, remotePublicKey: string): Promise<string> {
+  const [first, second] = [publicKey, remotePublicKey].sort();
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(first + second)));
+  const digits = String(((digest[0] << 16) | (digest[1] << 8) | digest[2]) % 1000000).padStart(6, '0');
+  return `${digits.slice(0, 3)} ${digits.slice(3)}`;
+}
+
+/**
+ * One side of the key agreement for a single call. Only the public key goes through
+ * initiate-call/accept-call; the private key cannot be exported and is gone with this object,
+ * so the server never holds anything that decrypts the call.
+ */
+export class CallKeyExchange {
+  private keyPair: CryptoKeyPair;
+  private publicKey: string;
+
+  private constructor(keyPair: CryptoKeyPair, publicKey: string) {
+    this.keyPair = keyPair;
+    this.publicKey = publicKey;
+  }
+
+  static async create(): Promise<CallKeyExchange> {
+    const keyPair = await crypto.subtle.generateKey(ECDH_PARAMS, false, ['deriveBits']);
+    const publicKey = await crypto.subtle.exportKey('raw', keyPair.publicKey);
+    return new CallKeyExchange(keyPair, toBase64(publicKey));
+  }
+
+  getPublicKey(): string {
+    return this.publicKey;
+  }
+
+  // The room name salts the derivation so the key is tied to this call
+  async deriveKey(remotePublicKey: string, roomName: string): Promise<CallEncryptionKey> {
+    const remoteKey = await crypto.subtle.importKey('raw', fromBase64(remotePublicKey), ECDH_PARAMS, false, []);
+    const sharedSecret = await crypto.subtle.deriveBits({ name: 'ECDH', public: remoteKey }, this.keyPair.privateKey, 256);
+    const hkdfKey = await crypto.subtle.importKey('raw', sharedSecret, 'HKDF', false, ['deriveBits']);
+    const key = await crypto.subtle.deriveBits(
+      { name: 'HKDF', hash: 'SHA-256', salt: new TextEncoder().encode(roomName), info: KEY_INFO },
+      hkdfKey,
+      256
+    );
+
+    return { key, verificationCode: await getVerificationCode(this.publicKey, remotePublicKey) };
+  }
+}
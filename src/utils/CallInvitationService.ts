@@ -194,7 +194,8 @@ export class CallInvitationService {
     this.lastSeenInvitationIds.clear();
   }
 
-  async initiateCall(calleeUserId: string): Promise<{
+  // Pass the current call's session id to add the callee to that call instead of starting a new one
+  async initiateCall(calleeUserId: string, sessionId?: string, callerPublicKey?: string): Promise<{
     invitation: CallInvitation;
     caller_token: string;
     room_name: string;
@@ -211,14 +212,23 @@ export class CallInvitationService {
       caller_user_id: this.userId,
       callee_user_id: calleeUserId,
       caller_display_name: callerProfile?.display_name || this.userId,
+      session_id: sessionId,
+      caller_public_key: callerPublicKey,
     };
     console.log('initiateCall: Request payload:', payload);
 
+    // initiate-call identifies the caller from this token, not from caller_user_id
+    const { data: sessionData } = await supabase.auth.getSession();
+    const accessToken = sessionData.session?.access_token;
+    if (!accessToken) {
+      throw new Error('You must be signed in to place a call');
+    }
+
     const response = await fetch(url, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+        'Authorization': `Bearer ${accessToken}`,
       },
       body: JSON.stringify(payload),
     });
@@ -247,11 +257,13 @@ export class CallInvitationService {
     };
   }
 
-  async acceptCall(invitationId: string): Promise<{
+  async acceptCall(invitationId: string, calleePublicKey?: string): Promise<{
     room_name: string;
     token: string;
     caller_token: string;
     session_id?: string;
+    host_user_id?: string;
+    caller_public_key?: string;
   }> {
     const response = await fetch(`${SUPABASE_URL}/functions/v1/accept-call`, {
       method: 'POST',
@@ -262,6 +274,7 @@ export class CallInvitationService {
       body: JSON.stringify({
         invitation_id: invitationId,
         callee_user_id: this.userId,
+        callee_public_key: calleePublicKey,
       }),
     });
 
@@ -276,6 +289,8 @@ export class CallInvitationService {
       token: data.callee_token,
       caller_token: data.caller_token,
       session_id: data.session_id,
+      host_user_id: data.host_user_id,
+      caller_public_key: data.caller_public_key ?? undefined,
     };
   }
 
@@ -303,6 +318,17 @@ export class CallInvitationService {
     await this.rejectCall(invitationId, 'cancelled');
   }
 
+  // Lets the caller, and everyone else in a call the callee is being added to, see that it is ringing
+  async markRinging(invitationId: string): Promise<void> {
+    const { error } = await supabase
+      .from('call_invitations')
+      .update({ ringing_at: new Date().toISOString() })
+      .eq('id', invitationId)
+      .is('ringing_at', null);
+
+    if (error) throw error;
+  }
+
   onInvitation(callback: (invitation: CallInvitation) => void) {
     this.onInvitationCallbacks.push(callback);
     return () => {
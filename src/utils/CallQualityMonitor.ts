@@ -0,0 +1,321 @@
+import { ConnectionQuality, Participant, Room, Track } from 'livekit-client';
+import { TypedEventEmitter } from './TypedEventEmitter';
+
+export interface ParticipantNetworkStats {
+  identity: string;
+  quality: ConnectionQuality;
+  rttMs: number | null;
+  jitterMs: number | null;
+  packetLossPct: number | null;
+  bitrateKbps: number | null;
+  codecs: string[];
+  updatedAt: number;
+}
+
+export interface ParticipantQualitySummary {
+  identity: string;
+  samples: number;
+  avgRttMs: number | null;
+  maxRttMs: number | null;
+  avgJitterMs: number | null;
+  maxJitterMs: number | null;
+  avgPacketLossPct: number | null;
+  maxPacketLossPct: number | null;
+  avgBitrateKbps: number | null;
+  codecs: string[];
+  // Share of samples spent at each quality level, 0-1
+  qualityBreakdown: Record<ConnectionQuality, number>;
+}
+
+export interface CallQualitySummary {
+  version: 1;
+  startedAt: string;
+  endedAt: string;
+  sampleIntervalMs: number;
+  worstQuality: ConnectionQuality;
+  participants: ParticipantQualitySummary[];
+}
+
+interface CallQualityMonitorEvents {
+  'stats': (stats: Map<string, ParticipantNetworkStats>) => void;
+}
+
+interface ParticipantAccumulator {
+  samples: number;
+  rtt: number[];
+  jitter: number[];
+  loss: number[];
+  bitrate: number[];
+  codecs: Set<string>;
+  qualityCounts: Record<ConnectionQuality, number>;
+}
+
+interface CounterSnapshot {
+  bytes: number;
+  packetsLost: number;
+  packetsReceived: number;
+  timestamp: number;
+}
+
+const DEFAULT_INTERVAL_MS = 5000;
+
+const QUALITY_RANK: Record<ConnectionQuality, number> = {
+  [ConnectionQuality.Excellent]: 0,
+  [ConnectionQuality.Good]: 1,
+  [ConnectionQuality.Unknown]: 2,
+  [ConnectionQuality.Poor]: 3,
+  [ConnectionQuality.Lost]: 4,
+};
+
+function emptyQualityCounts(): Record<ConnectionQuality, number> {
+  return {
+    [ConnectionQuality.Excellent]: 0,
+    [ConnectionQuality.Good]: 0,
+    [ConnectionQuality.Poor]: 0,
+    [ConnectionQuality.Lost]: 0,
+    [ConnectionQuality.Unknown]: 0,
+  };
+}
+
+function average(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10;
+}
+
+function maximum(values: number[]): number | null {
+  return values.length === 0 ? null : Math.max(...values);
+}
+
+export class CallQualityMonitor {
+  private room: Room;
+  private intervalMs: number;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private events = new TypedEventEmitter<CallQualityMonitorEvents>();
+  private latest = new Map<string, ParticipantNetworkStats>();
+  private accumulators = new Map<string, ParticipantAccumulator>();
+  private counters = new Map<string, CounterSnapshot>();
+  private startedAt: Date | null = null;
+  private isSampling = false;
+
+  constructor(room: Room, intervalMs: number = DEFAULT_INTERVAL_MS) {
+    this.room = room;
+    this.intervalMs = intervalMs;
+  }
+
+  on<E extends keyof CallQualityMonitorEvents>(event: E, handler: CallQualityMonitorEvents[E]): () => void {
+    return this.events.on(event, handler);
+  }
+
+  start(): void {
+    if (this.timer) return;
+
+    this.startedAt = new Date();
+    this.timer = setInterval(() => {
+      this.sample().catch(error => console.warn('[CallQualityMonitor] Failed to collect stats:', error));
+    }, this.intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Clears accumulated samples so a long-lived room (PSTN) can report each call separately
+  reset(): void {
+    this.latest.clear();
+    this.accumulators.clear();
+    this.counters.clear();
+    this.startedAt = this.timer ? new Date() : null;
+  }
+
+  getLatestStats(): Map<string, ParticipantNetworkStats> {
+    return new Map(this.latest);
+  }
+
+  getSummary(): CallQualitySummary | null {
+    if (!this.startedAt || this.accumulators.size === 0) {
+      return null;
+    }
+
+    let worstQuality = ConnectionQuality.Excellent;
+    const participants: ParticipantQualitySummary[] = [];
+
+    this.accumulators.forEach((acc, identity) => {
+      const qualityBreakdown = emptyQualityCounts();
+      (Object.keys(acc.qualityCounts) as ConnectionQuality[]).forEach(quality => {
+        const count = acc.qualityCounts[quality];
+        qualityBreakdown[quality] = Math.round((count / acc.samples) * 100) / 100;
+        if (count > 0 && quality !== ConnectionQuality.Unknown && QUALITY_RANK[quality] > QUALITY_RANK[worstQuality]) {
+          worstQuality = quality;
+        }
+      });
+
+      participants.push({
+        identity,
+        samples: acc.samples,
+        avgRttMs: average(acc.rtt),
+        maxRttMs: maximum(acc.rtt),
+        avgJitterMs: average(acc.jitter),
+        maxJitterMs: maximum(acc.jitter),
+        avgPacketLossPct: average(acc.loss),
+        maxPacketLossPct: maximum(acc.loss),
+        avgBitrateKbps: average(acc.bitrate),
+        codecs: Array.from(acc.codecs),
+        qualityBreakdown,
+      });
+    });
+
+    return {
+      version: 1,
+      startedAt: this.startedAt.toISOString(),
+      endedAt: new Date().toISOString(),
+      sampleIntervalMs: this.intervalMs,
+      worstQuality,
+      participants,
+    };
+  }
+
+  private async sample(): Promise<void> {
+    if (this.isSampling) return;
+    this.isSampling = true;
+
+    try {
+      const participants: Participant[] = [this.room.localParticipant, ...this.room.remoteParticipants.values()];
+      const activeIdentities = new Set<string>();
+
+      for (const participant of participants) {
+        activeIdentities.add(participant.identity);
+        const stats = await this.collectParticipantStats(participant);
+        this.latest.set(participant.identity, stats);
+        this.accumulate(stats);
+      }
+
+      this.latest.forEach((_, identity) => {
+        if (!activeIdentities.has(identity)) {
+          this.latest.delete(identity);
+        }
+      });
+
+      this.events.emit('stats', this.getLatestStats());
+    } finally {
+      this.isSampling = false;
+    }
+  }
+
+  private async collectParticipantStats(participant: Participant): Promise<ParticipantNetworkStats> {
+    const stats: ParticipantNetworkStats = {
+      identity: participant.identity,
+      quality: participant.connectionQuality,
+      rttMs: null,
+      jitterMs: null,
+      packetLossPct: null,
+      bitrateKbps: null,
+      codecs: [],
+      updatedAt: Date.now(),
+    };
+
+    const codecs = new Set<string>();
+    let totalKbps = 0;
+    let hasBitrate = false;
+
+    for (const publication of participant.trackPublications.values()) {
+      const track = publication.track;
+      if (!track || (track.kind !== Track.Kind.Audio && track.kind !== Track.Kind.Video)) continue;
+
+      const report = await (track as { getRTCStatsReport?: () => Promise<RTCStatsReport | undefined> })
+        .getRTCStatsReport?.();
+      if (!report) continue;
+
+      const codecNames = new Map<string, string>();
+      report.forEach(entry => {
+        if (entry.type === 'codec' && typeof entry.mimeType === 'string') {
+          codecNames.set(entry.id, entry.mimeType.split('/')[1] || entry.mimeType);
+        }
+      });
+
+      report.forEach(entry => {
+        if (entry.type === 'candidate-pair' && entry.nominated && typeof entry.currentRoundTripTime === 'number') {
+          stats.rttMs = Math.max(stats.rttMs ?? 0, Math.round(entry.currentRoundTripTime * 1000));
+        }
+
+        if (entry.type === 'remote-inbound-rtp') {
+          if (typeof entry.roundTripTime === 'number') {
+            stats.rttMs = Math.max(stats.rttMs ?? 0, Math.round(entry.roundTripTime * 1000));
+          }
+          if (typeof entry.jitter === 'number') {
+            stats.jitterMs = Math.max(stats.jitterMs ?? 0, Math.round(entry.jitter * 1000));
+          }
+          if (typeof entry.fractionLost === 'number') {
+            stats.packetLossPct = Math.max(stats.packetLossPct ?? 0, Math.round(entry.fractionLost * 1000) / 10);
+          }
+        }
+
+        if (entry.type === 'inbound-rtp' || entry.type === 'outbound-rtp') {
+          const isInbound = entry.type === 'inbound-rtp';
+          const snapshot: CounterSnapshot = {
+            bytes: (isInbound ? entry.bytesReceived : entry.bytesSent) ?? 0,
+            packetsLost: entry.packetsLost ?? 0,
+            packetsReceived: entry.packetsReceived ?? 0,
+            timestamp: entry.timestamp,
+          };
+          const key = `${participant.identity}:${entry.id}`;
+          const previous = this.counters.get(key);
+          this.counters.set(key, snapshot);
+
+          if (entry.codecId && codecNames.has(entry.codecId)) {
+            codecs.add(codecNames.get(entry.codecId)!);
+          }
+
+          if (isInbound && typeof entry.jitter === 'number') {
+            stats.jitterMs = Math.max(stats.jitterMs ?? 0, Math.round(entry.jitter * 1000));
+          }
+
+          if (!previous || snapshot.timestamp <= previous.timestamp) return;
+
+          const seconds = (snapshot.timestamp - previous.timestamp) / 1000;
+          totalKbps += ((snapshot.bytes - previous.bytes) * 8) / 1000 / seconds;
+          hasBitrate = true;
+
+          if (isInbound) {
+            const lost = snapshot.packetsLost - previous.packetsLost;
+            const received = snapshot.packetsReceived - previous.packetsReceived;
+            if (lost + received > 0) {
+              const lossPct = Math.round((Math.max(lost, 0) / (lost + received)) * 1000) / 10;
+              stats.packetLossPct = Math.max(stats.packetLossPct ?? 0, lossPct);
+            }
+          }
+        }
+      });
+    }
+
+    stats.codecs = Array.from(codecs);
+    stats.bitrateKbps = hasBitrate ? Math.round(totalKbps) : null;
+    return stats;
+  }
+
+  private accumulate(stats: ParticipantNetworkStats): void {
+    let acc = this.accumulators.get(stats.identity);
+    if (!acc) {
+      acc = {
+        samples: 0,
+        rtt: [],
+        jitter: [],
+        loss: [],
+        bitrate: [],
+        codecs: new Set(),
+        qualityCounts: emptyQualityCounts(),
+      };
+      this.accumulators.set(stats.identity, acc);
+    }
+
+    acc.samples++;
+    acc.qualityCounts[stats.quality]++;
+    if (stats.rttMs !== null) acc.rtt.push(stats.rttMs);
+    if (stats.jitterMs !== null) acc.jitter.push(stats.jitterMs);
+    if (stats.packetLossPct !== null) acc.loss.push(stats.packetLossPct);
+    if (stats.bitrateKbps !== null) acc.bitrate.push(stats.bitrateKbps);
+    stats.codecs.forEach(codec => acc!.codecs.add(codec));
+  }
+}
@@ -0,0 +1,238 @@
+import { Room, RoomEvent, Track, Participant, TrackPublication } from 'livekit-client';
+
+export interface CallRecorderOptions {
+  includeVideo?: boolean;
+}
+
+export interface CallRecording {
+  blob: Blob;
+  mimeType: string;
+  durationSeconds: number;
+  startedAt: Date;
+  includesVideo: boolean;
+}
+
+const AUDIO_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/webm'];
+const VIDEO_MIME_TYPES = ['video/webm;codecs=vp8,opus', 'video/webm;codecs=vp9,opus', 'video/webm'];
+const VIDEO_WIDTH = 1280;
+const VIDEO_HEIGHT = 720;
+const VIDEO_FPS = 30;
+const ACTIVE_VIDEO_CHECK_MS = 1000;
+
+function pickMimeType(candidates: string[]): string | null {
+  return candidates.find(type => MediaRecorder.isTypeSupported(type)) || null;
+}
+
+// Records the whole call on this device: every local and remote audio track is mixed into a
+// single stream, and the "active" video (a screen share, else a remote camera, else our own
+// camera) is drawn onto a canvas so MediaRecorder never sees its video track change.
+export class CallRecorder {
+  private room: Room;
+  private includeVideo: boolean;
+  private audioContext: AudioContext | null = null;
+  private destination: MediaStreamAudioDestinationNode | null = null;
+  private audioSources = new Map<string, MediaStreamAudioSourceNode>();
+  private recorder: MediaRecorder | null = null;
+  private chunks: Blob[] = [];
+  private startedAt: Date | null = null;
+  private mimeType = '';
+
+  private canvas: HTMLCanvasElement | null = null;
+  private canvasTrack: MediaStreamTrack | null = null;
+  private videoElement: HTMLVideoElement | null = null;
+  private activeVideoTrackId: string | null = null;
+  private drawTimer: ReturnType<typeof setInterval> | null = null;
+  private videoCheckTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(room: Room, options: CallRecorderOptions = {}) {
+    this.room = room;
+    this.includeVideo = options.includeVideo ?? false;
+  }
+
+  static isSupported(): boolean {
+    return typeof MediaRecorder !== 'undefined' && pickMimeType(AUDIO_MIME_TYPES) !== null;
+  }
+
+  async start(): Promise<void> {
+    if (this.recorder) {
+      throw new Error('Recording already in progress');
+    }
+
+    const mimeType = pickMimeType(this.includeVideo ? VIDEO_MIME_TYPES : AUDIO_MIME_TYPES);
+    if (!mimeType) {
+      throw new Error('This browser cannot record WebM');
+    }
+    this.mimeType = mimeType;
+
+    this.audioContext = new AudioContext();
+    await this.audioContext.resume();
+    this.destination = this.audioContext.createMediaStreamDestination();
+    this.syncAudioSources();
+
+    this.room.on(RoomEvent.TrackSubscribed, this.syncAudioSources);
+    this.room.on(RoomEvent.TrackUnsubscribed, this.syncAudioSources);
+    this.room.on(RoomEvent.LocalTrackPublished, this.syncAudioSources);
+    this.room.on(RoomEvent.LocalTrackUnpublished, this.syncAudioSources);
+
+    const stream = new MediaStream(this.destination.stream.getAudioTracks());
+    if (this.includeVideo) {
+      stream.addTrack(this.startVideoCompositor());
+    }
+
+    this.chunks = [];
+    this.recorder = new MediaRecorder(stream, { mimeType });
+    this.recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) {
+        this.chunks.push(event.data);
+      }
+    };
+    this.recorder.start(1000);
+    this.startedAt = new Date();
+
+    console.log('⏺️ [CallRecorder] Recording started', { mimeType, includeVideo: this.includeVideo });
+  }
+
+  stop(): Promise<CallRecording> {
+    const recorder = this.recorder;
+    if (!recorder || !this.startedAt) {
+      return Promise.reject(new Error('Recording not started'));
+    }
+
+    const startedAt = this.startedAt;
+
+    return new Promise((resolve) => {
+      recorder.onstop = () => {
+        const blob = new Blob(this.chunks, { type: this.mimeType.split(';')[0] });
+        const durationSeconds = Math.round((Date.now() - startedAt.getTime()) / 1000);
+        console.log('⏹️ [CallRecorder] Recording stopped', { size: blob.size, durationSeconds });
+
+        this.chunks = [];
+        this.teardown();
+        resolve({ blob, mimeType: this.mimeType, durationSeconds, startedAt, includesVideo: this.includeVideo });
+      };
+      recorder.stop();
+    });
+  }
+
+  isRecording(): boolean {
+    return this.recorder !== null && this.recorder.state === 'recording';
+  }
+
+  getElapsedSeconds(): number {
+    return this.startedAt ? Math.floor((Date.now() - this.startedAt.getTime()) / 1000) : 0;
+  }
+
+  private getAudioPublications(): TrackPublication[] {
+    const participants: Participant[] = [this.room.localParticipant, ...this.room.remoteParticipants.values()];
+    return participants.flatMap(participant =>
+      Array.from(participant.audioTrackPublications.values()).filter(publication => publication.track)
+    );
+  }
+
+  private syncAudioSources = () => {
+    if (!this.audioContext || !this.destination) return;
+
+    const current = new Set<string>();
+    for (const publication of this.getAudioPublications()) {
+      const mediaStreamTrack = publication.track!.mediaStreamTrack;
+      current.add(publication.trackSid);
+      if (this.audioSources.has(publication.trackSid)) continue;
+
+      const source = this.audioContext.createMediaStreamSource(new MediaStream([mediaStreamTrack]));
+      source.connect(this.destination);
+      this.audioSources.set(publication.trackSid, source);
+    }
+
+    this.audioSources.forEach((source, trackSid) => {
+      if (!current.has(trackSid)) {
+        source.disconnect();
+        this.audioSources.delete(trackSid);
+      }
+    });
+  };
+
+  private findActiveVideoTrack(): MediaStreamTrack | null {
+    const remotes = Array.from(this.room.remoteParticipants.values());
+    const local = this.room.localParticipant;
+
+    const candidates = [
+      ...remotes.map(p => p.getTrackPublication(Track.Source.ScreenShare)),
+      local.getTrackPublication(Track.Source.ScreenShare),
+      ...remotes.map(p => p.getTrackPublication(Track.Source.Camera)),
+      local.getTrackPublication(Track.Source.Camera),
+    ];
+
+    const publication = candidates.find(pub => pub?.track && !pub.isMuted);
+    return publication?.track?.mediaStreamTrack || null;
+  }
+
+  private startVideoCompositor(): MediaStreamTrack {
+    this.canvas = document.createElement('canvas');
+    this.canvas.width = VIDEO_WIDTH;
+    this.canvas.height = VIDEO_HEIGHT;
+    const context = this.canvas.getContext('2d')!;
+
+    this.videoElement = document.createElement('video');
+    this.videoElement.muted = true;
+    this.videoElement.playsInline = true;
+
+    const updateActiveVideo = () => {
+      const track = this.findActiveVideoTrack();
+      if ((track?.id || null) === this.activeVideoTrackId || !this.videoElement) return;
+
+      this.activeVideoTrackId = track?.id || null;
+      this.videoElement.srcObject = track ? new MediaStream([track]) : null;
+      if (track) {
+        this.videoElement.play().catch(error => console.warn('[CallRecorder] Video playback failed:', error));
+      }
+    };
+
+    updateActiveVideo();
+    this.videoCheckTimer = setInterval(updateActiveVideo, ACTIVE_VIDEO_CHECK_MS);
+
+    // A timer rather than requestAnimationFrame so recording continues in a background tab
+    this.drawTimer = setInterval(() => {
+      const video = this.videoElement;
+      context.fillStyle = '#0f172a';
+      context.fillRect(0, 0, VIDEO_WIDTH, VIDEO_HEIGHT);
+      if (!video || !this.activeVideoTrackId || video.videoWidth === 0) return;
+
+      const scale = Math.min(VIDEO_WIDTH / video.videoWidth, VIDEO_HEIGHT / video.videoHeight);
+      const width = video.videoWidth * scale;
+      const height = video.videoHeight * scale;
+      context.drawImage(video, (VIDEO_WIDTH - width) / 2, (VIDEO_HEIGHT - height) / 2, width, height);
+    }, 1000 / VIDEO_FPS);
+
+    this.canvasTrack = this.canvas.captureStream(VIDEO_FPS).getVideoTracks()[0];
+    return this.canvasTrack;
+  }
+
+  private teardown(): void {
+    this.room.off(RoomEvent.TrackSubscribed, this.syncAudioSources);
+    this.room.off(RoomEvent.TrackUnsubscribed, this.syncAudioSources);
+    this.room.off(RoomEvent.LocalTrackPublished, this.syncAudioSources);
+    this.room.off(RoomEvent.LocalTrackUnpublished, this.syncAudioSources);
+
+    if (this.drawTimer) clearInterval(this.drawTimer);
+    if (this.videoCheckTimer) clearInterval(this.videoCheckTimer);
+    this.drawTimer = null;
+    this.videoCheckTimer = null;
+
+    this.canvasTrack?.stop();
+    this.canvasTrack = null;
+    if (this.videoElement) {
+      this.videoElement.srcObject = null;
+    }
+    this.canvas = null;
+    this.videoElement = null;
+    this.activeVideoTrackId = null;
+
+    this.audioSources.forEach(source => source.disconnect());
+    this.audioSources.clear();
+    this.audioContext?.close();
+    this.audioContext = null;
+    this.destination = null;
+    this.recorder = null;
+    this.startedAt = null;
+  }
+}
@@ -0,0 +1,251 @@
+import { CallInvitationService } from './CallInvitationService';
+import { DialService, TransferResponse, TransferTarget } from './DialService';
+import { LiveKitClient } from './LiveKitClient';
+import { TypedEventEmitter } from './TypedEventEmitter';
+
+export type TransferMode = 'blind' | 'attended';
+
+// transferring: waiting on the transfer function; waiting: a web user has been invited and
+// has yet to join; consulting: talking privately to the target before handing the call over
+export type TransferPhase = 'transferring' | 'waiting' | 'consulting';
+
+export interface TransferProgress {
+  mode: TransferMode;
+  phase: TransferPhase;
+  target: TransferTarget;
+  targetName: string;
+  // Attended transfers only: the target has picked up the consult call
+  isConsultAnswered: boolean;
+}
+
+export interface TransferResult {
+  mode: TransferMode;
+  target: TransferTarget;
+  targetName: string;
+  transferCallId: string;
+}
+
+export interface CallTransferContext {
+  // Client for the room the PSTN leg is in
+  client: LiveKitClient;
+  sipParticipantId: string;
+  transferredBy: string;
+  transferredByName?: string;
+  invitations: CallInvitationService | null;
+  // Joins a separate room for the consult call and publishes the microphone there
+  connectConsultRoom: (roomName: string) => Promise<LiveKitClient>;
+}
+
+interface CallTransferEvents {
+  'progress-changed': (progress: TransferProgress | null) => void;
+  'completed': (result: TransferResult) => void;
+  'failed': (message: string) => void;
+}
+
+// How long a web user has to answer before the caller is taken off hold again
+const ANSWER_TIMEOUT_MS = 60_000;
+
+// Hands the PSTN leg of a call to someone else. The caller is put on hold for the whole
+// transfer. Blind transfers go straight to the target. Attended transfers first call the
+// target from a separate consult room, so the caller hears hold music rather than the
+// consultation. LiveKit cannot REFER with Replaces, so completing an attended transfer ends
+// the consult call and refers the caller to the same number the target just agreed on.
+export class CallTransfer {
+  private context: CallTransferContext;
+  private dialService: DialService;
+  private progress: TransferProgress | null = null;
+  private consultClient: LiveKitClient | null = null;
+  private consultSipParticipantId: string | null = null;
+  private invitationId: string | null = null;
+  private answerTimer: ReturnType<typeof setTimeout> | null = null;
+  private cleanups: (() => void)[] = [];
+  private events = new TypedEventEmitter<CallTransferEvents>();
+
+  constructor(dialService: DialService, context: CallTransferContext) {
+    this.dialService = dialService;
+    this.context = context;
+  }
+
+  on<E extends keyof CallTransferEvents>(event: E, handler: CallTransferEvents[E]): () => void {
+    return this.events.on(event, handler);
+  }
+
+  getProgress(): TransferProgress | null {
+    return this.progress;
+  }
+
+  getInvitationId(): string | null {
+    return this.invitationId;
+  }
+
+  async blind(target: TransferTarget, targetName: string): Promise<void> {
+    if (this.progress) return;
+
+    this.setProgress({ mode: 'blind', phase: 'transferring', target, targetName, isConsultAnswered: false });
+    await this.context.client.hold();
+    await this.handOver();
+  }
+
+  async consult(phoneNumber: string, targetName: string): Promise<void> {
+    if (this.progress) return;
+
+    const target: TransferTarget = { type: 'phone', phoneNumber };
+    this.setProgress({ mode: 'attended', phase: 'consulting', target, targetName, isConsultAnswered: false });
+    await this.context.client.hold();
+
+    try {
+      const consultRoomName = `${this.context.client.getRoom().name}-consult-${Date.now()}`;
+      this.consultClient = await this.context.connectConsultRoom(consultRoomName);
+
+      this.cleanups.push(
+        this.consultClient.on('sip-audio-connected', () => this.updateProgress({ isConsultAnswered: true })),
+        this.consultClient.on('participant-left', (identity) => {
+          if (identity === this.consultSipParticipantId) {
+            void this.fail(`${targetName} hung up`);
+          }
+        })
+      );
+
+      const consultLeg = await this.dialService.dialContact(phoneNumber, targetName, consultRoomName);
+      this.consultSipParticipantId = consultLeg.sipParticipantId;
+    } catch (error) {
+      console.error('❌ Failed to start consult call:', error);
+      await this.fail('Could not call ' + targetName + ': ' + (error instanceof Error ? error.message : 'Unknown error'));
+    }
+  }
+
+  // Attended transfers only: hands the caller over once the target has agreed
+  async complete(): Promise<void> {
+    if (this.progress?.phase !== 'consulting') return;
+
+    this.updateProgress({ phase: 'transferring' });
+    await this.endConsult();
+    await this.handOver();
+  }
+
+  // Abandons the transfer and takes the caller off hold
+  async cancel(): Promise<void> {
+    if (!this.progress) return;
+
+    await this.cancelInvitation();
+    await this.reset();
+    await this.context.client.resume();
+  }
+
+  // Called with status changes of the invitation sent to a web user
+  handleInvitationEnded(status: string): void {
+    if (this.progress?.phase !== 'waiting') return;
+    void this.fail(`${this.progress.targetName} ${status === 'rejected' ? 'declined the call' : 'did not answer'}`);
+  }
+
+  destroy(): void {
+    void this.reset();
+    this.events.removeAllListeners();
+  }
+
+  private async handOver(): Promise<void> {
+    const progress = this.progress;
+    if (!progress) return;
+
+    let response: TransferResponse;
+    try {
+      response = await this.dialService.transferCall({
+        roomName: this.context.client.getRoom().name,
+        sipParticipantId: this.context.sipParticipantId,
+        target: progress.target,
+        transferredBy: this.context.transferredBy,
+        transferredByName: this.context.transferredByName,
+      });
+    } catch (error) {
+      console.error('❌ Transfer request failed:', error);
+      await this.fail('Transfer failed: ' + (error instanceof Error ? error.message : 'Unknown error'));
+      return;
+    }
+
+    if (response.status === 'pending' && progress.target.type === 'user') {
+      this.waitForUser(progress.target.userId, response);
+      return;
+    }
+
+    this.finish(response.transferCallId);
+  }
+
+  private waitForUser(userId: string, response: TransferResponse): void {
+    this.invitationId = response.invitationId ?? null;
+    this.updateProgress({ phase: 'waiting' });
+
+    this.cleanups.push(
+      this.context.client.on('participant-joined', (identity) => {
+        if (identity === userId) {
+          this.finish(response.transferCallId);
+        }
+      })
+    );
+    this.answerTimer = setTimeout(() => {
+      this.answerTimer = null;
+      void this.cancelInvitation().then(() => this.fail(`${this.progress?.targetName} did not answer`));
+    }, ANSWER_TIMEOUT_MS);
+  }
+
+  private async cancelInvitation(): Promise<void> {
+    if (!this.invitationId) return;
+    await this.context.invitations?.cancelCall(this.invitationId)
+      .catch(error => console.error('❌ Failed to cancel transfer invitation:', error));
+  }
+
+  private finish(transferCallId: string): void {
+    const progress = this.progress;
+    if (!progress) return;
+
+    void this.reset();
+    this.events.emit('completed', {
+      mode: progress.mode,
+      target: progress.target,
+      targetName: progress.targetName,
+      transferCallId,
+    });
+  }
+
+  private async fail(message: string): Promise<void> {
+    if (!this.progress) return;
+
+    await this.reset();
+    await this.context.client.resume();
+    this.events.emit('failed', message);
+  }
+
+  private async endConsult(): Promise<void> {
+    const consultClient = this.consultClient;
+    const sipParticipantId = this.consultSipParticipantId;
+    this.consultClient = null;
+    this.consultSipParticipantId = null;
+
+    if (sipParticipantId) {
+      await this.dialService.hangupCall(sipParticipantId)
+        .catch(error => console.error('❌ Failed to hang up consult call:', error));
+    }
+    consultClient?.disconnect();
+  }
+
+  private async reset(): Promise<void> {
+    if (this.answerTimer) {
+      clearTimeout(this.answerTimer);
+      this.answerTimer = null;
+    }
+    this.cleanups.forEach(cleanup => cleanup());
+    this.cleanups = [];
+    this.invitationId = null;
+    this.setProgress(null);
+    await this.endConsult();
+  }
+
+  private updateProgress(changes: Partial<TransferProgress>): void {
+    if (!this.progress) return;
+    this.setProgress({ ...this.progress, ...changes });
+  }
+
+  private setProgress(progress: TransferProgress | null): void {
+    this.progress = progress;
+    this.events.emit('progress-changed', progress);
+  }
+}
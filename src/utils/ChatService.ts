@@ -0,0 +1,214 @@
+import { supabase } from './supabase';
+import { LiveKitClient } from './LiveKitClient';
+import { ChatMessage } from './DataProtocol';
+import { TypedEventEmitter } from './TypedEventEmitter';
+
+export type ChatDeliveryStatus = 'sending' | 'sent' | 'delivered' | 'failed';
+
+export interface ChatEntry {
+  id: string;
+  text: string;
+  senderIdentity: string;
+  timestamp: number;
+  isLocal: boolean;
+  status: ChatDeliveryStatus;
+  deliveredTo: string[];
+}
+
+interface ChatServiceEvents {
+  'messages-changed': (messages: ChatEntry[]) => void;
+  'message-received': (message: ChatEntry) => void;
+}
+
+interface ChatMessageRow {
+  id: string;
+  sender_user_id: string;
+  body: string;
+  sent_at: string;
+}
+
+export const MAX_CHAT_MESSAGE_LENGTH = 4000;
+
+export async function fetchChatMessages(sessionId: string, currentUserId?: string): Promise<ChatEntry[]> {
+  const { data, error } = await supabase
+    .from('call_chat_messages')
+    .select('id, sender_user_id, body, sent_at')
+    .eq('session_id', sessionId)
+    .order('sent_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching chat messages:', error);
+    throw error;
+  }
+
+  return ((data || []) as ChatMessageRow[]).map(row => ({
+    id: row.id,
+    text: row.body,
+    senderIdentity: row.sender_user_id,
+    timestamp: new Date(row.sent_at).getTime(),
+    isLocal: row.sender_user_id === currentUserId,
+    status: 'delivered',
+    deliveredTo: [],
+  }));
+}
+
+export class ChatService {
+  private client: LiveKitClient;
+  private sessionId: string | null;
+  private localIdentity: string;
+  private messages: ChatEntry[] = [];
+  private unsaved: ChatEntry[] = [];
+  private events = new TypedEventEmitter<ChatServiceEvents>();
+  private unsubscribers: (() => void)[] = [];
+
+  constructor(client: LiveKitClient, localIdentity: string, sessionId: string | null) {
+    this.client = client;
+    this.localIdentity = localIdentity;
+    this.sessionId = sessionId;
+  }
+
+  on<E extends keyof ChatServiceEvents>(event: E, handler: ChatServiceEvents[E]): () => void {
+    return this.events.on(event, handler);
+  }
+
+  start(): void {
+    this.unsubscribers.push(
+      this.client.onMessage('chat', (message, senderIdentity) => this.handleIncoming(message, senderIdentity)),
+      this.client.onMessage('chat-ack', (message, senderIdentity) => {
+        if (senderIdentity) {
+          this.markDelivered(message.id, senderIdentity);
+        }
+      })
+    );
+  }
+
+  stop(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+    this.events.removeAllListeners();
+  }
+
+  // The session id is only known once the callee accepts, after the chat may already be open,
+  // so messages sent before then are kept and stored here
+  setSessionId(sessionId: string | null): void {
+    this.sessionId = sessionId;
+    if (sessionId && this.unsaved.length > 0) {
+      const pending = this.unsaved;
+      this.unsaved = [];
+      this.persist(pending);
+    }
+  }
+
+  getMessages(): ChatEntry[] {
+    return this.messages;
+  }
+
+  async send(text: string): Promise<void> {
+    const trimmed = text.trim();
+    if (!trimmed) return;
+    if (trimmed.length > MAX_CHAT_MESSAGE_LENGTH) {
+      throw new Error(`Messages are limited to ${MAX_CHAT_MESSAGE_LENGTH} characters`);
+    }
+
+    const entry: ChatEntry = {
+      id: crypto.randomUUID(),
+      text: trimmed,
+      senderIdentity: this.localIdentity,
+      timestamp: Date.now(),
+      isLocal: true,
+      status: 'sending',
+      deliveredTo: [],
+    };
+    this.upsert(entry);
+
+    try {
+      await this.client.sendData({
+        event: 'chat',
+        id: entry.id,
+        text: entry.text,
+        senderIdentity: entry.senderIdentity,
+        timestamp: entry.timestamp,
+      });
+      this.update(entry.id, current => (current.status === 'sending' ? { ...current, status: 'sent' } : current));
+    } catch (error) {
+      console.error('Failed to send chat message:', error);
+      this.update(entry.id, current => ({ ...current, status: 'failed' }));
+      return;
+    }
+
+    if (this.sessionId) {
+      await this.persist([entry]);
+    } else {
+      this.unsaved.push(entry);
+    }
+  }
+
+  async retry(id: string): Promise<void> {
+    const entry = this.messages.find(message => message.id === id);
+    if (!entry || entry.status !== 'failed') return;
+
+    this.messages = this.messages.filter(message => message.id !== id);
+    await this.send(entry.text);
+  }
+
+  private handleIncoming(message: ChatMessage, senderIdentity?: string): void {
+    // The transport identity is authoritative; a mismatching claimed sender is dropped
+    if (!senderIdentity || senderIdentity !== message.senderIdentity) {
+      console.warn('⚠️ Ignoring chat message with mismatched sender', senderIdentity, message.senderIdentity);
+      return;
+    }
+
+    if (!this.messages.some(existing => existing.id === message.id)) {
+      const entry: ChatEntry = {
+        id: message.id,
+        text: message.text,
+        senderIdentity,
+        timestamp: message.timestamp,
+        isLocal: false,
+        status: 'delivered',
+        deliveredTo: [this.localIdentity],
+      };
+      this.upsert(entry);
+      this.events.emit('message-received', entry);
+    }
+
+    // Acknowledge duplicates too, in case the sender missed our first ack
+    this.client.sendData({ event: 'chat-ack', id: message.id }, [senderIdentity])
+      .catch(error => console.warn('Failed to acknowledge chat message:', error));
+  }
+
+  private markDelivered(id: string, recipientIdentity: string): void {
+    this.update(id, current => current.deliveredTo.includes(recipientIdentity)
+      ? current
+      : { ...current, status: 'delivered', deliveredTo: [...current.deliveredTo, recipientIdentity] });
+  }
+
+  private async persist(entries: ChatEntry[]): Promise<void> {
+    if (!this.sessionId) return;
+
+    const sessionId = this.sessionId;
+    const { error } = await supabase
+      .from('call_chat_messages')
+      .insert(entries.map(entry => ({
+        id: entry.id,
+        session_id: sessionId,
+        sender_user_id: entry.senderIdentity,
+        body: entry.text,
+        sent_at: new Date(entry.timestamp).toISOString(),
+      })));
+
+    if (error) {
+      console.error('Error storing chat message:', error);
+    }
+  }
+
+  private upsert(entry: ChatEntry): void {
+    this.messages = [...this.messages, entry].sort((a, b) => a.timestamp - b.timestamp);
+    this.events.emit('messages-changed', this.messages);
+  }
+
+  private update(id: string, updater: (entry: ChatEntry) => ChatEntry): void {
+    this.messages = this.messages.map(message => (message.id === id ? updater(message) : message));
+    this.events.emit('messages-changed', this.messages);
+  }
+}
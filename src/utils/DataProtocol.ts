@@ -0,0 +1,357 @@
+// Shared message protocol for the LiveKit data channel and the voice-assistant WebSocket.
+// Every outgoing message is stamped with PROTOCOL_VERSION. Incoming messages without a
+// version are treated as version 1 so media workers that predate versioning keep working.
+export const PROTOCOL_VERSION = 1;
+
+export type CallStatus =
+  | 'queued'
+  | 'initiated'
+  | 'ringing'
+  | 'in-progress'
+  | 'answered'
+  | 'completed'
+  | 'failed'
+  | 'busy'
+  | 'no-answer'
+  | 'canceled'
+  | 'transferred';
+
+const CALL_STATUSES: readonly CallStatus[] = [
+  'queued',
+  'initiated',
+  'ringing',
+  'in-progress',
+  'answered',
+  'completed',
+  'failed',
+  'busy',
+  'no-answer',
+  'canceled',
+  'transferred',
+];
+
+// A reconnecting voice-assistant client sends the sessionId from the earlier ready message so
+// the server resumes that session instead of starting a new one
+export interface StartMessage {
+  event: 'start';
+  callId: string;
+  metadata: Record<string, unknown>;
+  sessionId?: string;
+}
+
+export interface StopMessage {
+  event: 'stop';
+}
+
+export interface ReadyMessage {
+  event: 'ready';
+  sessionId?: string;
+}
+
+export interface ErrorMessage {
+  event: 'error';
+  message?: string;
+}
+
+export interface CallStatusEvent {
+  event: 'call-status';
+  status: CallStatus;
+  callId: string;
+  phoneNumber: string;
+  timestamp: number;
+  sipParticipantId?: string;
+}
+
+// Only `text` is required so older media workers keep working; a message without
+// `isFinal` is treated as a final segment and one without `speakerIdentity` is
+// attributed to the participant that sent it.
+export interface TranscriptMessage {
+  event: 'transcript';
+  text: string;
+  segmentId?: string;
+  isFinal?: boolean;
+  speakerIdentity?: string;
+  speakerName?: string;
+  timestamp?: number;
+}
+
+// sequenceNumber lets the WebSocket client's jitter buffer put reordered chunks back in order;
+// chunks without one are played in arrival order
+export interface AudioMessage {
+  event: 'audio';
+  audio: string;
+  sequenceNumber?: number;
+}
+
+export interface MediaMessage {
+  event: 'media';
+  audio: string;
+}
+
+// Voice-assistant WebSocket keepalive. The receiver answers a ping with a pong carrying the
+// same timestamp, so the sender can measure the round trip.
+export interface PingMessage {
+  event: 'ping';
+  timestamp: number;
+}
+
+export interface PongMessage {
+  event: 'pong';
+  timestamp: number;
+}
+
+// Sent by the admin-control edge function after it has applied the change through
+// LiveKit's RoomService. Clients ignore copies published by other participants.
+export type AdminControlMessage =
+  | {
+      event: 'admin-control';
+      action: 'mute-audio';
+      targetParticipant: string;
+      muted: boolean;
+    }
+  | {
+      event: 'admin-control';
+      action: 'toggle-video';
+      targetParticipant: string;
+      enabled: boolean;
+    }
+  | {
+      event: 'admin-control';
+      action: 'lower-hand';
+      targetParticipant: string;
+    };
+
+// Broadcast by a participant when they start or stop a local recording of the call
+export interface RecordingMessage {
+  event: 'recording';
+  action: 'started' | 'stopped';
+  includesVideo: boolean;
+}
+
+// Broadcast when a participant puts the call on hold or resumes it; resent to late joiners
+export interface HoldMessage {
+  event: 'hold';
+  action: 'hold' | 'resume';
+}
+
+// Broadcast when a participant raises or lowers their hand; a raised hand is resent to late
+// joiners. raisedAt orders the queue of raised hands the same way for everyone.
+export interface HandMessage {
+  event: 'hand';
+  action: 'raise' | 'lower';
+  raisedAt?: number;
+}
+
+// A one-off emoji reaction, shown briefly over the sender's tile
+export interface ReactionMessage {
+  event: 'reaction';
+  emoji: string;
+}
+
+// In-call chat. The receiver answers every chat message with a chat-ack carrying its id.
+export interface ChatMessage {
+  event: 'chat';
+  id: string;
+  text: string;
+  senderIdentity: string;
+  timestamp: number;
+}
+
+export interface ChatAckMessage {
+  event: 'chat-ack';
+  id: string;
+}
+
+export type ProtocolMessage =
+  | StartMessage
+  | StopMessage
+  | ReadyMessage
+  | ErrorMessage
+  | CallStatusEvent
+  | TranscriptMessage
+  | AudioMessage
+  | MediaMessage
+  | PingMessage
+  | PongMessage
+  | AdminControlMessage
+  | RecordingMessage
+  | HoldMessage
+  | HandMessage
+  | ReactionMessage
+  | ChatMessage
+  | ChatAckMessage;
+
+export type ProtocolEvent = ProtocolMessage['event'];
+
+export type MessageOf<E extends ProtocolEvent> = Extract<ProtocolMessage, { event: E }>;
+
+export type MessageHandler<E extends ProtocolEvent> = (message: MessageOf<E>, senderIdentity?: string) => void;
+
+export type ParseResult =
+  | { ok: true; message: ProtocolMessage; version: number }
+  | { ok: false; error: string };
+
+type Validator = (data: Record<string, unknown>) => string | null;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function requireString(data: Record<string, unknown>, field: string): string | null {
+  return typeof data[field] === 'string' ? null : `"${field}" must be a string`;
+}
+
+function optionalString(data: Record<string, unknown>, field: string): string | null {
+  return data[field] === undefined || typeof data[field] === 'string' ? null : `"${field}" must be a string`;
+}
+
+function optionalBoolean(data: Record<string, unknown>, field: string): string | null {
+  return data[field] === undefined || typeof data[field] === 'boolean' ? null : `"${field}" must be a boolean`;
+}
+
+function requireBoolean(data: Record<string, unknown>, field: string): string | null {
+  return typeof data[field] === 'boolean' ? null : `"${field}" must be a boolean`;
+}
+
+function firstError(...errors: (string | null)[]): string | null {
+  return errors.find(error => error !== null) ?? null;
+}
+
+const validators: Record<ProtocolEvent, Validator> = {
+  'start': (data) => firstError(
+    requireString(data, 'callId'),
+    data.metadata === undefined || isRecord(data.metadata) ? null : '"metadata" must be an object',
+    optionalString(data, 'sessionId')
+  ),
+  'stop': () => null,
+  'ready': (data) => optionalString(data, 'sessionId'),
+  'error': (data) => optionalString(data, 'message'),
+  'call-status': (data) => firstError(
+    CALL_STATUSES.includes(data.status as CallStatus) ? null : `unknown call status "${String(data.status)}"`,
+    requireString(data, 'callId'),
+    requireString(data, 'phoneNumber'),
+    typeof data.timestamp === 'number' ? null : '"timestamp" must be a number',
+    optionalString(data, 'sipParticipantId')
+  ),
+  'transcript': (data) => firstError(
+    requireString(data, 'text'),
+    optionalString(data, 'segmentId'),
+    optionalBoolean(data, 'isFinal'),
+    optionalString(data, 'speakerIdentity'),
+    optionalString(data, 'speakerName'),
+    data.timestamp === undefined || typeof data.timestamp === 'number' ? null : '"timestamp" must be a number'
+  ),
+  'audio': (data) => firstError(
+    requireString(data, 'audio'),
+    data.sequenceNumber === undefined || Number.isInteger(data.sequenceNumber) ? null : '"sequenceNumber" must be an integer'
+  ),
+  'media': (data) => requireString(data, 'audio'),
+  'ping': (data) => typeof data.timestamp === 'number' ? null : '"timestamp" must be a number',
+  'pong': (data) => typeof data.timestamp === 'number' ? null : '"timestamp" must be a number',
+  'admin-control': (data) => {
+    const targetError = requireString(data, 'targetParticipant');
+    if (targetError) return targetError;
+    if (data.action === 'mute-audio') return requireBoolean(data, 'muted');
+    if (data.action === 'toggle-video') return requireBoolean(data, 'enabled');
+    if (data.action === 'lower-hand') return null;
+    return `unknown admin action "${String(data.action)}"`;
+  },
+  'recording': (data) => firstError(
+    data.action === 'started' || data.action === 'stopped' ? null : `unknown recording action "${String(data.action)}"`,
+    requireBoolean(data, 'includesVideo')
+  ),
+  'hold': (data) => data.action === 'hold' || data.action === 'resume' ? null : `unknown hold action "${String(data.action)}"`,
+  'hand': (data) => firstError(
+    data.action === 'raise' || data.action === 'lower' ? null : `unknown hand action "${String(data.action)}"`,
+    data.raisedAt === undefined || typeof data.raisedAt === 'number' ? null : '"raisedAt" must be a number'
+  ),
+  'reaction': (data) => firstError(
+    requireString(data, 'emoji'),
+    typeof data.emoji === 'string' && data.emoji.length > 16 ? '"emoji" is too long' : null
+  ),
+  'chat': (data) => firstError(
+    requireString(data, 'id'),
+    requireString(data, 'text'),
+    requireString(data, 'senderIdentity'),
+    typeof data.timestamp === 'number' ? null : '"timestamp" must be a number'
+  ),
+  'chat-ack': (data) => requireString(data, 'id'),
+};
+
+export function isCallStatus(value: unknown): value is CallStatus {
+  return CALL_STATUSES.includes(value as CallStatus);
+}
+
+export function parseMessage(text: string): ParseResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { ok: false, error: 'payload is not valid JSON' };
+  }
+
+  if (!isRecord(data)) {
+    return { ok: false, error: 'payload is not an object' };
+  }
+
+  const version = data.version === undefined ? 1 : data.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    return { ok: false, error: `invalid protocol version "${String(data.version)}"` };
+  }
+  if (version > PROTOCOL_VERSION) {
+    return { ok: false, error: `unsupported protocol version ${version} (supported: ${PROTOCOL_VERSION})` };
+  }
+
+  if (typeof data.event !== 'string' || !Object.prototype.hasOwnProperty.call(validators, data.event)) {
+    return { ok: false, error: `unknown event "${String(data.event)}"` };
+  }
+
+  const error = validators[data.event as ProtocolEvent](data);
+  if (error) {
+    return { ok: false, error: `invalid ${data.event} message: ${error}` };
+  }
+
+  const message: Record<string, unknown> = { ...data };
+  delete message.version;
+  if (message.event === 'start' && message.metadata === undefined) {
+    message.metadata = {};
+  }
+
+  return { ok: true, message: message as unknown as ProtocolMessage, version };
+}
+
+export function encodeMessage(message: ProtocolMessage): string {
+  return JSON.stringify({ version: PROTOCOL_VERSION, ...message });
+}
+
+export class MessageDispatcher {
+  private handlers = new Map<ProtocolEvent, Set<(message: ProtocolMessage, senderIdentity?: string) => void>>();
+
+  subscribe<E extends ProtocolEvent>(event: E, handler: MessageHandler<E>): () => void {
+    const wrapped = handler as (message: ProtocolMessage, senderIdentity?: string) => void;
+    let handlers = this.handlers.get(event);
+    if (!handlers) {
+      handlers = new Set();
+      this.handlers.set(event, handlers);
+    }
+    handlers.add(wrapped);
+
+    return () => {
+      this.handlers.get(event)?.delete(wrapped);
+    };
+  }
+
+  dispatch(message: ProtocolMessage, senderIdentity?: string): void {
+    this.handlers.get(message.event)?.forEach(handler => {
+      try {
+        handler(message, senderIdentity);
+      } catch (error) {
+        console.error(`❌ Error in ${message.event} handler:`, error);
+      }
+    });
+  }
+
+  clear(): void {
+    this.handlers.clear();
+  }
+}
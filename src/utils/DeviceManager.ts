@@ -0,0 +1,150 @@
+import { TypedEventEmitter } from './TypedEventEmitter';
+
+export type DeviceKind = 'audioinput' | 'videoinput' | 'audiooutput';
+
+export interface DevicePreferences {
+  audioinput?: string;
+  videoinput?: string;
+  audiooutput?: string;
+}
+
+export interface DeviceLists {
+  audioinput: MediaDeviceInfo[];
+  videoinput: MediaDeviceInfo[];
+  audiooutput: MediaDeviceInfo[];
+}
+
+interface DeviceManagerEvents {
+  'devices-changed': (devices: DeviceLists) => void;
+  // Fired when a preferred device is unplugged or a new one is plugged in while
+  // following the system default, so the active track should be restarted
+  'device-switch-needed': (kind: DeviceKind, deviceId: string) => void;
+}
+
+const STORAGE_KEY_PREFIX = 'device_preferences_';
+
+export class DeviceManager {
+  private userId: string;
+  private preferences: DevicePreferences;
+  private devices: DeviceLists = { audioinput: [], videoinput: [], audiooutput: [] };
+  private events = new TypedEventEmitter<DeviceManagerEvents>();
+  private isWatching = false;
+
+  constructor(userId: string) {
+    this.userId = userId;
+    this.preferences = this.loadPreferences();
+  }
+
+  private loadPreferences(): DevicePreferences {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY_PREFIX + this.userId);
+      return stored ? JSON.parse(stored) : {};
+    } catch (error) {
+      console.warn('[DeviceManager] Failed to load device preferences:', error);
+      return {};
+    }
+  }
+
+  private savePreferences(): void {
+    localStorage.setItem(STORAGE_KEY_PREFIX + this.userId, JSON.stringify(this.preferences));
+  }
+
+  on<E extends keyof DeviceManagerEvents>(event: E, handler: DeviceManagerEvents[E]): () => void {
+    return this.events.on(event, handler);
+  }
+
+  async start(): Promise<DeviceLists> {
+    if (!this.isWatching && navigator.mediaDevices) {
+      navigator.mediaDevices.addEventListener('devicechange', this.handleDeviceChange);
+      this.isWatching = true;
+    }
+    return await this.refresh();
+  }
+
+  stop(): void {
+    if (this.isWatching) {
+      navigator.mediaDevices.removeEventListener('devicechange', this.handleDeviceChange);
+      this.isWatching = false;
+    }
+    this.events.removeAllListeners();
+  }
+
+  async refresh(): Promise<DeviceLists> {
+    if (!navigator.mediaDevices?.enumerateDevices) {
+      console.warn('[DeviceManager] Media device enumeration not supported');
+      return this.devices;
+    }
+
+    const all = await navigator.mediaDevices.enumerateDevices();
+    // Labels are empty until the user has granted media permission; skip those
+    // placeholder entries so the pickers only show real devices
+    const usable = all.filter(device => device.deviceId !== '');
+
+    this.devices = {
+      audioinput: usable.filter(device => device.kind === 'audioinput'),
+      videoinput: usable.filter(device => device.kind === 'videoinput'),
+      audiooutput: usable.filter(device => device.kind === 'audiooutput'),
+    };
+
+    return this.devices;
+  }
+
+  private handleDeviceChange = async () => {
+    const previous = this.devices;
+    const current = await this.refresh();
+    console.log('[DeviceManager] Devices changed:', {
+      audioinput: current.audioinput.length,
+      videoinput: current.videoinput.length,
+      audiooutput: current.audiooutput.length,
+    });
+
+    for (const kind of ['audioinput', 'videoinput', 'audiooutput'] as DeviceKind[]) {
+      const preferred = this.preferences[kind];
+      const available = current[kind].map(device => device.deviceId);
+
+      if (preferred && preferred !== 'default' && !available.includes(preferred)) {
+        console.log(`[DeviceManager] Preferred ${kind} was removed, falling back to default`);
+        this.events.emit('device-switch-needed', kind, 'default');
+        continue;
+      }
+
+      // Browsers keep capturing from the old physical device even after the OS
+      // default changes, so restart on "default" when a new device shows up
+      const added = current[kind].filter(
+        device => !previous[kind].some(old => old.deviceId === device.deviceId)
+      );
+      if ((!preferred || preferred === 'default') && added.length > 0) {
+        console.log(`[DeviceManager] New ${kind} connected:`, added.map(device => device.label));
+        this.events.emit('device-switch-needed', kind, 'default');
+      }
+    }
+
+    this.events.emit('devices-changed', current);
+  };
+
+  getDevices(): DeviceLists {
+    return this.devices;
+  }
+
+  getPreferences(): DevicePreferences {
+    return { ...this.preferences };
+  }
+
+  getPreferredDevice(kind: DeviceKind): string | undefined {
+    const preferred = this.preferences[kind];
+    if (!preferred) return undefined;
+
+    const isAvailable = this.devices[kind].length === 0
+      || this.devices[kind].some(device => device.deviceId === preferred);
+    return isAvailable ? preferred : undefined;
+  }
+
+  setPreferredDevice(kind: DeviceKind, deviceId: string): void {
+    this.preferences[kind] = deviceId;
+    this.savePreferences();
+  }
+
+  static supportsOutputSelection(): boolean {
+    return typeof HTMLMediaElement !== 'undefined' && 'setSinkId' in HTMLMediaElement.prototype;
+  }
+}
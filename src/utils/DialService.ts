@@ -1,3 +1,5 @@
+import { supabase } from './supabase';
+
 interface DialResponse {
   callId: string;
   status: string;
@@ -5,6 +7,26 @@ interface DialResponse {
   message: string;
 }
 
+export type TransferTarget =
+  | { type: 'phone'; phoneNumber: string }
+  | { type: 'user'; userId: string };
+
+export interface TransferRequest {
+  roomName: string;
+  sipParticipantId: string;
+  target: TransferTarget;
+  transferredBy: string;
+  transferredByName?: string;
+}
+
+export interface TransferResponse {
+  transferCallId: string;
+  // 'pending' while a web user has yet to answer; the PSTN leg is still in the room
+  status: 'transferred' | 'pending';
+  invitationId?: string;
+  message: string;
+}
+
 export class DialService {
   private baseUrl: string;
   private jwtToken: string;
@@ -53,4 +75,29 @@ export class DialService {
 
     return await response.json();
   }
+
+  // transfer-sip-call checks the line belongs to the signed-in user, so it gets their session token
+  async transferCall(request: TransferRequest): Promise<TransferResponse> {
+    const { data: sessionData } = await supabase.auth.getSession();
+    const accessToken = sessionData.session?.access_token;
+    if (!accessToken) {
+      throw new Error('You must be signed in to transfer a call');
+    }
+
+    const response = await fetch(`${this.baseUrl}/functions/v1/transfer-sip-call`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(request),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Transfer failed: ${response.status} ${errorText}`);
+    }
+
+    return await response.json();
+  }
 }
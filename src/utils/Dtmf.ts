@@ -0,0 +1,64 @@
+export const DTMF_KEYS = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '*', '0', '#'];
+
+// RFC 4733 event codes; A-D are valid but have no key on a phone keypad
+const DTMF_CODES: Record<string, number> = {
+  '0': 0, '1': 1, '2': 2, '3': 3, '4': 4, '5': 5, '6': 6, '7': 7, '8': 8, '9': 9,
+  '*': 10, '#': 11, 'A': 12, 'B': 13, 'C': 14, 'D': 15,
+};
+
+// Low (row) and high (column) frequencies of each key, in Hz
+const DTMF_FREQUENCIES: Record<string, [number, number]> = {
+  '1': [697, 1209], '2': [697, 1336], '3': [697, 1477], 'A': [697, 1633],
+  '4': [770, 1209], '5': [770, 1336], '6': [770, 1477], 'B': [770, 1633],
+  '7': [852, 1209], '8': [852, 1336], '9': [852, 1477], 'C': [852, 1633],
+  '*': [941, 1209], '0': [941, 1336], '#': [941, 1477], 'D': [941, 1633],
+};
+
+const TONE_DURATION_S = 0.15;
+const TONE_GAIN = 0.1;
+
+export function getDtmfCode(digit: string): number | null {
+  return DTMF_CODES[digit.toUpperCase()] ?? null;
+}
+
+// Plays the key's dual tone locally so pressing a key feels like a phone; the far end
+// receives the digit as a DTMF event, not as audio
+export class DtmfTonePlayer {
+  private context: AudioContext | null = null;
+
+  play(digit: string): void {
+    const frequencies = DTMF_FREQUENCIES[digit.toUpperCase()];
+    if (!frequencies) return;
+
+    try {
+      if (!this.context) {
+        this.context = new AudioContext();
+      }
+      const context = this.context;
+      if (context.state === 'suspended') {
+        void context.resume();
+      }
+
+      const gain = context.createGain();
+      gain.gain.setValueAtTime(TONE_GAIN, context.currentTime);
+      gain.gain.setTargetAtTime(0, context.currentTime + TONE_DURATION_S - 0.02, 0.01);
+      gain.connect(context.destination);
+
+      frequencies.forEach(frequency => {
+        const oscillator = context.createOscillator();
+        oscillator.frequency.value = frequency;
+        oscillator.connect(gain);
+        oscillator.start();
+        oscillator.stop(context.currentTime + TONE_DURATION_S);
+        oscillator.onended = () => oscillator.disconnect();
+      });
+    } catch (error) {
+      console.warn('⚠️ Failed to play DTMF tone:', error);
+    }
+  }
+
+  close(): void {
+    this.context?.close();
+    this.context = null;
+  }
+}
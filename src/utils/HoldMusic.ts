@@ -0,0 +1,101 @@
+// Optional recording to use instead of the built-in tune, e.g. '/audio/hold-music.mp3'
+const HOLD_MUSIC_URL = import.meta.env.VITE_HOLD_MUSIC_URL as string | undefined;
+
+// A slow I-vi-IV-V progression in C major, one chord every CHORD_SECONDS
+const CHORDS: number[][] = [
+  [261.63, 329.63, 392.0],
+  [220.0, 261.63, 329.63],
+  [174.61, 220.0, 261.63],
+  [196.0, 246.94, 293.66],
+];
+const CHORD_SECONDS = 2.4;
+const MUSIC_GAIN = 0.08;
+
+// Produces the audio the other side hears while we have them on hold, as a track that can
+// be published like a microphone. Uses VITE_HOLD_MUSIC_URL when set and playable.
+export class HoldMusic {
+  private context: AudioContext | null = null;
+  private destination: MediaStreamAudioDestinationNode | null = null;
+  private element: HTMLAudioElement | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  async start(context: AudioContext): Promise<MediaStreamTrack> {
+    this.stop();
+    this.context = context;
+    this.destination = context.createMediaStreamDestination();
+
+    const output = context.createGain();
+    output.gain.value = 1;
+    output.connect(this.destination);
+
+    const isAssetPlaying = HOLD_MUSIC_URL ? await this.playAsset(HOLD_MUSIC_URL, output) : false;
+    if (!isAssetPlaying) {
+      this.playTune(output);
+    }
+
+    return this.destination.stream.getAudioTracks()[0];
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    if (this.element) {
+      this.element.pause();
+      this.element.src = '';
+      this.element = null;
+    }
+    this.destination?.stream.getTracks().forEach(track => track.stop());
+    this.destination?.disconnect();
+    this.destination = null;
+    this.context = null;
+  }
+
+  private async playAsset(url: string, output: AudioNode): Promise<boolean> {
+    const element = new Audio(url);
+    element.crossOrigin = 'anonymous';
+    element.loop = true;
+
+    try {
+      this.context!.createMediaElementSource(element).connect(output);
+      await element.play();
+      this.element = element;
+      return true;
+    } catch (error) {
+      console.warn('⚠️ Hold music asset could not be played, using the built-in tune:', error);
+      element.pause();
+      return false;
+    }
+  }
+
+  private playTune(output: AudioNode): void {
+    let chordIndex = 0;
+
+    const playChord = () => {
+      const context = this.context;
+      if (!context) return;
+
+      const start = context.currentTime;
+      const gain = context.createGain();
+      gain.gain.setValueAtTime(0, start);
+      gain.gain.linearRampToValueAtTime(MUSIC_GAIN, start + 0.3);
+      gain.gain.linearRampToValueAtTime(0, start + CHORD_SECONDS);
+      gain.connect(output);
+
+      CHORDS[chordIndex % CHORDS.length].forEach(frequency => {
+        const oscillator = context.createOscillator();
+        oscillator.type = 'triangle';
+        oscillator.frequency.value = frequency;
+        oscillator.connect(gain);
+        oscillator.start(start);
+        oscillator.stop(start + CHORD_SECONDS);
+        oscillator.onended = () => oscillator.disconnect();
+      });
+      chordIndex++;
+    };
+
+    playChord();
+    this.timer = setInterval(playChord, CHORD_SECONDS * 1000);
+  }
+}
@@ -1,6 +1,7 @@
 import {
   Room,
   RoomEvent,
+  TrackEvent,
   RemoteTrackPublication,
   RemoteAudioTrack,
   RemoteTrack,
@@ -9,38 +10,205 @@ import {
   LocalVideoTrack,
   createLocalAudioTrack,
   createLocalVideoTrack,
+  createLocalScreenTracks,
+  LocalTrack,
   AudioCaptureOptions,
   VideoCaptureOptions,
   VideoPresets,
   DisconnectReason,
   RemoteParticipant,
+  ConnectionState,
+  ConnectionQuality,
+  TrackPublication,
+  Participant,
+  ParticipantKind,
+  ExternalE2EEKeyProvider,
 } from 'livekit-client';
+import {
+  AdminControlMessage,
+  CallStatusEvent,
+  MessageDispatcher,
+  MessageHandler,
+  ProtocolEvent,
+  ProtocolMessage,
+  RecordingMessage,
+  encodeMessage,
+  parseMessage,
+} from './DataProtocol';
+import { TypedEventEmitter } from './TypedEventEmitter';
+import { TranscriptSegment, toTranscriptSegment } from './TranscriptService';
+import {
+  DEFAULT_NOISE_SUPPRESSION_STRENGTH,
+  NoiseSuppressionProcessor,
+  NoiseSuppressionStats,
+} from './NoiseSuppressionProcessor';
+import { BackgroundEffect, BackgroundFallbackReason, BackgroundProcessor } from './BackgroundProcessor';
+import { AudioOutputRouter, ParticipantPlayback } from './AudioOutputRouter';
+import { getDtmfCode } from './Dtmf';
+import { HoldMusic } from './HoldMusic';
+import {
+  BANDWIDTH_PROFILES,
+  BandwidthProfileName,
+  DEFAULT_BANDWIDTH_PROFILE,
+  getAudioPublishOptions,
+  getVideoPublishOptions,
+} from './BandwidthProfiles';
+import { CallQualityMonitor, CallQualitySummary, ParticipantNetworkStats } from './CallQualityMonitor';
+
+export type { CallStatusEvent } from './DataProtocol';
+
+export type DisconnectCause =
+  | 'client-initiated'
+  | 'removed'
+  | 'room-deleted'
+  | 'duplicate-identity'
+  | 'reconnect-failed'
+  | 'join-failed'
+  | 'unknown';
+
+export type ConnectionStatus =
+  | { status: 'idle' }
+  | { status: 'connecting' }
+  | { status: 'connected' }
+  | { status: 'reconnecting'; attempt: number; maxAttempts: number }
+  | { status: 'disconnected'; cause: DisconnectCause; message: string };
+
+export type TokenProvider = () => Promise<string>;
+
+const DEFAULT_MAX_REJOIN_ATTEMPTS = 5;
+const REJOIN_BASE_DELAY_MS = 1000;
+const REJOIN_MAX_DELAY_MS = 15000;
+// How long our own connection must stay poor before camera video is given up automatically
+const AUTO_AUDIO_ONLY_AFTER_MS = 20000;
+const POOR_PACKET_LOSS_PCT = 10;
+
+export interface LiveKitClientEvents {
+  'log': (msg: string) => void;
+  'participant-joined': (participantIdentity: string, participantName: string) => void;
+  'participant-left': (participantIdentity: string, participantName: string) => void;
+  'participant-count-changed': (humanCount: number, totalCount: number) => void;
+  'call-status': (event: CallStatusEvent) => void;
+  'transcript': (text: string, senderIdentity?: string) => void;
+  'transcript-segment': (segment: TranscriptSegment) => void;
+  'connection-state': (state: ConnectionState) => void;
+  'reconnecting': () => void;
+  'reconnected': () => void;
+  'connection-status': (status: ConnectionStatus) => void;
+  'track-muted': (participantIdentity: string, source: Track.Source, muted: boolean) => void;
+  'audio-received': (participantIdentity: string) => void;
+  'sip-audio-connected': (participantIdentity: string) => void;
+  'data-message': (message: ProtocolMessage, senderIdentity?: string) => void;
+  'screen-share-changed': (participantIdentity: string, active: boolean) => void;
+  'connection-quality': (participantIdentity: string, quality: ConnectionQuality) => void;
+  'active-speakers-changed': (audioLevels: Map<string, number>) => void;
+  'network-stats': (stats: Map<string, ParticipantNetworkStats>) => void;
+  'recording-changed': (participantIdentity: string, active: boolean, includesVideo: boolean) => void;
+  'noise-suppression-stats': (stats: NoiseSuppressionStats) => void;
+  'background-fallback': (active: boolean, reason: BackgroundFallbackReason | null) => void;
+  'hold-changed': (onHold: boolean) => void;
+  'remote-hold-changed': (participantIdentity: string, onHold: boolean) => void;
+  'raised-hands-changed': (raisedHands: Map<string, number>) => void;
+  'reaction': (participantIdentity: string, emoji: string) => void;
+  'audio-playback-blocked': (blocked: boolean) => void;
+  'participant-playback-changed': (playback: Map<string, ParticipantPlayback>) => void;
+  'bandwidth-profile-changed': (
+    profile: BandwidthProfileName,
+    reason: BandwidthProfileChangeReason,
+    previous: BandwidthProfileName
+  ) => void;
+  'encryption-changed': (state: EncryptionState) => void;
+}
+
+// 'pending' until the key is agreed; 'refused-sip' once a phone participant made the call
+// fall back to unencrypted media
+export type EncryptionState = 'off' | 'pending' | 'encrypted' | 'refused-sip';
+
+// Time the call spent on hold, by either side
+export interface CallHoldStats {
+  holdSeconds: number;
+  holdCount: number;
+}
+
+interface HoldTiming {
+  holdMs: number;
+  holdCount: number;
+  holdStartedAt: number | null;
+}
 
-export interface CallStatusEvent {
-  event: 'call-status';
-  status: string;
-  callId: string;
-  phoneNumber: string;
-  timestamp: number;
-  sipParticipantId?: string;
+export type BandwidthProfileChangeReason = 'user' | 'poor-quality';
+
+export interface NoiseSuppressionSettings {
+  enabled: boolean;
+  // 0-1, how aggressively noise between words is attenuated
+  strength: number;
 }
 
+export type LiveKitClientEvent = keyof LiveKitClientEvents;
+
 export class LiveKitClient {
   private room: Room;
-  private onLogMessage: (msg: string) => void;
-  private onAudioReceived?: () => void;
-  private onCallStatus?: (event: CallStatusEvent) => void;
-  private onStopRingtone?: () => void;
-  private onParticipantDisconnected?: (participantIdentity: string, participantName: string) => void;
-  private onParticipantConnected?: (participantIdentity: string, participantName: string) => void;
-  private onParticipantCountChanged?: (humanCount: number, totalCount: number) => void;
+  private events = new TypedEventEmitter<LiveKitClientEvents>();
   private isConnected = false;
   private sessionId: string = '';
   private localAudioTrack: LocalAudioTrack | null = null;
   private localVideoTrack: LocalVideoTrack | null = null;
-
+  private screenShareTracks: LocalTrack[] = [];
+  private audioCaptureOptions: AudioCaptureOptions = {
+    echoCancellation: true,
+    noiseSuppression: true,
+    autoGainControl: true,
+  };
+  private videoCaptureOptions: VideoCaptureOptions = {
+    resolution: VideoPresets.h720.resolution,
+    facingMode: 'user',
+  };
+  private messageDispatcher = new MessageDispatcher();
+  private qualityMonitor: CallQualityMonitor;
+  private connectionStatus: ConnectionStatus = { status: 'idle' };
+  private serverUrl: string | null = null;
+  private tokenProvider: TokenProvider | null = null;
+  private maxRejoinAttempts = DEFAULT_MAX_REJOIN_ATTEMPTS;
+  private isIntentionalDisconnect = false;
+  private isRejoining = false;
+  private recordingAnnouncement: RecordingMessage | null = null;
+  private remoteRecorders = new Set<string>();
+  private noiseSuppression: NoiseSuppressionSettings = { enabled: false, strength: DEFAULT_NOISE_SUPPRESSION_STRENGTH };
+  private noiseProcessor: NoiseSuppressionProcessor | null = null;
+  private processingAudioContext: AudioContext | null = null;
+  private backgroundEffect: BackgroundEffect = { type: 'none' };
+  private backgroundProcessor: BackgroundProcessor | null = null;
+  private audioOutput = new AudioOutputRouter();
+  // Digits are sent one after another so fast key presses keep their order
+  private dtmfQueue: Promise<void> = Promise.resolve();
+  private isLocalHold = false;
+  private remoteHolds = new Set<string>();
+  // Identity to audio level (0-1) of everyone currently speaking, loudest first
+  private activeSpeakers = new Map<string, number>();
+  // When our own hand went up, null while it is down
+  private localHandRaisedAt: number | null = null;
+  // Everyone with a raised hand, including us, keyed by identity
+  private raisedHands = new Map<string, number>();
+  // What to republish on resume
+  private heldMedia = { audio: false, audioMuted: false, video: false };
+  private holdMusic: HoldMusic | null = null;
+  private holdMusicTrack: LocalAudioTrack | null = null;
+  private holdStartedAt: number | null = null;
+  private holdMs = 0;
+  private holdCount = 0;
+  private bandwidthProfile: BandwidthProfileName = DEFAULT_BANDWIDTH_PROFILE;
+  // The camera was on but is held back by an audio-only profile
+  private isCameraSuspended = false;
+  private autoAudioOnly = true;
+  private poorQualitySince: number | null = null;
+  private keyProvider: ExternalE2EEKeyProvider | null = null;
+  private encryptionState: EncryptionState = 'off';
+
+  /**
+   * Prefer `new LiveKitClient()` followed by `on(event, handler)`. The positional
+   * callbacks are kept as an adapter for callers that have not migrated yet.
+   */
   constructor(
-    onLogMessage: (msg: string) => void,
+    onLogMessage?: (msg: string) => void,
     onAudioReceived?: () => void,
     onCallStatus?: (event: CallStatusEvent) => void,
     onStopRingtone?: () => void,
@@ -48,18 +216,43 @@ export class LiveKitClient {
     onParticipantConnected?: (participantIdentity: string, participantName: string) => void,
     onParticipantCountChanged?: (humanCount: number, totalCount: number) => void
   ) {
-    this.room = new Room();
-    this.onLogMessage = onLogMessage;
-    this.onAudioReceived = onAudioReceived;
-    this.onCallStatus = onCallStatus;
-    this.onStopRingtone = onStopRingtone;
-    this.onParticipantDisconnected = onParticipantDisconnected;
-    this.onParticipantConnected = onParticipantConnected;
-    this.onParticipantCountChanged = onParticipantCountChanged;
+    const profile = BANDWIDTH_PROFILES[this.bandwidthProfile];
+    this.room = new Room({ adaptiveStream: profile.adaptiveStream, dynacast: profile.dynacast });
+    this.qualityMonitor = new CallQualityMonitor(this.room);
+    this.audioOutput.on('blocked-changed', (blocked) => this.events.emit('audio-playback-blocked', blocked));
+    this.audioOutput.on('playback-changed', (playback) => this.events.emit('participant-playback-changed', playback));
+    this.watchQuality();
+
+    if (onLogMessage) this.on('log', onLogMessage);
+    if (onAudioReceived) this.on('audio-received', () => onAudioReceived());
+    if (onCallStatus) this.on('call-status', onCallStatus);
+    if (onStopRingtone) this.on('sip-audio-connected', () => onStopRingtone());
+    if (onParticipantDisconnected) this.on('participant-left', onParticipantDisconnected);
+    if (onParticipantConnected) this.on('participant-joined', onParticipantConnected);
+    if (onParticipantCountChanged) this.on('participant-count-changed', onParticipantCountChanged);
 
     this.setupRoomListeners();
   }
 
+  on<E extends LiveKitClientEvent>(event: E, handler: LiveKitClientEvents[E]): () => void {
+    return this.events.on(event, handler);
+  }
+
+  private watchQuality(): void {
+    this.qualityMonitor.on('stats', (stats) => {
+      this.events.emit('network-stats', stats);
+      this.checkLocalQuality(stats);
+    });
+  }
+
+  off<E extends LiveKitClientEvent>(event: E, handler: LiveKitClientEvents[E]): void {
+    this.events.off(event, handler);
+  }
+
+  private log(msg: string): void {
+    this.events.emit('log', msg);
+  }
+
   private isMediaWorker(participant: RemoteParticipant): boolean {
     const identity = participant.identity?.toLowerCase() || '';
     const name = participant.name?.toLowerCase() || '';
@@ -77,40 +270,89 @@ export class LiveKitClient {
     );
   }
 
-  private updateParticipantCount(): void {
-    if (!this.onParticipantCountChanged) return;
+  // SIP callers are named after the dialled contact, falling back to their phone number
+  private resolveSpeakerName(identity: string): string | undefined {
+    const participant = identity === this.room.localParticipant.identity
+      ? this.room.localParticipant
+      : this.room.remoteParticipants.get(identity);
+    if (!participant) return undefined;
 
+    if (identity.startsWith('sip-')) {
+      try {
+        const metadata = participant.metadata ? JSON.parse(participant.metadata) : {};
+        return metadata.contactName || participant.name || metadata.phoneNumber || undefined;
+      } catch {
+        return participant.name || undefined;
+      }
+    }
+
+    return participant.name || undefined;
+  }
+
+  private updateParticipantCount(): void {
     const participants = this.getParticipants();
     const humanParticipants = participants.filter(p => !this.isMediaWorker(p));
 
     const humanCount = humanParticipants.length + 1;
     const totalCount = participants.length + 1;
 
-    this.onParticipantCountChanged(humanCount, totalCount);
+    this.events.emit('participant-count-changed', humanCount, totalCount);
   }
 
   private setupRoomListeners(): void {
     this.room.on(RoomEvent.Connected, () => {
       console.log('✅ Connected to LiveKit room');
-      this.onLogMessage('Connected to LiveKit room');
+      this.log('Connected to LiveKit room');
       this.isConnected = true;
       this.updateParticipantCount();
     });
 
     this.room.on(RoomEvent.Disconnected, (reason?: DisconnectReason) => {
       console.log('🔌 Disconnected from LiveKit room:', reason);
-      this.onLogMessage(`Disconnected: ${reason || 'Unknown reason'}`);
+      this.log(`Disconnected: ${reason || 'Unknown reason'}`);
       this.isConnected = false;
+      this.handleRoomDisconnected(reason);
     });
 
     this.room.on(RoomEvent.Reconnecting, () => {
       console.log('🔄 Reconnecting to LiveKit room...');
-      this.onLogMessage('Reconnecting...');
+      this.log('Reconnecting...');
+      this.events.emit('reconnecting');
+      this.setConnectionStatus({ status: 'reconnecting', attempt: 0, maxAttempts: this.maxRejoinAttempts });
     });
 
     this.room.on(RoomEvent.Reconnected, () => {
       console.log('✅ Reconnected to LiveKit room');
-      this.onLogMessage('Reconnected');
+      this.log('Reconnected');
+      this.events.emit('reconnected');
+      this.setConnectionStatus({ status: 'connected' });
+    });
+
+    this.room.on(RoomEvent.ConnectionStateChanged, (state: ConnectionState) => {
+      this.events.emit('connection-state', state);
+    });
+
+    this.room.on(RoomEvent.TrackPublished, (publication: RemoteTrackPublication, participant: RemoteParticipant) => {
+      this.applySubscriptionPolicy(publication);
+      if (publication.source === Track.Source.ScreenShare) {
+        this.log(`${participant.identity} started presenting`);
+        this.events.emit('screen-share-changed', participant.identity, true);
+      }
+    });
+
+    this.room.on(RoomEvent.TrackUnpublished, (publication: RemoteTrackPublication, participant: RemoteParticipant) => {
+      if (publication.source === Track.Source.ScreenShare) {
+        this.log(`${participant.identity} stopped presenting`);
+        this.events.emit('screen-share-changed', participant.identity, false);
+      }
+    });
+
+    this.room.on(RoomEvent.TrackMuted, (publication: TrackPublication, participant: Participant) => {
+      this.events.emit('track-muted', participant.identity, publication.source, true);
+    });
+
+    this.room.on(RoomEvent.TrackUnmuted, (publication: TrackPublication, participant: Participant) => {
+      this.events.emit('track-muted', participant.identity, publication.source, false);
     });
 
     this.room.on(RoomEvent.TrackSubscribed, (
@@ -120,25 +362,19 @@ export class LiveKitClient {
     ) => {
       if (track.kind === Track.Kind.Audio) {
         console.log('🎵 Audio track subscribed:', publication.trackSid, 'from', participant.identity);
-        this.onLogMessage('Audio track connected from ' + participant.identity);
+        this.log('Audio track connected from ' + participant.identity);
 
-        const audioElement = (track as RemoteAudioTrack).attach();
-        document.body.appendChild(audioElement);
-        audioElement.play();
+        this.audioOutput.attach(publication.trackSid, participant.identity, track as RemoteAudioTrack);
 
         if (participant.identity.startsWith('sip-')) {
           console.log('📞 SIP participant audio connected - stopping ringtone');
-          if (this.onStopRingtone) {
-            this.onStopRingtone();
-          }
+          this.events.emit('sip-audio-connected', participant.identity);
         }
 
-        if (this.onAudioReceived) {
-          this.onAudioReceived();
-        }
+        this.events.emit('audio-received', participant.identity);
       } else if (track.kind === Track.Kind.Video) {
         console.log('📹 Video track subscribed:', publication.trackSid, 'from', participant.identity);
-        this.onLogMessage('Video track connected from ' + participant.identity);
+        this.log('Video track connected from ' + participant.identity);
       }
     });
 
@@ -149,63 +385,118 @@ export class LiveKitClient {
     ) => {
       console.log('Track unsubscribed:', track.kind, publication.trackSid, 'from', participant.identity);
       if (track.kind === Track.Kind.Audio) {
-        (track as RemoteAudioTrack).detach().forEach((element) => element.remove());
+        this.audioOutput.detach(publication.trackSid);
       }
     });
 
     this.room.on(RoomEvent.DataReceived, (
       payload: Uint8Array,
-      _participant?: any
+      participant?: RemoteParticipant
     ) => {
-      try {
-        const text = new TextDecoder().decode(payload);
-        const data = JSON.parse(text);
-
-        console.log('📨 Data received:', data);
+      const result = parseMessage(new TextDecoder().decode(payload));
+      if (!result.ok) {
+        console.warn('⚠️ Rejected data message from', participant?.identity || 'server', '-', result.error);
+        return;
+      }
 
-        if (data.event === 'call-status') {
-          this.onLogMessage(`Call status: ${data.status}`);
-          if (this.onCallStatus) {
-            this.onCallStatus(data as CallStatusEvent);
-          }
-        } else if (data.event === 'transcript') {
-          console.log('📝 Transcript:', data.text);
-          this.onLogMessage('Transcript: ' + data.text);
-        } else if (data.event === 'ready') {
-          if (data.sessionId) {
-            this.sessionId = data.sessionId;
-            console.log('✅ Session ID received:', this.sessionId);
-            this.onLogMessage(`Session ready: ${this.sessionId}`);
-          }
-        } else if (data.event === 'admin-control') {
-          this.handleAdminControl(data);
+      const message = result.message;
+      console.log('📨 Data received:', message);
+
+      if (message.event === 'call-status') {
+        this.log(`Call status: ${message.status}`);
+        this.events.emit('call-status', message);
+      } else if (message.event === 'transcript') {
+        console.log('📝 Transcript:', message.text);
+        this.log('Transcript: ' + message.text);
+        this.events.emit('transcript', message.text, participant?.identity);
+        this.events.emit(
+          'transcript-segment',
+          toTranscriptSegment(message, participant?.identity, identity => this.resolveSpeakerName(identity))
+        );
+      } else if (message.event === 'ready') {
+        if (message.sessionId) {
+          this.sessionId = message.sessionId;
+          console.log('✅ Session ID received:', this.sessionId);
+          this.log(`Session ready: ${this.sessionId}`);
         }
-      } catch (error) {
-        console.error('❌ Error parsing data message:', error);
+      } else if (message.event === 'admin-control') {
+        // Admin controls are enforced by the admin-control edge function; only its
+        // server-sent notices are trusted, never messages relayed by other participants.
+        if (participant) {
+          console.warn('⚠️ Ignoring admin-control message from participant', participant.identity);
+          return;
+        }
+        this.handleAdminControl(message)
+          .catch(error => console.warn('⚠️ Failed to apply admin control:', error));
+      } else if (message.event === 'hold' && participant) {
+        this.setRemoteHold(participant.identity, message.action === 'hold');
+      } else if (message.event === 'hand' && participant) {
+        this.setRaisedHand(participant.identity, message.action === 'raise' ? message.raisedAt ?? Date.now() : null);
+      } else if (message.event === 'reaction' && participant) {
+        this.events.emit('reaction', participant.identity, message.emoji);
+      } else if (message.event === 'recording' && participant) {
+        const isActive = message.action === 'started';
+        if (isActive) {
+          this.remoteRecorders.add(participant.identity);
+        } else {
+          this.remoteRecorders.delete(participant.identity);
+        }
+        this.log(`${participant.identity} ${isActive ? 'started' : 'stopped'} recording`);
+        this.events.emit('recording-changed', participant.identity, isActive, message.includesVideo);
       }
+
+      this.messageDispatcher.dispatch(message, participant?.identity);
+      this.events.emit('data-message', message, participant?.identity);
+    });
+
+    this.room.on(RoomEvent.EncryptionError, (error: Error, participant?: Participant) => {
+      console.error('❌ Encryption error:', participant?.identity || 'local', error);
     });
 
-    this.room.on(RoomEvent.ConnectionQualityChanged, (quality: any, participant: any) => {
-      console.log('📶 Connection quality:', quality, participant?.identity);
+    this.room.on(RoomEvent.ActiveSpeakersChanged, (speakers: Participant[]) => {
+      this.activeSpeakers = new Map(speakers.map(speaker => [speaker.identity, speaker.audioLevel]));
+      this.events.emit('active-speakers-changed', this.getActiveSpeakers());
+    });
+
+    this.room.on(RoomEvent.ConnectionQualityChanged, (quality: ConnectionQuality, participant: Participant) => {
+      console.log('📶 Connection quality:', quality, participant.identity);
+      this.events.emit('connection-quality', participant.identity, quality);
     });
 
     this.room.on(RoomEvent.ParticipantConnected, (participant: RemoteParticipant) => {
       console.log('👤 Participant connected:', participant.identity, 'metadata:', participant.metadata);
-      this.onLogMessage(`Participant joined: ${participant.identity}`);
+      this.log(`Participant joined: ${participant.identity}`);
 
       this.updateParticipantCount();
 
+      // A phone leg cannot decrypt, so encryption gives way rather than leaving it in silence
+      if (participant.kind === ParticipantKind.SIP && (this.encryptionState === 'pending' || this.encryptionState === 'encrypted')) {
+        void this.refuseEncryptionForSip();
+      }
+
+      // Late joiners must also learn that the call is being recorded
+      if (this.recordingAnnouncement) {
+        this.sendData(this.recordingAnnouncement, [participant.identity])
+          .catch(error => console.error('❌ Failed to send recording notice:', error));
+      }
+      if (this.isLocalHold) {
+        this.sendData({ event: 'hold', action: 'hold' }, [participant.identity])
+          .catch(error => console.error('❌ Failed to send hold notice:', error));
+      }
+      if (this.localHandRaisedAt !== null) {
+        this.sendData({ event: 'hand', action: 'raise', raisedAt: this.localHandRaisedAt }, [participant.identity])
+          .catch(error => console.error('❌ Failed to send raised hand:', error));
+      }
+
       if (this.isMediaWorker(participant)) {
         if (participant.identity.startsWith('sip-')) {
-          this.onLogMessage(`🔔 SIP participant connected (call may be ringing)`);
+          this.log(`🔔 SIP participant connected (call may be ringing)`);
           console.log('SIP participant metadata:', participant.metadata);
         } else {
           console.log('Media worker connected:', participant.identity);
         }
       } else {
-        if (this.onParticipantConnected) {
-          this.onParticipantConnected(participant.identity, participant.name || participant.identity);
-        }
+        this.events.emit('participant-joined', participant.identity, participant.name || participant.identity);
       }
     });
 
@@ -214,31 +505,33 @@ export class LiveKitClient {
 
       this.updateParticipantCount();
 
+      if (this.remoteRecorders.delete(participant.identity)) {
+        this.events.emit('recording-changed', participant.identity, false, false);
+      }
+      this.setRemoteHold(participant.identity, false);
+      this.setRaisedHand(participant.identity, null);
+
       if (this.isMediaWorker(participant)) {
         if (participant.identity.startsWith('sip-')) {
-          this.onLogMessage(`SIP participant left room: ${participant.identity}`);
+          this.log(`SIP participant left room: ${participant.identity}`);
 
           const metadata = participant.metadata ? JSON.parse(participant.metadata) : {};
           if (metadata.callId && metadata.phoneNumber) {
-            if (this.onCallStatus) {
-              this.onCallStatus({
-                event: 'call-status',
-                status: 'completed',
-                callId: metadata.callId,
-                phoneNumber: metadata.phoneNumber,
-                timestamp: Date.now(),
-                sipParticipantId: participant.identity,
-              });
-            }
+            this.events.emit('call-status', {
+              event: 'call-status',
+              status: 'completed',
+              callId: metadata.callId,
+              phoneNumber: metadata.phoneNumber,
+              timestamp: Date.now(),
+              sipParticipantId: participant.identity,
+            });
           }
         } else {
           console.log('Media worker disconnected:', participant.identity);
         }
       } else {
-        this.onLogMessage(`Participant left: ${participant.identity}`);
-        if (this.onParticipantDisconnected) {
-          this.onParticipantDisconnected(participant.identity, participant.name || participant.identity);
-        }
+        this.log(`Participant left: ${participant.identity}`);
+        this.events.emit('participant-left', participant.identity, participant.name || participant.identity);
       }
     });
 
@@ -246,24 +539,22 @@ export class LiveKitClient {
       console.log('📢 Track published:', publication.kind, 'by', participant.identity, 'at', new Date().toISOString());
 
       if (participant.identity.startsWith('sip-') && publication.kind === Track.Kind.Audio) {
-        this.onLogMessage(`✅ Call answered - SIP audio track published`);
+        this.log(`✅ Call answered - SIP audio track published`);
         console.log('🎵 SIP audio track published, triggering answered status');
 
         const metadata = participant.metadata ? JSON.parse(participant.metadata) : {};
         console.log('SIP participant metadata:', metadata);
 
         if (metadata.callId && metadata.phoneNumber) {
-          console.log('Calling onCallStatus with answered status');
-          if (this.onCallStatus) {
-            this.onCallStatus({
-              event: 'call-status',
-              status: 'answered',
-              callId: metadata.callId,
-              phoneNumber: metadata.phoneNumber,
-              timestamp: Date.now(),
-              sipParticipantId: participant.identity,
-            });
-          }
+          console.log('Emitting call-status with answered status');
+          this.events.emit('call-status', {
+            event: 'call-status',
+            status: 'answered',
+            callId: metadata.callId,
+            phoneNumber: metadata.phoneNumber,
+            timestamp: Date.now(),
+            sipParticipantId: participant.identity,
+          });
         } else {
           console.warn('Missing callId or phoneNumber in SIP participant metadata');
         }
@@ -274,7 +565,10 @@ export class LiveKitClient {
   async connect(url: string, token: string): Promise<void> {
     try {
       console.log('🔌 Connecting to LiveKit:', url);
-      this.onLogMessage(`Connecting to ${url}...`);
+      this.log(`Connecting to ${url}...`);
+      this.serverUrl = url;
+      this.isIntentionalDisconnect = false;
+      this.setConnectionStatus({ status: 'connecting' });
 
       await this.room.connect(url, token, {
         autoSubscribe: true,
@@ -282,45 +576,55 @@ export class LiveKitClient {
 
       console.log('✅ Room connected with auto-subscribe enabled');
       this.sessionId = this.room.name || 'default-session';
-      this.onLogMessage('Room connected');
+      this.isConnected = true;
+      this.log('Room connected');
+      this.setConnectionStatus({ status: 'connected' });
+      this.qualityMonitor.start();
+      this.applySubscriptionPolicyToAll();
 
-      const startMessage = {
+      const startMessage: ProtocolMessage = {
         event: 'start',
         callId: 'web-client-' + Date.now(),
         metadata: {},
       };
       await this.sendData(startMessage);
-      this.onLogMessage('Sent start event');
+      this.log('Sent start event');
 
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : 'Connection failed';
       console.error('❌ Failed to connect to LiveKit:', error);
-      this.onLogMessage(`Connection failed: ${errorMsg}`);
+      this.log(`Connection failed: ${errorMsg}`);
+      this.setConnectionStatus({ status: 'disconnected', cause: 'join-failed', message: errorMsg });
       throw new Error(`Failed to connect: ${errorMsg}`);
     }
   }
 
-  async publishAudio(audioOptions?: AudioCaptureOptions): Promise<void> {
+  async publishAudio(audioOptions?: AudioCaptureOptions, muted = false): Promise<void> {
     try {
       console.log('🎤 Creating local audio track...');
 
-      const options: AudioCaptureOptions = audioOptions || {
-        echoCancellation: true,
-        noiseSuppression: true,
-        autoGainControl: true,
-      };
+      if (audioOptions) {
+        this.audioCaptureOptions = audioOptions;
+      }
 
-      this.localAudioTrack = await createLocalAudioTrack(options);
+      this.localAudioTrack = await createLocalAudioTrack(this.audioCaptureOptions);
+      await this.applyNoiseSuppression();
+      if (muted) {
+        await this.localAudioTrack.mute();
+      }
 
       console.log('🎤 Publishing audio track to room...');
-      await this.room.localParticipant.publishTrack(this.localAudioTrack);
+      await this.room.localParticipant.publishTrack(
+        this.localAudioTrack,
+        getAudioPublishOptions(BANDWIDTH_PROFILES[this.bandwidthProfile])
+      );
 
-      this.onLogMessage('Microphone connected');
+      this.log('Microphone connected');
       console.log('✅ Audio track published');
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : 'Failed to publish audio';
       console.error('❌ Failed to publish audio:', error);
-      this.onLogMessage(`Audio error: ${errorMsg}`);
+      this.log(`Audio error: ${errorMsg}`);
       throw error;
     }
   }
@@ -331,27 +635,49 @@ export class LiveKitClient {
       await this.room.localParticipant.unpublishTrack(this.localAudioTrack);
       this.localAudioTrack.stop();
       this.localAudioTrack = null;
-      this.onLogMessage('Microphone disconnected');
+      this.log('Microphone disconnected');
     }
   }
 
-  async sendData(data: unknown): Promise<void> {
+  // Mutes the published track rather than unpublishing it, so unmuting is instant
+  async toggleMute(): Promise<boolean> {
+    if (!this.localAudioTrack) return true;
+
+    if (this.localAudioTrack.isMuted) {
+      await this.localAudioTrack.unmute();
+      this.log('Microphone unmuted');
+      return false;
+    }
+    await this.localAudioTrack.mute();
+    this.log('Microphone muted');
+    return true;
+  }
+
+  isMicrophoneMuted(): boolean {
+    return !this.localAudioTrack || this.localAudioTrack.isMuted;
+  }
+
+  async sendData(message: ProtocolMessage, destinationIdentities?: string[]): Promise<void> {
     try {
-      const message = JSON.stringify(data);
       const encoder = new TextEncoder();
-      const dataArray = encoder.encode(message);
+      const dataArray = encoder.encode(encodeMessage(message));
 
       await this.room.localParticipant.publishData(dataArray, {
         reliable: true,
+        destinationIdentities,
       });
 
-      console.log('📤 Data sent:', data);
+      console.log('📤 Data sent:', message);
     } catch (error) {
       console.error('❌ Failed to send data:', error);
       throw error;
     }
   }
 
+  onMessage<E extends ProtocolEvent>(event: E, handler: MessageHandler<E>): () => void {
+    return this.messageDispatcher.subscribe(event, handler);
+  }
+
   sendStop(): void {
     console.log('📤 Sending stop event');
     this.sendData({
@@ -361,6 +687,7 @@ export class LiveKitClient {
 
   disconnect(): void {
     console.log('🔌 Disconnecting from LiveKit...');
+    this.isIntentionalDisconnect = true;
 
     if (this.localAudioTrack) {
       this.localAudioTrack.stop();
@@ -372,11 +699,63 @@ export class LiveKitClient {
       this.localVideoTrack = null;
     }
 
+    this.screenShareTracks.forEach(track => track.stop());
+    this.screenShareTracks = [];
+
+    this.qualityMonitor.stop();
+    this.audioOutput.detachAll();
     this.room.disconnect();
     this.isConnected = false;
     this.sessionId = '';
+    this.messageDispatcher.clear();
+    this.recordingAnnouncement = null;
+    this.remoteRecorders.clear();
+    this.noiseProcessor = null;
+    this.backgroundProcessor = null;
+    this.isCameraSuspended = false;
+    this.poorQualitySince = null;
+    void this.stopHoldMusic();
+    this.isLocalHold = false;
+    this.remoteHolds.clear();
+    if (this.activeSpeakers.size > 0) {
+      this.activeSpeakers.clear();
+      this.events.emit('active-speakers-changed', this.getActiveSpeakers());
+    }
+    this.localHandRaisedAt = null;
+    if (this.raisedHands.size > 0) {
+      this.raisedHands.clear();
+      this.events.emit('raised-hands-changed', this.getRaisedHands());
+    }
+    this.audioOutput.setHeld(false);
+    this.updateHoldTiming();
+    this.processingAudioContext?.close();
+    this.processingAudioContext = null;
+
+    this.log('Disconnected');
+    this.setConnectionStatus({ status: 'disconnected', cause: 'client-initiated', message: 'You left the call' });
+  }
+
+  /**
+   * Enables automatic rejoin after LiveKit gives up on its own reconnect. The provider
+   * is called for every attempt so an expired token is never reused.
+   */
+  setTokenProvider(provider: TokenProvider | null, maxAttempts: number = DEFAULT_MAX_REJOIN_ATTEMPTS): void {
+    this.tokenProvider = provider;
+    this.maxRejoinAttempts = maxAttempts;
+  }
 
-    this.onLogMessage('Disconnected');
+  async announceRecording(active: boolean, includesVideo: boolean): Promise<void> {
+    const message: RecordingMessage = {
+      event: 'recording',
+      action: active ? 'started' : 'stopped',
+      includesVideo,
+    };
+    this.recordingAnnouncement = active ? message : null;
+    await this.sendData(message);
+  }
+
+  getConnectionStatus(): ConnectionStatus {
+    return this.connectionStatus;
   }
 
   getSessionId(): string {
@@ -395,38 +774,49 @@ export class LiveKitClient {
     try {
       console.log('📹 Creating local video track...');
 
-      const options: VideoCaptureOptions = videoOptions || {
-        resolution: VideoPresets.h720.resolution,
-        facingMode: 'user',
-      };
+      if (videoOptions) {
+        this.videoCaptureOptions = videoOptions;
+      }
+
+      const profile = BANDWIDTH_PROFILES[this.bandwidthProfile];
+      if (!profile.publishVideo || !profile.videoPreset) {
+        this.isCameraSuspended = true;
+        this.log('Camera held back by the audio-only profile');
+        return;
+      }
 
-      this.localVideoTrack = await createLocalVideoTrack(options);
+      // The profile decides the capture resolution; callers only choose the device
+      this.videoCaptureOptions = { ...this.videoCaptureOptions, resolution: profile.videoPreset.resolution };
+      this.localVideoTrack = await createLocalVideoTrack(this.videoCaptureOptions);
+      await this.applyBackgroundEffect();
 
       console.log('📹 Publishing video track to room...');
-      await this.room.localParticipant.publishTrack(this.localVideoTrack);
+      await this.room.localParticipant.publishTrack(this.localVideoTrack, getVideoPublishOptions(profile));
+      this.isCameraSuspended = false;
 
-      this.onLogMessage('Camera connected');
+      this.log('Camera connected');
       console.log('✅ Video track published');
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : 'Failed to publish video';
       console.error('❌ Failed to publish video:', error);
-      this.onLogMessage(`Video error: ${errorMsg}`);
+      this.log(`Video error: ${errorMsg}`);
       throw error;
     }
   }
 
   async unpublishVideo(): Promise<void> {
+    this.isCameraSuspended = false;
     if (this.localVideoTrack) {
       console.log('📹 Unpublishing video track...');
       await this.room.localParticipant.unpublishTrack(this.localVideoTrack);
       this.localVideoTrack.stop();
       this.localVideoTrack = null;
-      this.onLogMessage('Camera disconnected');
+      this.log('Camera disconnected');
     }
   }
 
   async toggleVideo(): Promise<boolean> {
-    if (this.localVideoTrack) {
+    if (this.localVideoTrack || this.isCameraSuspended) {
       await this.unpublishVideo();
       return false;
     } else {
@@ -435,6 +825,611 @@ export class LiveKitClient {
     }
   }
 
+  async startScreenShare(options: { audio?: boolean } = {}): Promise<void> {
+    if (this.screenShareTracks.length > 0) {
+      return;
+    }
+
+    try {
+      console.log('🖥️ Requesting screen capture...', options);
+      const tracks = await createLocalScreenTracks({
+        audio: options.audio ?? false,
+        systemAudio: options.audio ? 'include' : 'exclude',
+        selfBrowserSurface: 'exclude',
+        surfaceSwitching: 'include',
+        contentHint: 'detail',
+      });
+
+      for (const track of tracks) {
+        // The browser's own "Stop sharing" button ends the capture without going through us
+        track.once(TrackEvent.Ended, () => {
+          this.stopScreenShare().catch(error => console.error('❌ Failed to stop screen share:', error));
+        });
+        await this.room.localParticipant.publishTrack(track);
+      }
+
+      this.screenShareTracks = tracks;
+      const hasAudio = tracks.some(track => track.source === Track.Source.ScreenShareAudio);
+      this.log(hasAudio ? 'Screen sharing started with audio' : 'Screen sharing started');
+      this.events.emit('screen-share-changed', this.room.localParticipant.identity, true);
+      console.log('✅ Screen share published');
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Failed to share screen';
+      console.error('❌ Failed to start screen share:', error);
+      this.log(`Screen share error: ${errorMsg}`);
+      throw error;
+    }
+  }
+
+  async stopScreenShare(): Promise<void> {
+    if (this.screenShareTracks.length === 0) {
+      return;
+    }
+
+    console.log('🖥️ Unpublishing screen share...');
+    const tracks = this.screenShareTracks;
+    this.screenShareTracks = [];
+
+    for (const track of tracks) {
+      await this.room.localParticipant.unpublishTrack(track);
+      track.stop();
+    }
+
+    this.log('Screen sharing stopped');
+    this.events.emit('screen-share-changed', this.room.localParticipant.identity, false);
+  }
+
+  isScreenSharing(): boolean {
+    return this.screenShareTracks.length > 0;
+  }
+
+  async setNoiseSuppression(settings: NoiseSuppressionSettings): Promise<void> {
+    this.noiseSuppression = settings;
+    await this.applyNoiseSuppression();
+  }
+
+  getNoiseSuppression(): NoiseSuppressionSettings {
+    return this.noiseSuppression;
+  }
+
+  // Also called for every new microphone track, since the SDK destroys the processor with the track
+  private async applyNoiseSuppression(): Promise<void> {
+    const track = this.localAudioTrack;
+    if (!track) return;
+
+    const isActive = this.noiseProcessor !== null && track.getProcessor() === this.noiseProcessor;
+
+    if (!this.noiseSuppression.enabled) {
+      if (isActive) {
+        await track.stopProcessor();
+        this.log('Noise suppression disabled');
+      }
+      this.noiseProcessor = null;
+      return;
+    }
+
+    if (isActive) {
+      this.noiseProcessor!.setStrength(this.noiseSuppression.strength);
+      return;
+    }
+
+    if (!NoiseSuppressionProcessor.isSupported()) {
+      console.warn('⚠️ AudioWorklet is not supported, noise suppression unavailable');
+      return;
+    }
+
+    const processor = new NoiseSuppressionProcessor(this.noiseSuppression.strength);
+    processor.on('stats', (stats) => this.events.emit('noise-suppression-stats', stats));
+    track.setAudioContext(await this.getProcessingAudioContext());
+    await track.setProcessor(processor);
+    this.noiseProcessor = processor;
+    this.log('Noise suppression enabled');
+  }
+
+  async switchMicrophone(deviceId: string): Promise<void> {
+    this.audioCaptureOptions = {
+      ...this.audioCaptureOptions,
+      deviceId: deviceId === 'default' ? undefined : deviceId,
+    };
+
+    if (this.localAudioTrack) {
+      console.log('🎤 Restarting microphone on device:', deviceId);
+      await this.localAudioTrack.restartTrack(this.audioCaptureOptions);
+      this.log('Microphone switched');
+    }
+  }
+
+  async setBackgroundEffect(effect: BackgroundEffect): Promise<void> {
+    this.backgroundEffect = effect;
+    await this.applyBackgroundEffect();
+  }
+
+  getBackgroundEffect(): BackgroundEffect {
+    return this.backgroundEffect;
+  }
+
+  // Like noise suppression, re-applied to every new camera track
+  private async applyBackgroundEffect(): Promise<void> {
+    const track = this.localVideoTrack;
+    if (!track) return;
+
+    const isActive = this.backgroundProcessor !== null && track.getProcessor() === this.backgroundProcessor;
+
+    if (this.backgroundEffect.type === 'none') {
+      if (isActive) {
+        await track.stopProcessor();
+        this.events.emit('background-fallback', false, null);
+        this.log('Background effect removed');
+      }
+      this.backgroundProcessor = null;
+      return;
+    }
+
+    if (isActive) {
+      await this.backgroundProcessor!.setEffect(this.backgroundEffect);
+      return;
+    }
+
+    if (!BackgroundProcessor.isSupported()) {
+      console.warn('⚠️ Canvas capture is not supported, background effects unavailable');
+      return;
+    }
+
+    const processor = new BackgroundProcessor(this.backgroundEffect);
+    processor.on('fallback-changed', (active, reason) => this.events.emit('background-fallback', active, reason));
+    await track.setProcessor(processor);
+    this.backgroundProcessor = processor;
+    this.log('Background effect applied');
+  }
+
+  getBandwidthProfile(): BandwidthProfileName {
+    return this.bandwidthProfile;
+  }
+
+  setAutoAudioOnly(enabled: boolean): void {
+    this.autoAudioOnly = enabled;
+    this.poorQualitySince = null;
+  }
+
+  // Room-level options (adaptive stream, dynacast) apply to tracks subscribed after the change;
+  // our own encodings are updated right away by republishing the camera.
+  async setBandwidthProfile(name: BandwidthProfileName, reason: BandwidthProfileChangeReason = 'user'): Promise<void> {
+    const previous = this.bandwidthProfile;
+    const profile = BANDWIDTH_PROFILES[name];
+    this.bandwidthProfile = name;
+    this.poorQualitySince = null;
+    this.room.options.adaptiveStream = profile.adaptiveStream ?? false;
+    this.room.options.dynacast = profile.dynacast;
+
+    if (this.isConnected && name !== previous) {
+      await this.updateAudioBitrate();
+
+      if (this.localVideoTrack) {
+        await this.unpublishVideo();
+        await this.publishVideo();
+      } else if (this.isCameraSuspended) {
+        await this.publishVideo();
+      }
+
+      this.applySubscriptionPolicyToAll();
+    }
+
+    this.log(`Bandwidth profile: ${profile.label}`);
+    this.events.emit('bandwidth-profile-changed', name, reason, previous);
+  }
+
+  // Changes the Opus bitrate in place, so the microphone keeps flowing
+  private async updateAudioBitrate(): Promise<void> {
+    const sender = this.localAudioTrack?.sender;
+    if (!sender) return;
+
+    const parameters = sender.getParameters();
+    if (!parameters.encodings?.length) return;
+
+    parameters.encodings.forEach(encoding => {
+      encoding.maxBitrate = BANDWIDTH_PROFILES[this.bandwidthProfile].audioPreset.maxBitrate;
+    });
+    await sender.setParameters(parameters).catch(error => console.warn('⚠️ Failed to update audio bitrate:', error));
+  }
+
+  private applySubscriptionPolicyToAll(): void {
+    this.room.remoteParticipants.forEach(participant => {
+      participant.trackPublications.forEach(publication => this.applySubscriptionPolicy(publication));
+    });
+  }
+
+  private applySubscriptionPolicy(publication: RemoteTrackPublication): void {
+    if (publication.kind !== Track.Kind.Video) return;
+
+    const profile = BANDWIDTH_PROFILES[this.bandwidthProfile];
+    if (publication.source === Track.Source.Camera && !profile.subscribeVideo) {
+      publication.setSubscribed(false);
+      return;
+    }
+
+    publication.setSubscribed(true);
+    publication.setVideoQuality(profile.maxSubscriptionQuality);
+  }
+
+  private checkLocalQuality(stats: Map<string, ParticipantNetworkStats>): void {
+    const local = stats.get(this.room.localParticipant.identity);
+    if (!local || !this.autoAudioOnly || this.bandwidthProfile === 'audio-only') return;
+
+    const isPoor = local.quality === ConnectionQuality.Poor ||
+      local.quality === ConnectionQuality.Lost ||
+      (local.packetLossPct ?? 0) >= POOR_PACKET_LOSS_PCT;
+
+    if (!isPoor) {
+      this.poorQualitySince = null;
+      return;
+    }
+
+    this.poorQualitySince ??= Date.now();
+    if (Date.now() - this.poorQualitySince < AUTO_AUDIO_ONLY_AFTER_MS) return;
+
+    console.warn('⚠️ Connection stayed poor, switching to audio only');
+    this.setBandwidthProfile('audio-only', 'poor-quality')
+      .catch(error => console.error('❌ Failed to switch to audio only:', error));
+  }
+
+  async switchCamera(deviceId: string): Promise<void> {
+    // An explicit device replaces the facingMode hint, which would otherwise conflict with it
+    this.videoCaptureOptions = deviceId === 'default'
+      ? { resolution: this.videoCaptureOptions.resolution, facingMode: 'user' }
+      : { resolution: this.videoCaptureOptions.resolution, deviceId };
+
+    if (this.localVideoTrack) {
+      console.log('📹 Restarting camera on device:', deviceId);
+      await this.localVideoTrack.restartTrack(this.videoCaptureOptions);
+      this.log('Camera switched');
+    }
+  }
+
+  async setAudioOutputDevice(deviceId: string): Promise<void> {
+    console.log('🔊 Switching audio output to:', deviceId);
+    await this.room.switchActiveDevice('audiooutput', deviceId);
+    this.log('Speaker switched');
+  }
+
+  getParticipantPlayback(identity: string): ParticipantPlayback {
+    return this.audioOutput.getPlayback(identity);
+  }
+
+  setParticipantVolume(identity: string, volume: number): void {
+    this.audioOutput.setVolume(identity, volume);
+  }
+
+  // Local only: silences the participant for this listener without touching their microphone
+  setParticipantMuted(identity: string, muted: boolean): void {
+    this.audioOutput.setMuted(identity, muted);
+  }
+
+  // Lowers remote audio while a ringtone plays, so the ring is heard over an ongoing call
+  setRemoteAudioDucked(ducked: boolean): void {
+    this.audioOutput.setDucked(ducked);
+  }
+
+  isAudioPlaybackBlocked(): boolean {
+    return this.audioOutput.isPlaybackBlocked();
+  }
+
+  // Call from a click handler after 'audio-playback-blocked' fires
+  async startAudio(): Promise<void> {
+    await this.room.startAudio().catch(error => console.warn('⚠️ Room audio start failed:', error));
+    await this.audioOutput.resume();
+    this.log(this.audioOutput.isPlaybackBlocked() ? 'Audio still blocked by the browser' : 'Audio playback enabled');
+  }
+
+  isOnHold(): boolean {
+    return this.isLocalHold;
+  }
+
+  // Our media is unpublished and replaced by hold music. Phone participants hear the music
+  // like any other room audio; the SIP leg itself is not re-INVITEd.
+  async hold(): Promise<void> {
+    if (this.isLocalHold || !this.isConnected) return;
+
+    const timing = this.getHoldTiming();
+    this.isLocalHold = true;
+    this.heldMedia = {
+      audio: this.localAudioTrack !== null,
+      audioMuted: this.localAudioTrack?.isMuted ?? false,
+      video: this.localVideoTrack !== null || this.isCameraSuspended,
+    };
+    this.updateHoldTiming();
+    this.audioOutput.setHeld(true);
+
+    try {
+      await this.stopScreenShare();
+      await this.unpublishAudio();
+      await this.unpublishVideo();
+    } catch (error) {
+      // Back to a live call: whatever was already unpublished is put back
+      this.restoreHold(false, timing);
+      if (this.heldMedia.audio && !this.localAudioTrack) {
+        await this.publishAudio(undefined, this.heldMedia.audioMuted)
+          .catch(publishError => console.error('❌ Failed to republish audio:', publishError));
+      }
+      if (this.heldMedia.video && !this.localVideoTrack) {
+        await this.publishVideo().catch(publishError => console.error('❌ Failed to republish video:', publishError));
+      }
+      throw error;
+    }
+
+    await this.startHoldMusic().catch(error => console.error('❌ Failed to start hold music:', error));
+    await this.sendData({ event: 'hold', action: 'hold' })
+      .catch(error => console.error('❌ Failed to send hold notice:', error));
+
+    this.log('Call on hold');
+    this.events.emit('hold-changed', true);
+  }
+
+  async resume(): Promise<void> {
+    if (!this.isLocalHold) return;
+
+    const timing = this.getHoldTiming();
+    this.isLocalHold = false;
+    this.updateHoldTiming();
+    this.audioOutput.setHeld(false);
+    await this.stopHoldMusic();
+    await this.sendData({ event: 'hold', action: 'resume' })
+      .catch(error => console.error('❌ Failed to send resume notice:', error));
+
+    // A microphone that was muted before the hold comes back muted
+    if (this.heldMedia.audio) {
+      try {
+        await this.publishAudio(undefined, this.heldMedia.audioMuted);
+      } catch (error) {
+        // Without a microphone the call stays on hold, and the others are told so again
+        this.restoreHold(true, timing);
+        await this.startHoldMusic().catch(musicError => console.error('❌ Failed to restart hold music:', musicError));
+        await this.sendData({ event: 'hold', action: 'hold' })
+          .catch(sendError => console.error('❌ Failed to send hold notice:', sendError));
+        throw error;
+      }
+    }
+    if (this.heldMedia.video) {
+      await this.publishVideo().catch(error => console.error('❌ Failed to republish video:', error));
+    }
+
+    this.log('Call resumed');
+    this.events.emit('hold-changed', false);
+  }
+
+  getRemoteHolds(): string[] {
+    return Array.from(this.remoteHolds);
+  }
+
+  getHoldStats(): CallHoldStats {
+    const currentMs = this.holdStartedAt !== null ? Date.now() - this.holdStartedAt : 0;
+    return { holdSeconds: Math.round((this.holdMs + currentMs) / 1000), holdCount: this.holdCount };
+  }
+
+  // The PSTN room outlives individual calls, so hold time is cleared per call like quality stats
+  resetHoldStats(): void {
+    this.holdMs = 0;
+    this.holdCount = 0;
+    this.holdStartedAt = this.holdStartedAt !== null ? Date.now() : null;
+  }
+
+  getActiveSpeakers(): Map<string, number> {
+    return new Map(this.activeSpeakers);
+  }
+
+  isHandRaised(): boolean {
+    return this.localHandRaisedAt !== null;
+  }
+
+  async raiseHand(): Promise<void> {
+    if (this.localHandRaisedAt !== null || !this.isConnected) return;
+
+    this.localHandRaisedAt = Date.now();
+    this.setRaisedHand(this.room.localParticipant.identity, this.localHandRaisedAt);
+    await this.sendData({ event: 'hand', action: 'raise', raisedAt: this.localHandRaisedAt })
+      .catch(error => console.error('❌ Failed to send raised hand:', error));
+  }
+
+  async lowerHand(): Promise<void> {
+    if (this.localHandRaisedAt === null) return;
+
+    this.localHandRaisedAt = null;
+    this.setRaisedHand(this.room.localParticipant.identity, null);
+    await this.sendData({ event: 'hand', action: 'lower' })
+      .catch(error => console.error('❌ Failed to send lowered hand:', error));
+  }
+
+  // Identity to the time the hand went up, oldest first
+  getRaisedHands(): Map<string, number> {
+    return new Map(this.raisedHands);
+  }
+
+  async sendReaction(emoji: string): Promise<void> {
+    if (!this.isConnected) return;
+
+    this.events.emit('reaction', this.room.localParticipant.identity, emoji);
+    await this.sendData({ event: 'reaction', emoji })
+      .catch(error => console.error('❌ Failed to send reaction:', error));
+  }
+
+  private setRaisedHand(identity: string, raisedAt: number | null): void {
+    if (raisedAt === null ? !this.raisedHands.has(identity) : this.raisedHands.get(identity) === raisedAt) return;
+
+    if (raisedAt === null) {
+      this.raisedHands.delete(identity);
+    } else {
+      this.raisedHands.set(identity, raisedAt);
+    }
+    this.raisedHands = new Map([...this.raisedHands].sort(([, a], [, b]) => a - b));
+    this.events.emit('raised-hands-changed', this.getRaisedHands());
+  }
+
+  private setRemoteHold(identity: string, onHold: boolean): void {
+    const wasOnHold = this.remoteHolds.has(identity);
+    if (wasOnHold === onHold) return;
+
+    if (onHold) {
+      this.remoteHolds.add(identity);
+    } else {
+      this.remoteHolds.delete(identity);
+    }
+    this.updateHoldTiming();
+    this.log(`${identity} ${onHold ? 'put the call on hold' : 'resumed the call'}`);
+    this.events.emit('remote-hold-changed', identity, onHold);
+  }
+
+  private getHoldTiming(): HoldTiming {
+    return { holdMs: this.holdMs, holdCount: this.holdCount, holdStartedAt: this.holdStartedAt };
+  }
+
+  // Undoes a hold or resume that failed partway, so the failed attempt leaves no trace in the stats
+  private restoreHold(onHold: boolean, timing: HoldTiming): void {
+    this.isLocalHold = onHold;
+    this.holdMs = timing.holdMs;
+    this.holdCount = timing.holdCount;
+    this.holdStartedAt = timing.holdStartedAt;
+    this.audioOutput.setHeld(onHold);
+  }
+
+  // Hold time counts while anyone has the call on hold, so both sides record the same breakdown
+  private updateHoldTiming(): void {
+    const isHeld = this.isLocalHold || this.remoteHolds.size > 0;
+    if (isHeld && this.holdStartedAt === null) {
+      this.holdStartedAt = Date.now();
+      this.holdCount++;
+    } else if (!isHeld && this.holdStartedAt !== null) {
+      this.holdMs += Date.now() - this.holdStartedAt;
+      this.holdStartedAt = null;
+    }
+  }
+
+  private async startHoldMusic(): Promise<void> {
+    const holdMusic = new HoldMusic();
+    const mediaStreamTrack = await holdMusic.start(await this.getProcessingAudioContext());
+    this.holdMusic = holdMusic;
+    this.holdMusicTrack = new LocalAudioTrack(mediaStreamTrack, undefined, true);
+    await this.room.localParticipant.publishTrack(this.holdMusicTrack, {
+      name: 'hold-music',
+      source: Track.Source.Unknown,
+      dtx: false,
+    });
+  }
+
+  private async stopHoldMusic(): Promise<void> {
+    const track = this.holdMusicTrack;
+    this.holdMusicTrack = null;
+    if (track && this.isConnected) {
+      await this.room.localParticipant.unpublishTrack(track)
+        .catch(error => console.warn('⚠️ Failed to unpublish hold music:', error));
+    }
+    track?.stop();
+    this.holdMusic?.stop();
+    this.holdMusic = null;
+  }
+
+  private async getProcessingAudioContext(): Promise<AudioContext> {
+    if (!this.processingAudioContext || this.processingAudioContext.state === 'closed') {
+      this.processingAudioContext = new AudioContext();
+    }
+    await this.processingAudioContext.resume();
+    return this.processingAudioContext;
+  }
+
+  // LiveKit only sets up E2EE for a new Room, so the room is rebuilt with it. Media is encrypted
+  // but data packets are not, so server notices such as admin-control keep arriving.
+  enableEncryption(): void {
+    if (this.isConnected) {
+      throw new Error('Encryption must be enabled before connecting');
+    }
+    if (this.keyProvider) return;
+
+    this.keyProvider = new ExternalE2EEKeyProvider();
+    this.qualityMonitor.stop();
+    this.room.removeAllListeners();
+    this.room = new Room({
+      ...this.room.options,
+      e2ee: {
+        keyProvider: this.keyProvider,
+        worker: new Worker(new URL('livekit-client/e2ee-worker', import.meta.url), { type: 'module' }),
+      },
+    });
+    this.qualityMonitor = new CallQualityMonitor(this.room);
+    this.watchQuality();
+    this.setupRoomListeners();
+    this.setEncryptionState('pending');
+  }
+
+  // Applies the key agreed with the other side. Nothing already published is republished, so
+  // callers hold their tracks back until this resolves.
+  async setEncryptionKey(key: ArrayBuffer): Promise<void> {
+    if (!this.keyProvider) {
+      throw new Error('Encryption is not enabled for this call');
+    }
+    if (this.encryptionState === 'refused-sip') return;
+    if (this.hasSipParticipant()) {
+      await this.refuseEncryptionForSip();
+      return;
+    }
+
+    await this.keyProvider.setKey(key);
+    await this.room.setE2EEEnabled(true);
+    this.log('Call is end-to-end encrypted');
+    this.setEncryptionState('encrypted');
+  }
+
+  getEncryptionState(): EncryptionState {
+    return this.encryptionState;
+  }
+
+  private async refuseEncryptionForSip(): Promise<void> {
+    this.setEncryptionState('refused-sip');
+    this.log('A phone participant joined; end-to-end encryption is off for this call');
+    if (this.room.isE2EEEnabled) {
+      await this.room.setE2EEEnabled(false)
+        .catch(error => console.error('❌ Failed to turn off encryption:', error));
+    }
+  }
+
+  private setEncryptionState(state: EncryptionState): void {
+    if (this.encryptionState === state) return;
+    this.encryptionState = state;
+    this.events.emit('encryption-changed', state);
+  }
+
+  hasSipParticipant(): boolean {
+    return Array.from(this.room.remoteParticipants.values()).some(participant => participant.kind === ParticipantKind.SIP);
+  }
+
+  // LiveKit relays the digit to every SIP participant as RFC 2833 (or SIP INFO, per trunk).
+  // Works for calls dialed through LiveKit and for Twilio calls bridged in over SIP alike.
+  sendDtmf(digit: string): Promise<void> {
+    const code = getDtmfCode(digit);
+    if (code === null) {
+      return Promise.reject(new Error(`Invalid DTMF digit: ${digit}`));
+    }
+
+    const send = this.dtmfQueue.then(async () => {
+      if (!this.hasSipParticipant()) {
+        throw new Error('No phone participant in the call');
+      }
+      await this.room.localParticipant.publishDtmf(code, digit);
+      console.log('☎️ DTMF sent:', digit);
+    });
+    this.dtmfQueue = send.catch(() => undefined);
+    return send;
+  }
+
+  getNetworkStats(): Map<string, ParticipantNetworkStats> {
+    return this.qualityMonitor.getLatestStats();
+  }
+
+  getCallQualitySummary(): CallQualitySummary | null {
+    return this.qualityMonitor.getSummary();
+  }
+
+  resetCallQualityStats(): void {
+    this.qualityMonitor.reset();
+  }
+
   getParticipants(): RemoteParticipant[] {
     return Array.from(this.room.remoteParticipants.values());
   }
@@ -461,39 +1456,128 @@ export class LiveKitClient {
     });
   }
 
-  async toggleRemoteParticipantAudio(participantIdentity: string, muted: boolean): Promise<void> {
-    try {
-      console.log(`Sending mute command to ${participantIdentity}: ${muted}`);
-      await this.sendData({
-        event: 'admin-control',
-        action: 'mute-audio',
-        targetParticipant: participantIdentity,
-        muted: muted,
-      });
-      this.onLogMessage(`Sent audio ${muted ? 'mute' : 'unmute'} to ${participantIdentity}`);
-    } catch (error) {
-      console.error('Failed to toggle remote participant audio:', error);
-      throw error;
+  private setConnectionStatus(status: ConnectionStatus): void {
+    this.connectionStatus = status;
+    this.events.emit('connection-status', status);
+  }
+
+  private handleRoomDisconnected(reason?: DisconnectReason): void {
+    if (this.isIntentionalDisconnect || this.isRejoining) {
+      return;
+    }
+
+    // Tracks are stopped by the SDK on an unexpected disconnect; remember what to republish
+    const hadAudio = this.localAudioTrack !== null;
+    const hadVideo = this.localVideoTrack !== null;
+    this.localAudioTrack = null;
+    this.localVideoTrack = null;
+    if (this.screenShareTracks.length > 0) {
+      this.screenShareTracks.forEach(track => track.stop());
+      this.screenShareTracks = [];
+      this.events.emit('screen-share-changed', this.room.localParticipant.identity, false);
+    }
+    this.audioOutput.detachAll();
+
+    const cause = this.getDisconnectCause(reason);
+    if (cause !== 'unknown' || !this.tokenProvider || !this.serverUrl) {
+      this.finishDisconnect(cause);
+      return;
+    }
+
+    this.rejoin(hadAudio, hadVideo);
+  }
+
+  private getDisconnectCause(reason?: DisconnectReason): DisconnectCause {
+    switch (reason) {
+      case DisconnectReason.CLIENT_INITIATED:
+        return 'client-initiated';
+      case DisconnectReason.PARTICIPANT_REMOVED:
+        return 'removed';
+      case DisconnectReason.ROOM_DELETED:
+        return 'room-deleted';
+      case DisconnectReason.DUPLICATE_IDENTITY:
+        return 'duplicate-identity';
+      default:
+        return 'unknown';
     }
   }
 
-  async toggleRemoteParticipantVideo(participantIdentity: string, enabled: boolean): Promise<void> {
+  private finishDisconnect(cause: DisconnectCause): void {
+    const messages: Record<DisconnectCause, string> = {
+      'client-initiated': 'You left the call',
+      'removed': 'You were removed from the call by the host',
+      'room-deleted': 'The call was closed',
+      'duplicate-identity': 'You joined this call from another device',
+      'reconnect-failed': 'Connection lost and could not be restored',
+      'join-failed': 'Could not join the call',
+      'unknown': 'Connection lost',
+    };
+
+    this.qualityMonitor.stop();
+    this.sessionId = '';
+    this.setConnectionStatus({ status: 'disconnected', cause, message: messages[cause] });
+  }
+
+  private async rejoin(hadAudio: boolean, hadVideo: boolean): Promise<void> {
+    this.isRejoining = true;
+
     try {
-      console.log(`Sending video command to ${participantIdentity}: ${enabled ? 'enable' : 'disable'}`);
-      await this.sendData({
-        event: 'admin-control',
-        action: 'toggle-video',
-        targetParticipant: participantIdentity,
-        enabled: enabled,
-      });
-      this.onLogMessage(`Sent video ${enabled ? 'enable' : 'disable'} to ${participantIdentity}`);
-    } catch (error) {
-      console.error('Failed to toggle remote participant video:', error);
-      throw error;
+      for (let attempt = 1; attempt <= this.maxRejoinAttempts; attempt++) {
+        if (this.isIntentionalDisconnect) return;
+
+        this.setConnectionStatus({ status: 'reconnecting', attempt, maxAttempts: this.maxRejoinAttempts });
+        const delay = Math.min(REJOIN_BASE_DELAY_MS * 2 ** (attempt - 1), REJOIN_MAX_DELAY_MS);
+        console.log(`🔄 Rejoin attempt ${attempt}/${this.maxRejoinAttempts} in ${delay}ms`);
+        this.log(`Rejoining (attempt ${attempt}/${this.maxRejoinAttempts})...`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+
+        if (this.isIntentionalDisconnect) return;
+
+        try {
+          const token = await this.tokenProvider!();
+          await this.room.connect(this.serverUrl!, token, { autoSubscribe: true });
+        } catch (error) {
+          console.warn(`⚠️ Rejoin attempt ${attempt} failed:`, error);
+          continue;
+        }
+
+        this.isConnected = true;
+        this.sessionId = this.room.name || this.sessionId;
+        this.log('Rejoined room');
+        console.log('✅ Rejoined LiveKit room');
+
+        if (hadAudio) {
+          await this.publishAudio().catch(error => console.error('❌ Failed to republish audio:', error));
+        }
+        if (hadVideo) {
+          await this.publishVideo().catch(error => console.error('❌ Failed to republish video:', error));
+        }
+        if (this.isLocalHold) {
+          await this.stopHoldMusic();
+          await this.startHoldMusic().catch(error => console.error('❌ Failed to restart hold music:', error));
+          await this.sendData({ event: 'hold', action: 'hold' }).catch(() => undefined);
+        }
+        if (this.recordingAnnouncement) {
+          await this.sendData(this.recordingAnnouncement).catch(() => undefined);
+        }
+        if (this.localHandRaisedAt !== null) {
+          await this.sendData({ event: 'hand', action: 'raise', raisedAt: this.localHandRaisedAt }).catch(() => undefined);
+        }
+
+        this.setConnectionStatus({ status: 'connected' });
+        this.events.emit('reconnected');
+        return;
+      }
+
+      console.error('❌ Giving up after', this.maxRejoinAttempts, 'rejoin attempts');
+      this.log('Could not rejoin the room');
+      this.finishDisconnect('reconnect-failed');
+    } finally {
+      this.isRejoining = false;
     }
   }
 
-  private async handleAdminControl(data: any): Promise<void> {
+  private async handleAdminControl(data: AdminControlMessage): Promise<void> {
     if (data.targetParticipant !== this.room.localParticipant.identity) {
       return;
     }
@@ -501,21 +1585,17 @@ export class LiveKitClient {
     console.log('📨 Received admin control:', data);
 
     if (data.action === 'mute-audio') {
-      if (data.muted && this.localAudioTrack) {
-        await this.localAudioTrack.mute();
-        this.onLogMessage('Admin muted your audio');
-      } else if (!data.muted && this.localAudioTrack) {
-        await this.localAudioTrack.unmute();
-        this.onLogMessage('Admin unmuted your audio');
-      }
+      this.log(data.muted ? 'Host muted your audio' : 'Host unmuted your audio');
     } else if (data.action === 'toggle-video') {
       if (!data.enabled && this.localVideoTrack) {
         await this.unpublishVideo();
-        this.onLogMessage('Admin disabled your video');
-      } else if (data.enabled && !this.localVideoTrack) {
-        await this.publishVideo();
-        this.onLogMessage('Admin enabled your video');
+        this.log('Host disabled your video');
+      } else if (data.enabled) {
+        this.log('Host allowed your video again');
       }
+    } else if (data.action === 'lower-hand') {
+      await this.lowerHand();
+      this.log('Host lowered your hand');
     }
   }
 }
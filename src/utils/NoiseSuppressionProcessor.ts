@@ -0,0 +1,107 @@
+import { AudioProcessorOptions, Track, TrackProcessor } from 'livekit-client';
+import { TypedEventEmitter } from './TypedEventEmitter';
+import workletUrl from './NoiseSuppressionWorklet.ts?worker&url';
+
+const PROCESSOR_NAME = 'noise-suppression-processor';
+
+export const DEFAULT_NOISE_SUPPRESSION_STRENGTH = 0.5;
+
+// Timings are null in browsers that do not expose performance.now() to audio worklets
+export interface NoiseSuppressionStats {
+  avgFrameMs: number | null;
+  maxFrameMs: number | null;
+  // Time available per 128-sample render quantum before the audio thread falls behind
+  frameBudgetMs: number;
+  loadPct: number | null;
+  maxReductionDb: number;
+}
+
+interface NoiseSuppressionEvents {
+  'stats': (stats: NoiseSuppressionStats) => void;
+}
+
+// A worklet module only needs to be added once per AudioContext
+const loadedContexts = new WeakSet<AudioContext>();
+
+// LiveKit track processor that routes the microphone through the noise suppression worklet
+// before it is published. LiveKit calls restart() when the microphone device changes.
+export class NoiseSuppressionProcessor implements TrackProcessor<Track.Kind.Audio, AudioProcessorOptions> {
+  name = 'noise-suppression';
+  processedTrack?: MediaStreamTrack;
+
+  private strength: number;
+  private source: MediaStreamAudioSourceNode | null = null;
+  private workletNode: AudioWorkletNode | null = null;
+  private destination: MediaStreamAudioDestinationNode | null = null;
+  private events = new TypedEventEmitter<NoiseSuppressionEvents>();
+
+  constructor(strength: number = DEFAULT_NOISE_SUPPRESSION_STRENGTH) {
+    this.strength = strength;
+  }
+
+  static isSupported(): boolean {
+    return typeof AudioWorkletNode !== 'undefined';
+  }
+
+  on<E extends keyof NoiseSuppressionEvents>(event: E, handler: NoiseSuppressionEvents[E]): () => void {
+    return this.events.on(event, handler);
+  }
+
+  async init({ track, audioContext }: AudioProcessorOptions): Promise<void> {
+    if (!loadedContexts.has(audioContext)) {
+      await audioContext.audioWorklet.addModule(workletUrl);
+      loadedContexts.add(audioContext);
+    }
+
+    this.source = audioContext.createMediaStreamSource(new MediaStream([track]));
+    this.workletNode = new AudioWorkletNode(audioContext, PROCESSOR_NAME, {
+      numberOfInputs: 1,
+      numberOfOutputs: 1,
+      parameterData: { strength: this.strength },
+    });
+    this.destination = audioContext.createMediaStreamDestination();
+
+    this.workletNode.port.onmessage = (event: MessageEvent<NoiseSuppressionStats>) => {
+      this.events.emit('stats', event.data);
+    };
+
+    this.source.connect(this.workletNode).connect(this.destination);
+    this.processedTrack = this.destination.stream.getAudioTracks()[0];
+    console.log('🔇 [NoiseSuppression] Processor started, strength:', this.strength);
+  }
+
+  async restart(options: AudioProcessorOptions): Promise<void> {
+    await this.teardown();
+    await this.init(options);
+  }
+
+  async destroy(): Promise<void> {
+    await this.teardown();
+    this.events.removeAllListeners();
+  }
+
+  setStrength(strength: number): void {
+    this.strength = Math.min(1, Math.max(0, strength));
+    const param = this.workletNode?.parameters.get('strength');
+    if (param && this.workletNode) {
+      param.setTargetAtTime(this.strength, this.workletNode.context.currentTime, 0.05);
+    }
+  }
+
+  getStrength(): number {
+    return this.strength;
+  }
+
+  private async teardown(): Promise<void> {
+    if (this.workletNode) {
+      this.workletNode.port.onmessage = null;
+    }
+    this.source?.disconnect();
+    this.workletNode?.disconnect();
+    this.processedTrack?.stop();
+    this.source = null;
+    this.workletNode = null;
+    this.destination = null;
+    this.processedTrack = undefined;
+  }
+}
@@ -0,0 +1,126 @@
+// Runs in the AudioWorkletGlobalScope, which has no DOM; the globals it provides are declared here
+// because the app's TypeScript lib only covers the main thread.
+declare const sampleRate: number;
+declare function registerProcessor(name: string, processorCtor: new (options?: unknown) => AudioWorkletProcessor): void;
+declare abstract class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor(options?: unknown);
+  abstract process(inputs: Float32Array[][], outputs: Float32Array[][], parameters: Record<string, Float32Array>): boolean;
+}
+
+// Must match the name NoiseSuppressionProcessor loads; not imported, as this file only runs in the worklet
+const PROCESSOR_NAME = 'noise-suppression-processor';
+
+// Strength 0 passes audio through untouched, strength 1 attenuates noise by this much
+const MAX_ATTENUATION_DB = 30;
+// The gate opens this many dB above the estimated noise floor at strength 1
+const MAX_THRESHOLD_DB = 12;
+const ATTACK_MS = 5;
+const RELEASE_MS = 120;
+// Keeps the gate open between words so trailing consonants are not chopped off
+const HOLD_MS = 150;
+// The noise floor follows drops immediately but rises slowly, so speech does not raise it
+const NOISE_FLOOR_RISE_PER_SECOND_DB = 3;
+const MIN_NOISE_FLOOR = 1e-5;
+const STATS_INTERVAL_MS = 1000;
+
+function dbToGain(db: number): number {
+  return Math.pow(10, db / 20);
+}
+
+const now = typeof performance !== 'undefined' ? () => performance.now() : null;
+
+// A downward expander: an adaptive noise-floor estimate decides when the signal is speech,
+// and everything below it is attenuated with smoothed attack and release so the gate never clicks.
+class NoiseSuppressionProcessor extends AudioWorkletProcessor {
+  static get parameterDescriptors() {
+    return [{ name: 'strength', defaultValue: 0.5, minValue: 0, maxValue: 1, automationRate: 'k-rate' }];
+  }
+
+  private noiseFloor = 1e-3;
+  private gain = 1;
+  private holdSamples = 0;
+  private attackCoeff = 1 - Math.exp(-1 / ((ATTACK_MS / 1000) * sampleRate));
+  private releaseCoeff = 1 - Math.exp(-1 / ((RELEASE_MS / 1000) * sampleRate));
+  private statsFrames = 0;
+  private statsSamples = 0;
+  private statsTotalMs = 0;
+  private statsMaxMs = 0;
+  private statsMinGain = 1;
+
+  process(inputs: Float32Array[][], outputs: Float32Array[][], parameters: Record<string, Float32Array>): boolean {
+    const input = inputs[0];
+    const output = outputs[0];
+    if (!input || input.length === 0) return true;
+
+    const startedAt = now?.();
+    const frameLength = input[0].length;
+    const strength = parameters.strength[0];
+
+    let sumSquares = 0;
+    for (let i = 0; i < frameLength; i++) {
+      sumSquares += input[0][i] * input[0][i];
+    }
+    const rms = Math.sqrt(sumSquares / frameLength);
+
+    const frameSeconds = frameLength / sampleRate;
+    if (rms < this.noiseFloor) {
+      this.noiseFloor = Math.max(rms, MIN_NOISE_FLOOR);
+    } else {
+      this.noiseFloor *= dbToGain(NOISE_FLOOR_RISE_PER_SECOND_DB * frameSeconds);
+    }
+
+    const threshold = this.noiseFloor * dbToGain(MAX_THRESHOLD_DB * strength);
+    if (rms > threshold) {
+      this.holdSamples = (HOLD_MS / 1000) * sampleRate;
+    } else {
+      this.holdSamples = Math.max(0, this.holdSamples - frameLength);
+    }
+
+    const targetGain = this.holdSamples > 0 ? 1 : dbToGain(-MAX_ATTENUATION_DB * strength);
+    const coeff = targetGain > this.gain ? this.attackCoeff : this.releaseCoeff;
+
+    for (let i = 0; i < frameLength; i++) {
+      this.gain += (targetGain - this.gain) * coeff;
+      for (let channel = 0; channel < output.length; channel++) {
+        const source = input[channel] || input[0];
+        output[channel][i] = source[i] * this.gain;
+      }
+    }
+
+    this.recordStats(frameLength, startedAt);
+    return true;
+  }
+
+  private recordStats(frameLength: number, startedAt: number | undefined): void {
+    this.statsFrames++;
+    this.statsSamples += frameLength;
+    this.statsMinGain = Math.min(this.statsMinGain, this.gain);
+
+    if (startedAt !== undefined && now) {
+      const elapsed = now() - startedAt;
+      this.statsTotalMs += elapsed;
+      this.statsMaxMs = Math.max(this.statsMaxMs, elapsed);
+    }
+
+    if ((this.statsSamples / sampleRate) * 1000 < STATS_INTERVAL_MS) return;
+
+    const frameBudgetMs = (frameLength / sampleRate) * 1000;
+    const avgFrameMs = now ? this.statsTotalMs / this.statsFrames : null;
+    this.port.postMessage({
+      avgFrameMs,
+      maxFrameMs: now ? this.statsMaxMs : null,
+      frameBudgetMs,
+      loadPct: avgFrameMs !== null ? (avgFrameMs / frameBudgetMs) * 100 : null,
+      maxReductionDb: 20 * Math.log10(Math.max(this.statsMinGain, 1e-6)),
+    });
+
+    this.statsFrames = 0;
+    this.statsSamples = 0;
+    this.statsTotalMs = 0;
+    this.statsMaxMs = 0;
+    this.statsMinGain = this.gain;
+  }
+}
+
+registerProcessor(PROCESSOR_NAME, NoiseSuppressionProcessor);
@@ -0,0 +1,169 @@
+import { TypedEventEmitter } from './TypedEventEmitter';
+
+export type PictureInPictureMode = 'document' | 'video';
+
+// Actions a video-element PiP window can show buttons for. Not yet in the DOM typings.
+type CallMediaSessionAction = 'togglemicrophone' | 'togglecamera' | 'hangup' | 'enterpictureinpicture';
+
+interface CallMediaSession {
+  setActionHandler(action: CallMediaSessionAction, handler: (() => void) | null): void;
+  setMicrophoneActive?(active: boolean): void;
+  setCameraActive?(active: boolean): void;
+}
+
+interface DocumentPictureInPicture {
+  requestWindow(options?: { width?: number; height?: number }): Promise<Window>;
+  window: Window | null;
+}
+
+export interface PictureInPictureControls {
+  onToggleMute: () => void;
+  onToggleCamera: () => void;
+  onHangUp: () => void;
+}
+
+interface CallPictureInPictureEvents {
+  'closed': () => void;
+}
+
+const WINDOW_SIZE = { width: 360, height: 300 };
+const AUTO_STORAGE_KEY_PREFIX = 'auto_picture_in_picture_';
+
+function getDocumentPictureInPicture(): DocumentPictureInPicture | undefined {
+  return (window as Window & { documentPictureInPicture?: DocumentPictureInPicture }).documentPictureInPicture;
+}
+
+function getMediaSession(): CallMediaSession | undefined {
+  return 'mediaSession' in navigator ? (navigator.mediaSession as unknown as CallMediaSession) : undefined;
+}
+
+// Sets a media session handler, ignoring browsers that do not know the action
+function setActionHandler(action: CallMediaSessionAction, handler: (() => void) | null): void {
+  try {
+    getMediaSession()?.setActionHandler(action, handler);
+  } catch {
+    // Unsupported action
+  }
+}
+
+export function loadAutoPictureInPicture(userId: string): boolean {
+  return localStorage.getItem(AUTO_STORAGE_KEY_PREFIX + userId) === 'true';
+}
+
+export function saveAutoPictureInPicture(userId: string, enabled: boolean): void {
+  localStorage.setItem(AUTO_STORAGE_KEY_PREFIX + userId, String(enabled));
+}
+
+/**
+ * Floats the call above other tabs. Document Picture-in-Picture gives a small window we can
+ * render the call view and its buttons into; where it is missing, the speaker's video element
+ * goes into a regular PiP window and the buttons come from the media session.
+ */
+export class CallPictureInPicture {
+  private events = new TypedEventEmitter<CallPictureInPictureEvents>();
+  private mode: PictureInPictureMode | null = null;
+  private pipWindow: Window | null = null;
+
+  static getSupportedMode(): PictureInPictureMode | null {
+    if (getDocumentPictureInPicture()) return 'document';
+    if (document.pictureInPictureEnabled) return 'video';
+    return null;
+  }
+
+  on<E extends keyof CallPictureInPictureEvents>(event: E, handler: CallPictureInPictureEvents[E]): () => void {
+    return this.events.on(event, handler);
+  }
+
+  getMode(): PictureInPictureMode | null {
+    return this.mode;
+  }
+
+  // Resolves with the element to render the call view into
+  async openDocument(): Promise<HTMLElement> {
+    const documentPictureInPicture = getDocumentPictureInPicture();
+    if (!documentPictureInPicture) {
+      throw new Error('Document Picture-in-Picture is not supported');
+    }
+
+    const pipWindow = await documentPictureInPicture.requestWindow(WINDOW_SIZE);
+    this.copyStyles(pipWindow.document);
+    pipWindow.document.body.className = 'bg-slate-900 text-white m-0';
+    const container = pipWindow.document.createElement('div');
+    pipWindow.document.body.appendChild(container);
+
+    pipWindow.addEventListener('pagehide', () => this.handleClosed(), { once: true });
+    this.pipWindow = pipWindow;
+    this.mode = 'document';
+    return container;
+  }
+
+  async openVideo(video: HTMLVideoElement, controls: PictureInPictureControls): Promise<void> {
+    await video.requestPictureInPicture();
+
+    setActionHandler('togglemicrophone', controls.onToggleMute);
+    setActionHandler('togglecamera', controls.onToggleCamera);
+    setActionHandler('hangup', controls.onHangUp);
+    video.addEventListener('leavepictureinpicture', () => this.handleClosed(), { once: true });
+    this.mode = 'video';
+  }
+
+  // Keeps the buttons of a video-element PiP window showing the right state
+  setMediaState(microphoneActive: boolean, cameraActive: boolean): void {
+    if (this.mode !== 'video') return;
+    getMediaSession()?.setMicrophoneActive?.(microphoneActive);
+    getMediaSession()?.setCameraActive?.(cameraActive);
+  }
+
+  // Lets Chrome open the window by itself when the tab is hidden, which it only allows for
+  // pages that register this handler
+  setAutoEnterHandler(handler: (() => void) | null): void {
+    setActionHandler('enterpictureinpicture', handler);
+  }
+
+  async close(): Promise<void> {
+    if (this.mode === 'document') {
+      this.pipWindow?.close();
+    } else if (this.mode === 'video' && document.pictureInPictureElement) {
+      await document.exitPictureInPicture().catch(() => undefined);
+    }
+    this.handleClosed();
+  }
+
+  destroy(): void {
+    void this.close();
+    this.setAutoEnterHandler(null);
+    this.events.removeAllListeners();
+  }
+
+  private handleClosed(): void {
+    if (this.mode === null) return;
+
+    if (this.mode === 'video') {
+      setActionHandler('togglemicrophone', null);
+      setActionHandler('togglecamera', null);
+      setActionHandler('hangup', null);
+    }
+    this.mode = null;
+    this.pipWindow = null;
+    this.events.emit('closed');
+  }
+
+  // The PiP window starts with an empty document, so the app's stylesheets are copied over
+  private copyStyles(target: Document): void {
+    Array.from(document.styleSheets).forEach(styleSheet => {
+      try {
+        const style = target.createElement('style');
+        style.textContent = Array.from(styleSheet.cssRules).map(rule => rule.cssText).join('\n');
+        target.head.appendChild(style);
+      } catch {
+        // Cross-origin sheets cannot be read, so link them instead
+        if (styleSheet.href) {
+          const link = target.createElement('link');
+          link.rel = 'stylesheet';
+          link.href = styleSheet.href;
+          target.head.appendChild(link);
+        }
+      }
+    });
+  }
+}
@@ -0,0 +1,367 @@
+import { LocalTrack, Room, Track } from 'livekit-client';
+import { AudioRecorder } from './AudioRecorder';
+import { TokenManager } from './TokenManager';
+import { TypedEventEmitter } from './TypedEventEmitter';
+
+export type PreCallCheckName = 'microphone' | 'speaker' | 'camera' | 'network';
+
+export type PreCallCheckStatus = 'idle' | 'running' | 'pass' | 'warn' | 'fail';
+
+export interface PreCallCheckResult {
+  status: PreCallCheckStatus;
+  message: string;
+  // The speaker check can only be judged by the user, see confirmSpeaker()
+  needsConfirmation?: boolean;
+}
+
+export interface NetworkCheckDetails {
+  connectMs: number;
+  rttMs: number | null;
+  // Measured upload rate of the synthetic test video
+  bitrateKbps: number | null;
+  // Upload capacity estimated by the browser's congestion control
+  availableKbps: number | null;
+}
+
+interface PreCallCheckEvents {
+  'result-changed': (name: PreCallCheckName, result: PreCallCheckResult) => void;
+  'mic-level': (level: number) => void;
+  'network-details': (details: NetworkCheckDetails) => void;
+}
+
+// Levels come from AudioRecorder, which already applies adaptive gain
+const MIC_GOOD_LEVEL = 0.15;
+const MIC_SILENT_LEVEL = 0.02;
+const MIC_LISTEN_MS = 5000;
+const TONE_DURATION_S = 1.5;
+const NETWORK_WARMUP_MS = 1000;
+const NETWORK_SAMPLE_MS = 5000;
+const TEST_VIDEO_BITRATE = 1_500_000;
+const RTT_WARN_MS = 150;
+const RTT_FAIL_MS = 400;
+const BITRATE_WARN_KBPS = 1000;
+const BITRATE_FAIL_KBPS = 300;
+
+const SKIP_STORAGE_KEY_PREFIX = 'precall_check_skip_';
+
+export function isPreCallCheckSkipped(userId: string): boolean {
+  return localStorage.getItem(SKIP_STORAGE_KEY_PREFIX + userId) === 'true';
+}
+
+export function setPreCallCheckSkipped(userId: string, skipped: boolean): void {
+  if (skipped) {
+    localStorage.setItem(SKIP_STORAGE_KEY_PREFIX + userId, 'true');
+  } else {
+    localStorage.removeItem(SKIP_STORAGE_KEY_PREFIX + userId);
+  }
+}
+
+function idleResults(): Record<PreCallCheckName, PreCallCheckResult> {
+  return {
+    microphone: { status: 'idle', message: 'Not checked yet' },
+    speaker: { status: 'idle', message: 'Play the test tone' },
+    camera: { status: 'idle', message: 'Not checked yet' },
+    network: { status: 'idle', message: 'Not checked yet' },
+  };
+}
+
+function getErrorMessage(error: unknown, fallback: string): string {
+  if (error instanceof DOMException) {
+    if (error.name === 'NotAllowedError') return 'Access was denied. Allow it in your browser settings.';
+    if (error.name === 'NotFoundError' || error.name === 'OverconstrainedError') return 'The selected device was not found.';
+    if (error.name === 'NotReadableError') return 'The device is in use by another application.';
+  }
+  return error instanceof Error ? error.message : fallback;
+}
+
+function exactDevice(deviceId?: string): ConstrainDOMString | undefined {
+  return deviceId && deviceId !== 'default' ? { exact: deviceId } : undefined;
+}
+
+// Runs the device and network checks shown before a web call. The connectivity test joins a
+// throwaway LiveKit room and publishes a synthetic video track to measure round trip and upload.
+export class PreCallCheck {
+  private tokenManager: TokenManager | null;
+  private identity: string;
+  private results = idleResults();
+  private events = new TypedEventEmitter<PreCallCheckEvents>();
+  private recorder: AudioRecorder | null = null;
+  private micTimer: ReturnType<typeof setTimeout> | null = null;
+  private micPeak = 0;
+  private cameraStream: MediaStream | null = null;
+  private toneContext: AudioContext | null = null;
+  private networkRun = 0;
+
+  constructor(tokenManager: TokenManager | null, identity: string) {
+    this.tokenManager = tokenManager;
+    this.identity = identity;
+  }
+
+  on<E extends keyof PreCallCheckEvents>(event: E, handler: PreCallCheckEvents[E]): () => void {
+    return this.events.on(event, handler);
+  }
+
+  getResults(): Record<PreCallCheckName, PreCallCheckResult> {
+    return { ...this.results };
+  }
+
+  async startMicrophone(deviceId?: string): Promise<void> {
+    this.stopMicrophone();
+    this.micPeak = 0;
+    this.setResult('microphone', 'running', 'Say something to test your microphone');
+
+    const recorder = new AudioRecorder((level) => {
+      this.events.emit('mic-level', level);
+      this.micPeak = Math.max(this.micPeak, level);
+      if (this.micPeak >= MIC_GOOD_LEVEL && this.results.microphone.status === 'running') {
+        this.setResult('microphone', 'pass', 'Your microphone is picking up sound');
+      }
+    });
+    this.recorder = recorder;
+
+    try {
+      await recorder.start(deviceId);
+    } catch (error) {
+      if (this.recorder === recorder) {
+        this.recorder = null;
+        this.setResult('microphone', 'fail', getErrorMessage(error, 'Could not open the microphone'));
+      }
+      return;
+    }
+
+    this.micTimer = setTimeout(() => {
+      this.micTimer = null;
+      if (this.results.microphone.status !== 'running') return;
+
+      if (this.micPeak < MIC_SILENT_LEVEL) {
+        this.setResult('microphone', 'warn', 'No sound detected. Check that the microphone is not muted.');
+      } else {
+        this.setResult('microphone', 'warn', 'Your microphone sounds very quiet');
+      }
+    }, MIC_LISTEN_MS);
+  }
+
+  stopMicrophone(): void {
+    if (this.micTimer) {
+      clearTimeout(this.micTimer);
+      this.micTimer = null;
+    }
+    this.recorder?.stop();
+    this.recorder = null;
+  }
+
+  // Returns the preview stream, or null when the camera could not be opened
+  async startCamera(deviceId?: string): Promise<MediaStream | null> {
+    this.stopCamera();
+    this.setResult('camera', 'running', 'Opening camera...');
+
+    try {
+      const deviceConstraint = exactDevice(deviceId);
+      const stream = await navigator.mediaDevices.getUserMedia({
+        video: deviceConstraint
+          ? { deviceId: deviceConstraint, width: 1280, height: 720 }
+          : { facingMode: 'user', width: 1280, height: 720 },
+      });
+      this.cameraStream = stream;
+
+      const { width = 0, height = 0 } = stream.getVideoTracks()[0]?.getSettings() ?? {};
+      if (width > 0 && width < 640) {
+        this.setResult('camera', 'warn', `Your camera only provides ${width}x${height}`);
+      } else {
+        this.setResult('camera', 'pass', width > 0 ? `Camera working at ${width}x${height}` : 'Camera working');
+      }
+      return stream;
+    } catch (error) {
+      this.setResult('camera', 'fail', getErrorMessage(error, 'Could not open the camera'));
+      return null;
+    }
+  }
+
+  stopCamera(): void {
+    this.cameraStream?.getTracks().forEach(track => track.stop());
+    this.cameraStream = null;
+  }
+
+  // Plays a short tone on the selected speaker; the result waits for confirmSpeaker()
+  async playTestTone(outputDeviceId?: string): Promise<void> {
+    this.setResult('speaker', 'running', 'Playing test tone...');
+
+    try {
+      this.toneContext?.close();
+      const context = new AudioContext();
+      this.toneContext = context;
+
+      const oscillator = context.createOscillator();
+      const gain = context.createGain();
+      const destination = context.createMediaStreamDestination();
+      oscillator.frequency.value = 440;
+      gain.gain.setValueAtTime(0.2, context.currentTime);
+      gain.gain.linearRampToValueAtTime(0, context.currentTime + TONE_DURATION_S);
+      oscillator.connect(gain).connect(destination);
+
+      // Played through an element so the tone follows the selected output device
+      const element = new Audio();
+      element.srcObject = destination.stream;
+      if (outputDeviceId && 'setSinkId' in element) {
+        await element.setSinkId(outputDeviceId);
+      }
+      await element.play();
+      oscillator.start();
+      oscillator.stop(context.currentTime + TONE_DURATION_S);
+      oscillator.onended = () => {
+        element.pause();
+        element.srcObject = null;
+        if (this.toneContext === context) {
+          this.toneContext = null;
+        }
+        context.close();
+        this.setResult('speaker', 'running', 'Did you hear the tone?', true);
+      };
+    } catch (error) {
+      this.setResult('speaker', 'fail', getErrorMessage(error, 'Could not play the test tone'));
+    }
+  }
+
+  confirmSpeaker(heard: boolean): void {
+    if (heard) {
+      this.setResult('speaker', 'pass', 'Your speaker is working');
+    } else {
+      this.setResult('speaker', 'fail', 'No sound heard. Pick another speaker or check the volume.');
+    }
+  }
+
+  async runNetworkTest(serverUrl: string | undefined): Promise<void> {
+    const run = ++this.networkRun;
+    if (!serverUrl || !this.tokenManager) {
+      this.setResult('network', 'warn', 'Connectivity test is not available');
+      return;
+    }
+
+    this.setResult('network', 'running', 'Testing connection...');
+    const roomName = `precall-check-${this.identity}-${Date.now()}`;
+    const room = new Room();
+    let stopTestVideo: (() => void) | null = null;
+
+    try {
+      const token = await this.tokenManager.getToken(roomName, { identity: `${this.identity}-precheck` });
+      const connectStartedAt = performance.now();
+      await room.connect(serverUrl, token, { autoSubscribe: false });
+      const connectMs = Math.round(performance.now() - connectStartedAt);
+
+      const testVideo = this.createTestVideo();
+      stopTestVideo = testVideo.stop;
+      const publication = await room.localParticipant.publishTrack(testVideo.track, {
+        name: 'precall-check',
+        source: Track.Source.Unknown,
+        videoEncoding: { maxBitrate: TEST_VIDEO_BITRATE, maxFramerate: 15 },
+        simulcast: false,
+      });
+
+      await new Promise(resolve => setTimeout(resolve, NETWORK_WARMUP_MS));
+      const first = await this.readSenderStats(publication.track);
+      await new Promise(resolve => setTimeout(resolve, NETWORK_SAMPLE_MS));
+      const last = await this.readSenderStats(publication.track);
+
+      if (run !== this.networkRun) return;
+
+      const elapsedMs = last.timestamp - first.timestamp;
+      const details: NetworkCheckDetails = {
+        connectMs,
+        rttMs: last.rttMs,
+        bitrateKbps: elapsedMs > 0 ? Math.round(((last.bytesSent - first.bytesSent) * 8) / elapsedMs) : null,
+        availableKbps: last.availableKbps,
+      };
+      this.events.emit('network-details', details);
+      this.evaluateNetwork(details);
+    } catch (error) {
+      if (run === this.networkRun) {
+        this.setResult('network', 'fail', `Could not reach the call server: ${getErrorMessage(error, 'unknown error')}`);
+      }
+    } finally {
+      stopTestVideo?.();
+      await room.disconnect();
+      this.tokenManager.clearToken(roomName);
+    }
+  }
+
+  stop(): void {
+    this.networkRun++;
+    this.stopMicrophone();
+    this.stopCamera();
+    this.toneContext?.close();
+    this.toneContext = null;
+    this.events.removeAllListeners();
+  }
+
+  private evaluateNetwork({ rttMs, bitrateKbps, availableKbps }: NetworkCheckDetails): void {
+    const uploadKbps = Math.max(bitrateKbps ?? 0, availableKbps ?? 0);
+    const summary = [
+      rttMs !== null ? `${rttMs} ms round trip` : null,
+      uploadKbps > 0 ? `${uploadKbps} kbps upload` : null,
+    ].filter(Boolean).join(', ');
+
+    if ((rttMs !== null && rttMs >= RTT_FAIL_MS) || uploadKbps < BITRATE_FAIL_KBPS) {
+      this.setResult('network', 'fail', `Connection too weak for video (${summary || 'no data sent'})`);
+    } else if ((rttMs !== null && rttMs >= RTT_WARN_MS) || uploadKbps < BITRATE_WARN_KBPS) {
+      this.setResult('network', 'warn', `Video may be degraded (${summary})`);
+    } else {
+      this.setResult('network', 'pass', `Connection is good (${summary})`);
+    }
+  }
+
+  private async readSenderStats(track: LocalTrack | undefined) {
+    let bytesSent = 0;
+    let rttMs: number | null = null;
+    let availableKbps: number | null = null;
+
+    const report = await track?.getRTCStatsReport();
+    report?.forEach((stat) => {
+      if (stat.type === 'outbound-rtp' && stat.kind === 'video') {
+        bytesSent += stat.bytesSent ?? 0;
+      } else if (stat.type === 'candidate-pair' && stat.state === 'succeeded' && stat.nominated) {
+        if (typeof stat.currentRoundTripTime === 'number') {
+          rttMs = Math.round(stat.currentRoundTripTime * 1000);
+        }
+        if (typeof stat.availableOutgoingBitrate === 'number') {
+          availableKbps = Math.round(stat.availableOutgoingBitrate / 1000);
+        }
+      }
+    });
+
+    return { bytesSent, rttMs, availableKbps, timestamp: performance.now() };
+  }
+
+  // Random noise cannot be compressed, so the encoder has to use the bitrate it is given
+  private createTestVideo(): { track: MediaStreamTrack; stop: () => void } {
+    const canvas = document.createElement('canvas');
+    canvas.width = 480;
+    canvas.height = 270;
+    const ctx = canvas.getContext('2d');
+    const image = ctx?.createImageData(canvas.width, canvas.height);
+    const pixels = image ? new Uint32Array(image.data.buffer) : null;
+
+    const draw = () => {
+      if (!ctx || !image || !pixels) return;
+      for (let i = 0; i < pixels.length; i++) {
+        pixels[i] = (Math.random() * 0xffffff) | 0xff000000;
+      }
+      ctx.putImageData(image, 0, 0);
+    };
+    draw();
+    const timer = setInterval(draw, 1000 / 15);
+
+    const track = canvas.captureStream(15).getVideoTracks()[0];
+    return {
+      track,
+      stop: () => {
+        clearInterval(timer);
+        track.stop();
+      },
+    };
+  }
+
+  private setResult(name: PreCallCheckName, status: PreCallCheckStatus, message: string, needsConfirmation = false): void {
+    this.results[name] = { status, message, needsConfirmation };
+    this.events.emit('result-changed', name, this.results[name]);
+  }
+}
@@ -0,0 +1,60 @@
+import { supabase } from './supabase';
+import { CallRecording } from './CallRecorder';
+
+const RECORDINGS_BUCKET = 'call-recordings';
+
+// Web calls are linked by call_history.id, PSTN calls by the provider call id
+export type RecordingHistoryLink = { historyId: string } | { callId: string };
+
+export function getRecordingFileName(recording: CallRecording): string {
+  const stamp = recording.startedAt.toISOString().replace(/[:.]/g, '-');
+  return `call-recording-${stamp}.webm`;
+}
+
+export function downloadRecording(recording: CallRecording): void {
+  const url = URL.createObjectURL(recording.blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = getRecordingFileName(recording);
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export async function uploadRecording(
+  recording: CallRecording,
+  userId: string,
+  link: RecordingHistoryLink | null
+): Promise<string> {
+  const path = `${userId}/${getRecordingFileName(recording)}`;
+
+  const { error: uploadError } = await supabase.storage
+    .from(RECORDINGS_BUCKET)
+    .upload(path, recording.blob, { contentType: recording.blob.type, upsert: false });
+
+  if (uploadError) {
+    console.error('Error uploading call recording:', uploadError);
+    throw uploadError;
+  }
+
+  if (link) {
+    const update = supabase
+      .from('call_history')
+      .update({
+        recording_path: path,
+        recording_duration_seconds: recording.durationSeconds,
+      });
+
+    const { error: linkError } = 'historyId' in link
+      ? await update.eq('id', link.historyId)
+      : await update.eq('call_id', link.callId);
+
+    if (linkError) {
+      console.error('Error linking call recording to history:', linkError);
+      throw linkError;
+    }
+  }
+
+  return path;
+}
@@ -0,0 +1,102 @@
+import { Participant } from 'livekit-client';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase, CallInvitation } from './supabase';
+import { TypedEventEmitter } from './TypedEventEmitter';
+
+export type InviteeState = 'invited' | 'ringing' | 'joined' | 'declined';
+
+interface SessionInvitationTrackerEvents {
+  'invitations-changed': (invitations: CallInvitation[]) => void;
+}
+
+// LiveKit reports how far a dial-out has got in this participant attribute
+const SIP_CALL_STATUS_ATTRIBUTE = 'sip.callStatus';
+
+// Where someone invited into a running call has got to. Cancelled and ended invitations are
+// not shown, so they map to null.
+export function getInvitationState(invitation: CallInvitation, joinedIdentities: Set<string>): InviteeState | null {
+  if (joinedIdentities.has(invitation.callee_user_id) || invitation.status === 'accepted') {
+    return 'joined';
+  }
+
+  switch (invitation.status) {
+    case 'pending':
+      return invitation.ringing_at ? 'ringing' : 'invited';
+    case 'rejected':
+    case 'missed':
+      return 'declined';
+    default:
+      return null;
+  }
+}
+
+// A phone number dialled into the call is in the room from the moment it is dialled
+export function getSipDialState(participant: Participant): InviteeState {
+  const status = participant.attributes[SIP_CALL_STATUS_ATTRIBUTE];
+  if (status === 'dialing' || status === 'ringing') return 'ringing';
+  if (status === 'hangup') return 'declined';
+  return 'joined';
+}
+
+// Keeps the invitations of one call session up to date for everyone in the call, not just
+// whoever sent them.
+export class SessionInvitationTracker {
+  private sessionId: string;
+  private invitations = new Map<string, CallInvitation>();
+  private channel: RealtimeChannel | null = null;
+  private events = new TypedEventEmitter<SessionInvitationTrackerEvents>();
+
+  constructor(sessionId: string) {
+    this.sessionId = sessionId;
+  }
+
+  on<E extends keyof SessionInvitationTrackerEvents>(event: E, handler: SessionInvitationTrackerEvents[E]): () => void {
+    return this.events.on(event, handler);
+  }
+
+  async start(): Promise<void> {
+    this.channel = supabase
+      .channel(`session_invitations_${this.sessionId}`)
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'call_invitations',
+        filter: `session_id=eq.${this.sessionId}`,
+      }, (payload) => {
+        const invitation = payload.new as CallInvitation;
+        if (invitation?.id) {
+          this.upsert([invitation]);
+        }
+      });
+    await this.channel.subscribe();
+
+    const { data, error } = await supabase
+      .from('call_invitations')
+      .select('*')
+      .eq('session_id', this.sessionId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching call invitations:', error);
+      return;
+    }
+    this.upsert((data || []) as CallInvitation[]);
+  }
+
+  getInvitations(): CallInvitation[] {
+    return Array.from(this.invitations.values());
+  }
+
+  async stop(): Promise<void> {
+    this.events.removeAllListeners();
+    if (this.channel) {
+      await this.channel.unsubscribe();
+      this.channel = null;
+    }
+  }
+
+  private upsert(invitations: CallInvitation[]): void {
+    invitations.forEach(invitation => this.invitations.set(invitation.id, invitation));
+    this.events.emit('invitations-changed', this.getInvitations());
+  }
+}
@@ -1,10 +1,26 @@
+export interface TokenOptions {
+  identity?: string;
+  name?: string;
+  forceRefresh?: boolean;
+}
+
+const REFRESH_BUFFER_MS = 5 * 60 * 1000;
+const MIN_REFRESH_DELAY_MS = 30 * 1000;
+
+interface CachedToken {
+  token: string;
+  expiry: number | null;
+  identity: string;
+  name: string | undefined;
+  refreshTimer: ReturnType<typeof setTimeout> | null;
+}
+
 export class TokenManager {
   private userId: string;
   private organizationId: string | null;
   private deviceId: string;
-  private currentToken: string | null = null;
-  private tokenExpiry: number | null = null;
-  private currentRoomName: string | null = null;
+  // One entry per room, since a phone call and its consult room can be live at the same time
+  private tokens = new Map<string, CachedToken>();
 
   constructor(userId: string = 'web-user', organizationId: string | null = null, deviceId?: string) {
     this.userId = userId;
@@ -32,32 +48,41 @@ export class TokenManager {
     }
   }
 
-  private isTokenValid(): boolean {
-    if (!this.currentToken || !this.tokenExpiry) return false;
-    const bufferTime = 5 * 60 * 1000;
-    return this.tokenExpiry - Date.now() > bufferTime;
+  private isTokenValid(cached: CachedToken): boolean {
+    if (!cached.expiry) return false;
+    return cached.expiry - Date.now() > REFRESH_BUFFER_MS;
   }
 
-  async getToken(roomName: string): Promise<string> {
+  /**
+   * Returns a token for the room, reusing the cached one while it is valid. Pass an
+   * identity to join as someone other than this device (web calls join as the user id).
+   */
+  async getToken(roomName: string, options: TokenOptions = {}): Promise<string> {
     if (!roomName) {
       throw new Error('Room name is required');
     }
 
-    if (this.currentToken && this.isTokenValid() && this.currentRoomName === roomName) {
+    const identity = options.identity || this.deviceId;
+    const cached = this.tokens.get(roomName);
+    const isSameIdentity = cached?.identity === identity;
+
+    if (!options.forceRefresh && cached && this.isTokenValid(cached) && isSameIdentity) {
       console.log('Using valid cached token for same room');
-      return this.currentToken;
+      return cached.token;
     }
 
-    if (this.currentRoomName && this.currentRoomName !== roomName) {
-      console.log('Room name changed, requesting new token');
+    if (cached && !isSameIdentity) {
+      console.log('Identity changed, requesting new token');
     } else {
       console.log('Requesting new token from server');
     }
 
-    return await this.requestNewToken(roomName);
+    return await this.requestNewToken(roomName, identity, options.name);
   }
 
-  private async requestNewToken(roomName: string): Promise<string> {
+  // A refresh passes the entry it replaces, so a room cleared while the request was in flight
+  // is not cached (and refreshed) again
+  private async requestNewToken(roomName: string, identity: string, name?: string, replacing?: CachedToken): Promise<string> {
     const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
     const supabaseKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
 
@@ -69,8 +94,8 @@ export class TokenManager {
 
     const requestBody: Record<string, string> = {
       roomName: roomName,
-      participantIdentity: this.deviceId,
-      participantName: this.userId,
+      participantIdentity: identity,
+      participantName: name || this.userId,
     };
 
     if (this.organizationId) {
@@ -96,23 +121,62 @@ export class TokenManager {
       throw new Error('No token in response');
     }
 
-    this.currentToken = data.token;
-    this.tokenExpiry = this.parseJwtExpiry(data.token);
-    this.currentRoomName = roomName;
+    const previous = this.tokens.get(roomName);
+    if (replacing && previous !== replacing) {
+      return data.token;
+    }
+    if (previous?.refreshTimer) {
+      clearTimeout(previous.refreshTimer);
+    }
+
+    const cached: CachedToken = {
+      token: data.token,
+      expiry: this.parseJwtExpiry(data.token),
+      identity,
+      name,
+      refreshTimer: null,
+    };
+    this.tokens.set(roomName, cached);
+    this.scheduleRefresh(roomName, cached);
 
-    const expiryDate = this.tokenExpiry ? new Date(this.tokenExpiry).toLocaleString() : 'unknown';
+    const expiryDate = cached.expiry ? new Date(cached.expiry).toLocaleString() : 'unknown';
     console.log(`LiveKit token received for room ${roomName} (expires: ${expiryDate})`);
 
     return data.token;
   }
 
-  clearToken(): void {
-    this.currentToken = null;
-    this.tokenExpiry = null;
-    this.currentRoomName = null;
+  // Keeps the room's cached token fresh during long calls so a rejoin never has to wait on
+  // (or fail because of) an expired token. Runs until clearToken is called for the room.
+  private scheduleRefresh(roomName: string, cached: CachedToken): void {
+    if (!cached.expiry) return;
+
+    const refreshIn = Math.max(cached.expiry - Date.now() - REFRESH_BUFFER_MS, MIN_REFRESH_DELAY_MS);
+
+    cached.refreshTimer = setTimeout(() => {
+      cached.refreshTimer = null;
+      if (this.tokens.get(roomName) !== cached) return;
+
+      console.log(`Refreshing LiveKit token for room ${roomName} before it expires`);
+      this.requestNewToken(roomName, cached.identity, cached.name, cached).catch(error => {
+        console.error('Failed to refresh LiveKit token:', error);
+      });
+    }, refreshIn);
+  }
+
+  // Forgets the room's token and stops refreshing it; without a room name, forgets every room
+  clearToken(roomName?: string): void {
+    const roomNames = roomName ? [roomName] : Array.from(this.tokens.keys());
+    roomNames.forEach(name => {
+      const cached = this.tokens.get(name);
+      if (cached?.refreshTimer) {
+        clearTimeout(cached.refreshTimer);
+      }
+      this.tokens.delete(name);
+    });
   }
 
-  getTokenExpiry(): Date | null {
-    return this.tokenExpiry ? new Date(this.tokenExpiry) : null;
+  getTokenExpiry(roomName: string): Date | null {
+    const expiry = this.tokens.get(roomName)?.expiry;
+    return expiry ? new Date(expiry) : null;
   }
 }
@@ -0,0 +1,193 @@
+import { supabase } from './supabase';
+import { TranscriptMessage } from './DataProtocol';
+import { TypedEventEmitter } from './TypedEventEmitter';
+
+export interface TranscriptSegment {
+  id: string;
+  text: string;
+  isFinal: boolean;
+  speakerIdentity: string | null;
+  speakerName: string | null;
+  timestamp: number;
+}
+
+// Web calls are stored by call session, PSTN calls by the provider call id
+export type TranscriptLink = { sessionId: string } | { callId: string };
+
+export interface TranscriptSearchResult extends TranscriptSegment {
+  sessionId: string | null;
+  callId: string | null;
+}
+
+interface TranscriptServiceEvents {
+  'segments-changed': (segments: TranscriptSegment[]) => void;
+}
+
+interface TranscriptSegmentRow {
+  segment_id: string;
+  session_id: string | null;
+  call_id: string | null;
+  speaker_identity: string | null;
+  speaker_name: string | null;
+  body: string;
+  spoken_at: string;
+}
+
+const SEGMENT_COLUMNS = 'segment_id, session_id, call_id, speaker_identity, speaker_name, body, spoken_at';
+
+export function toTranscriptSegment(
+  message: TranscriptMessage,
+  senderIdentity?: string,
+  resolveSpeakerName?: (identity: string) => string | undefined
+): TranscriptSegment {
+  const speakerIdentity = message.speakerIdentity || senderIdentity || null;
+  return {
+    id: message.segmentId || crypto.randomUUID(),
+    text: message.text,
+    isFinal: message.isFinal ?? true,
+    speakerIdentity,
+    speakerName: message.speakerName || (speakerIdentity && resolveSpeakerName?.(speakerIdentity)) || null,
+    timestamp: message.timestamp ?? Date.now(),
+  };
+}
+
+function fromRow(row: TranscriptSegmentRow): TranscriptSearchResult {
+  return {
+    id: row.segment_id,
+    text: row.body,
+    isFinal: true,
+    speakerIdentity: row.speaker_identity,
+    speakerName: row.speaker_name,
+    timestamp: new Date(row.spoken_at).getTime(),
+    sessionId: row.session_id,
+    callId: row.call_id,
+  };
+}
+
+export async function fetchTranscript(link: TranscriptLink): Promise<TranscriptSegment[]> {
+  const query = supabase
+    .from('call_transcript_segments')
+    .select(SEGMENT_COLUMNS)
+    .order('spoken_at', { ascending: true });
+
+  const { data, error } = 'sessionId' in link
+    ? await query.eq('session_id', link.sessionId)
+    : await query.eq('call_id', link.callId);
+
+  if (error) {
+    console.error('Error fetching transcript:', error);
+    throw error;
+  }
+
+  return ((data || []) as TranscriptSegmentRow[]).map(fromRow);
+}
+
+export async function searchTranscripts(text: string, limit: number = 20): Promise<TranscriptSearchResult[]> {
+  const { data, error } = await supabase
+    .from('call_transcript_segments')
+    .select(SEGMENT_COLUMNS)
+    .textSearch('body', text, { config: 'simple', type: 'websearch' })
+    .order('spoken_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error('Error searching transcripts:', error);
+    throw error;
+  }
+
+  return ((data || []) as TranscriptSegmentRow[]).map(fromRow);
+}
+
+// Keeps the live transcript of the current call: interim segments are replaced in place as the
+// transcriber refines them, and final segments are stored once the call can be linked to history.
+export class TranscriptService {
+  private userId: string;
+  private link: TranscriptLink | null;
+  private segments: TranscriptSegment[] = [];
+  private unsaved: TranscriptSegment[] = [];
+  private events = new TypedEventEmitter<TranscriptServiceEvents>();
+
+  constructor(userId: string, link: TranscriptLink | null) {
+    this.userId = userId;
+    this.link = link;
+  }
+
+  on<E extends keyof TranscriptServiceEvents>(event: E, handler: TranscriptServiceEvents[E]): () => void {
+    return this.events.on(event, handler);
+  }
+
+  // The link is only known once the call is answered, so segments received before then are kept
+  setLink(link: TranscriptLink | null): void {
+    this.link = link;
+    if (link && this.unsaved.length > 0) {
+      const pending = this.unsaved;
+      this.unsaved = [];
+      this.persist(pending);
+    }
+  }
+
+  getSegments(): TranscriptSegment[] {
+    return this.segments;
+  }
+
+  addSegment(segment: TranscriptSegment): void {
+    const existing = this.segments.find(current => current.id === segment.id);
+    if (existing?.isFinal) return;
+
+    // A new segment from the same speaker means their previous interim text was abandoned
+    const remaining = this.segments.filter(current =>
+      current.id !== segment.id &&
+      (current.isFinal || current.speakerIdentity !== segment.speakerIdentity)
+    );
+
+    // Keep the position of the first interim so the line does not jump while it is refined
+    const entry = existing ? { ...segment, timestamp: existing.timestamp } : segment;
+    this.segments = [...remaining, entry].sort((a, b) => a.timestamp - b.timestamp);
+    this.events.emit('segments-changed', this.segments);
+
+    if (entry.isFinal) {
+      if (this.link) {
+        this.persist([entry]);
+      } else {
+        this.unsaved.push(entry);
+      }
+    }
+  }
+
+  // Starts a new transcript, e.g. for the next call in a long-lived PSTN room
+  clear(link: TranscriptLink | null = null): void {
+    this.segments = [];
+    this.unsaved = [];
+    this.link = link;
+    this.events.emit('segments-changed', this.segments);
+  }
+
+  stop(): void {
+    this.events.removeAllListeners();
+  }
+
+  private async persist(segments: TranscriptSegment[]): Promise<void> {
+    if (!this.link) return;
+
+    const link = this.link;
+    const { error } = await supabase
+      .from('call_transcript_segments')
+      .upsert(
+        segments.map(segment => ({
+          user_id: this.userId,
+          session_id: 'sessionId' in link ? link.sessionId : null,
+          call_id: 'callId' in link ? link.callId : null,
+          segment_id: segment.id,
+          speaker_identity: segment.speakerIdentity,
+          speaker_name: segment.speakerName,
+          body: segment.text,
+          spoken_at: new Date(segment.timestamp).toISOString(),
+        })),
+        { onConflict: 'user_id,session_id,call_id,segment_id', ignoreDuplicates: true }
+      );
+
+    if (error) {
+      console.error('Error storing transcript segments:', error);
+    }
+  }
+}
@@ -0,0 +1,38 @@
+type Listener = (...args: never[]) => void;
+
+export class TypedEventEmitter<Events extends Record<keyof Events, Listener>> {
+  private listeners = new Map<keyof Events, Set<Listener>>();
+
+  on<E extends keyof Events>(event: E, listener: Events[E]): () => void {
+    let listeners = this.listeners.get(event);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(event, listeners);
+    }
+    listeners.add(listener);
+
+    return () => this.off(event, listener);
+  }
+
+  off<E extends keyof Events>(event: E, listener: Events[E]): void {
+    this.listeners.get(event)?.delete(listener);
+  }
+
+  emit<E extends keyof Events>(event: E, ...args: Parameters<Events[E]>): void {
+    this.listeners.get(event)?.forEach(listener => {
+      try {
+        (listener as (...args: Parameters<Events[E]>) => void)(...args);
+      } catch (error) {
+        console.error(`❌ Error in "${String(event)}" listener:`, error);
+      }
+    });
+  }
+
+  listenerCount<E extends keyof Events>(event: E): number {
+    return this.listeners.get(event)?.size || 0;
+  }
+
+  removeAllListeners(): void {
+    this.listeners.clear();
+  }
+}
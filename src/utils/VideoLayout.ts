@@ -0,0 +1,16 @@
+export type VideoLayoutMode = 'gallery' | 'speaker';
+
+export const DEFAULT_VIDEO_LAYOUT: VideoLayoutMode = 'gallery';
+
+const VIDEO_LAYOUT_MODES: VideoLayoutMode[] = ['gallery', 'speaker'];
+
+const STORAGE_KEY_PREFIX = 'video_layout_';
+
+export function loadVideoLayout(userId: string): VideoLayoutMode {
+  const stored = localStorage.getItem(STORAGE_KEY_PREFIX + userId);
+  return VIDEO_LAYOUT_MODES.includes(stored as VideoLayoutMode) ? (stored as VideoLayoutMode) : DEFAULT_VIDEO_LAYOUT;
+}
+
+export function saveVideoLayout(userId: string, layout: VideoLayoutMode): void {
+  localStorage.setItem(STORAGE_KEY_PREFIX + userId, layout);
+}
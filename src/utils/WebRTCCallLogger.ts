@@ -1,4 +1,6 @@
 import { supabase } from './supabase';
+import { CallQualitySummary } from './CallQualityMonitor';
+import type { CallHoldStats } from './LiveKitClient';
 
 export interface WebRTCCallStartParams {
   userId: string;
@@ -11,6 +13,8 @@ export interface WebRTCCallEndParams {
   historyId: string;
   status: 'completed' | 'cancelled' | 'failed';
   durationSeconds: number;
+  qualitySummary?: CallQualitySummary | null;
+  holdStats?: CallHoldStats | null;
 }
 
 export async function logWebRTCCallStart(params: WebRTCCallStartParams): Promise<string | null> {
@@ -49,6 +53,8 @@ export async function logWebRTCCallEnd(params: WebRTCCallEndParams): Promise<boo
       .update({
         status: params.status,
         duration_seconds: params.durationSeconds,
+        ...(params.qualitySummary ? { quality_summary: params.qualitySummary } : {}),
+        ...(params.holdStats ? { hold_duration_seconds: params.holdStats.holdSeconds, hold_count: params.holdStats.holdCount } : {}),
       })
       .eq('id', params.historyId);
 
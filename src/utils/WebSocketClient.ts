@@ -1,11 +1,51 @@
-export interface CallStatusEvent {
-  event: 'call-status';
-  status: string;
-  callId: string;
-  phoneNumber: string;
-  timestamp: number;
+import {
+  CallStatusEvent,
+  MessageDispatcher,
+  MessageHandler,
+  ProtocolEvent,
+  ProtocolMessage,
+  encodeMessage,
+  parseMessage,
+} from './DataProtocol';
+import { TranscriptSegment, toTranscriptSegment } from './TranscriptService';
+import { ConnectionStatus } from './LiveKitClient';
+import { TypedEventEmitter } from './TypedEventEmitter';
+import { AudioJitterBuffer, JitterBufferStats } from './AudioJitterBuffer';
+
+export type { CallStatusEvent } from './DataProtocol';
+
+// Which backend connection the phone line uses, picked with VITE_VOICE_TRANSPORT
+export type VoiceTransport = 'livekit' | 'websocket';
+
+export function getVoiceTransport(): VoiceTransport {
+  return import.meta.env.VITE_VOICE_TRANSPORT === 'websocket' ? 'websocket' : 'livekit';
 }
 
+export interface VoiceSocketStats {
+  roundTripMs: number | null;
+  audioSent: number;
+  audioDropped: number;
+  playback: JitterBufferStats | null;
+}
+
+interface WebSocketClientEvents {
+  'connection-status': (status: ConnectionStatus) => void;
+}
+
+// The server sends 8 kHz μ-law
+const AUDIO_SAMPLE_RATE = 8000;
+const CONNECT_TIMEOUT_MS = 10000;
+const HEARTBEAT_INTERVAL_MS = 10000;
+// Nothing at all from the server for this long means the socket is dead, even if the browser
+// has not noticed yet
+const HEARTBEAT_TIMEOUT_MS = 25000;
+const MAX_RECONNECT_ATTEMPTS = 5;
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 15000;
+// Outgoing audio is dropped instead of queued once this much is waiting to be sent, which is
+// about two seconds of base64 μ-law. Late audio is worse than missing audio for a live call.
+const MAX_BUFFERED_AMOUNT = 24 * 1024;
+
 export class WebSocketClient {
   private url: string;
   private token: string;
@@ -13,40 +53,60 @@ export class WebSocketClient {
   private onLogMessage: (msg: string) => void;
   private onAudioReceived?: () => void;
   private onCallStatus?: (event: CallStatusEvent) => void;
+  private onTranscript?: (segment: TranscriptSegment) => void;
   private isReady = false;
   private sessionId: string = '';
-
-  // Audio playback queue system with precise timing
+  private callId: string = '';
+  private messageDispatcher = new MessageDispatcher();
+  private events = new TypedEventEmitter<WebSocketClientEvents>();
+
+  // Connection upkeep
+  private isIntentionalDisconnect = false;
+  private reconnectAttempt = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private lastMessageAt = 0;
+  private roundTripMs: number | null = null;
+
+  // Incoming audio goes through a jitter buffer so uneven arrival does not become gaps or lag
   private audioContext: AudioContext | null = null;
-  private nextPlayTime = 0;
-  private scheduledSources: AudioBufferSourceNode[] = [];
+  private jitterBuffer: AudioJitterBuffer | null = null;
 
   // Debugging
   private audioSentCount = 0;
+  private audioDroppedCount = 0;
   private lastSendLogTime = 0;
+  private lastDropLogTime = 0;
 
   constructor(
     url: string,
     token: string,
     onLogMessage: (msg: string) => void,
     onAudioReceived?: () => void,
-    onCallStatus?: (event: CallStatusEvent) => void
+    onCallStatus?: (event: CallStatusEvent) => void,
+    onTranscript?: (segment: TranscriptSegment) => void
   ) {
     this.url = url;
     this.token = token;
     this.onLogMessage = onLogMessage;
     this.onAudioReceived = onAudioReceived;
     this.onCallStatus = onCallStatus;
+    this.onTranscript = onTranscript;
 
     // Don't create AudioContext in constructor - will create it lazily on connect
     // This avoids mobile browser restrictions on AudioContext creation
   }
 
+  on<E extends keyof WebSocketClientEvents>(event: E, handler: WebSocketClientEvents[E]): () => void {
+    return this.events.on(event, handler);
+  }
+
   async connect(): Promise<void> {
     // Ensure AudioContext is initialized
     if (!this.audioContext || this.audioContext.state === 'closed') {
       try {
-        this.audioContext = new AudioContext({ sampleRate: 8000 });
+        this.audioContext = new AudioContext({ sampleRate: AUDIO_SAMPLE_RATE });
+        this.jitterBuffer = new AudioJitterBuffer(this.audioContext, AUDIO_SAMPLE_RATE);
         console.log('🔊 AudioContext initialized, state:', this.audioContext.state);
         this.onLogMessage(`AudioContext: ${this.audioContext.state}`);
 
@@ -62,13 +122,45 @@ export class WebSocketClient {
       }
     }
 
+    this.isIntentionalDisconnect = false;
+    this.reconnectAttempt = 0;
+    this.callId = 'web-client-' + Date.now();
+    this.setConnectionStatus({ status: 'connecting' });
+
+    try {
+      await this.openSocket();
+    } catch (error) {
+      this.setConnectionStatus({
+        status: 'disconnected',
+        cause: 'join-failed',
+        message: error instanceof Error ? error.message : 'Connection failed',
+      });
+      throw error;
+    }
+
+    this.startHeartbeat();
+    this.setConnectionStatus({ status: 'connected' });
+  }
+
+  // Opens a socket and resolves once the server is ready. When a sessionId is already known
+  // the start message asks the server to resume it.
+  private openSocket(): Promise<void> {
     return new Promise((resolve, reject) => {
+      let ws: WebSocket;
+      const fail = (error: Error) => {
+        clearTimeout(connectionTimeout);
+        if (this.ws === ws) {
+          this.ws = null;
+        }
+        ws.close();
+        reject(error);
+      };
+
       const connectionTimeout = setTimeout(() => {
-        if (this.ws && this.ws.readyState !== WebSocket.OPEN) {
-          this.ws.close();
-          reject(new Error('Connection timeout - server did not respond'));
+        if (ws.readyState !== WebSocket.OPEN || !this.isReady) {
+          fail(new Error('Connection timeout - server did not respond'));
         }
-      }, 10000); // 10 second timeout
+      }, CONNECT_TIMEOUT_MS);
 
       try {
         const wsUrl = `${this.url}?token=${encodeURIComponent(this.token)}`;
@@ -77,8 +169,9 @@ export class WebSocketClient {
         console.log('🔌 [WebSocketClient] Online status:', navigator.onLine);
         this.onLogMessage(`Connecting to ${this.url}...`);
         this.onLogMessage(`Platform: ${navigator.platform || 'Unknown'}`);
-        this.ws = new WebSocket(wsUrl);
-        console.log('🔌 [WebSocketClient] WebSocket created, initial state:', this.ws.readyState);
+        ws = new WebSocket(wsUrl);
+        this.ws = ws;
+        console.log('🔌 [WebSocketClient] WebSocket created, initial state:', ws.readyState);
       } catch (error) {
         clearTimeout(connectionTimeout);
         const errorMsg = error instanceof Error ? error.message : 'Invalid WebSocket URL';
@@ -88,91 +181,117 @@ export class WebSocketClient {
         return;
       }
 
-      this.ws.onopen = () => {
+      ws.onopen = () => {
         console.log('✅ WebSocket connected');
-        console.log('✅ [WebSocketClient] ReadyState:', this.ws?.readyState);
-        console.log('✅ [WebSocketClient] Protocol:', this.ws?.protocol);
-        console.log('✅ [WebSocketClient] Extensions:', this.ws?.extensions);
+        console.log('✅ [WebSocketClient] ReadyState:', ws.readyState);
+        console.log('✅ [WebSocketClient] Protocol:', ws.protocol);
+        console.log('✅ [WebSocketClient] Extensions:', ws.extensions);
         this.onLogMessage('WebSocket connected');
-        this.onLogMessage(`WS State: ${this.ws?.readyState}, Protocol: ${this.ws?.protocol || 'none'}`);
+        this.onLogMessage(`WS State: ${ws.readyState}, Protocol: ${ws.protocol || 'none'}`);
 
-        const startMessage = {
+        const startMessage: ProtocolMessage = {
           event: 'start',
-          callId: 'web-client-' + Date.now(),
+          callId: this.callId,
           metadata: {},
+          ...(this.sessionId ? { sessionId: this.sessionId } : {}),
         };
         console.log('📤 [WebSocketClient] Sending start event:', startMessage);
         this.send(startMessage);
 
-        this.onLogMessage('Sent start event, waiting for server ready...');
+        this.onLogMessage(this.sessionId
+          ? `Sent start event to resume ${this.sessionId}, waiting for server ready...`
+          : 'Sent start event, waiting for server ready...');
       };
 
-      this.ws.onmessage = (event) => {
-        try {
-          console.log(`📨 [WebSocketClient] Raw message received:`, event.data);
-          const data = JSON.parse(event.data);
+      ws.onmessage = (event) => {
+        if (this.ws !== ws) return;
+        this.lastMessageAt = Date.now();
 
+        const result = parseMessage(event.data);
+        if (!result.ok) {
+          console.warn(`⚠️ [WebSocketClient] Rejected message: ${result.error}`);
+          return;
+        }
+
+        const data = result.message;
+        if (data.event !== 'audio' && data.event !== 'ping' && data.event !== 'pong') {
           console.log(`📨 [WebSocketClient] Parsed event: ${data.event}`, data);
           this.onLogMessage(`Received: ${data.event}`);
+        }
 
-          if (data.event === 'ready') {
-            console.log('🟢 Server ready');
-
-            // CRITICAL: Save the sessionId from the server's ready event
-            if (data.sessionId) {
-              this.sessionId = data.sessionId;
-              console.log('✅ Session ID received from server:', this.sessionId);
-              this.onLogMessage(`Session ready: ${this.sessionId}`);
-            } else {
-              console.warn('⚠️ No sessionId in ready event');
-            }
+        if (data.event === 'ready') {
+          console.log('🟢 Server ready');
 
-            this.onLogMessage('Server ready - can send audio now');
-            this.isReady = true;
-            clearTimeout(connectionTimeout);
-            resolve();
-          } else if (data.event === 'error') {
-            console.error('❌ Server error:', data.message);
-            this.onLogMessage(`Server error: ${data.message}`);
-            clearTimeout(connectionTimeout);
-            reject(new Error(data.message || 'Server reported an error'));
-          } else if (data.event === 'audio') {
-            // Don't log to UI for every audio chunk - too noisy
-            this.playAudio(data.audio);
-          } else if (data.event === 'transcript') {
-            console.log('📝 Transcript:', data.text);
-            this.onLogMessage('Transcript: ' + data.text);
-          } else if (data.event === 'call-status') {
-            console.log('📞 Call status update:', data);
-            this.onLogMessage(`Call status: ${data.status} - ${data.phoneNumber}`);
-            if (this.onCallStatus) {
-              this.onCallStatus(data as CallStatusEvent);
+          // CRITICAL: Save the sessionId from the server's ready event
+          if (data.sessionId) {
+            if (this.sessionId && data.sessionId !== this.sessionId) {
+              console.warn(`⚠️ [WebSocketClient] Session ${this.sessionId} could not be resumed, server started ${data.sessionId}`);
+              this.onLogMessage('Previous session expired - started a new one');
             }
+            this.sessionId = data.sessionId;
+            console.log('✅ Session ID received from server:', this.sessionId);
+            this.onLogMessage(`Session ready: ${this.sessionId}`);
           } else {
-            console.log(`⚠️ [WebSocketClient] Unknown event: ${data.event}`, data);
+            console.warn('⚠️ No sessionId in ready event');
+          }
+
+          this.onLogMessage('Server ready - can send audio now');
+          this.isReady = true;
+          clearTimeout(connectionTimeout);
+          resolve();
+        } else if (data.event === 'error') {
+          console.error('❌ Server error:', data.message);
+          this.onLogMessage(`Server error: ${data.message}`);
+          if (!this.isReady) {
+            fail(new Error(data.message || 'Server reported an error'));
+          }
+        } else if (data.event === 'audio') {
+          // Don't log to UI for every audio chunk - too noisy
+          this.playAudio(data.audio, data.sequenceNumber);
+        } else if (data.event === 'ping') {
+          this.send({ event: 'pong', timestamp: data.timestamp });
+        } else if (data.event === 'pong') {
+          this.roundTripMs = Date.now() - data.timestamp;
+        } else if (data.event === 'transcript') {
+          console.log('📝 Transcript:', data.text);
+          this.onLogMessage('Transcript: ' + data.text);
+          if (this.onTranscript) {
+            this.onTranscript(toTranscriptSegment(data));
           }
-        } catch (error) {
-          console.error('❌ Error parsing message:', error);
+        } else if (data.event === 'call-status') {
+          console.log('📞 Call status update:', data);
+          this.onLogMessage(`Call status: ${data.status} - ${data.phoneNumber}`);
+          if (this.onCallStatus) {
+            this.onCallStatus(data);
+          }
+        } else {
+          console.log(`⚠️ [WebSocketClient] Unhandled event: ${data.event}`, data);
         }
+
+        this.messageDispatcher.dispatch(data);
       };
 
-      this.ws.onerror = (error) => {
+      ws.onerror = (error) => {
+        if (this.ws !== ws) return;
         console.error('❌ WebSocket error:', error);
-        console.error('❌ WebSocket readyState:', this.ws?.readyState);
+        console.error('❌ WebSocket readyState:', ws.readyState);
         console.error('❌ Navigator online:', navigator.onLine);
         console.error('❌ URL:', this.url);
 
-        const detailedError = `WebSocket error - ReadyState: ${this.ws?.readyState}, Online: ${navigator.onLine}`;
+        const detailedError = `WebSocket error - ReadyState: ${ws.readyState}, Online: ${navigator.onLine}`;
         this.onLogMessage(detailedError);
-        clearTimeout(connectionTimeout);
 
-        // Provide more specific error message
-        reject(new Error(`Connection failed - ${detailedError}`));
+        // Errors after ready are followed by a close, which starts the reconnect
+        if (!this.isReady) {
+          fail(new Error(`Connection failed - ${detailedError}`));
+        }
       };
 
-      this.ws.onclose = (event) => {
+      ws.onclose = (event) => {
         console.log(`🔌 WebSocket disconnected (code: ${event.code}, reason: ${event.reason})`);
         clearTimeout(connectionTimeout);
+        // A socket we already let go of, after disconnect() or a failed attempt
+        if (this.ws !== ws) return;
 
         if (!this.isReady) {
           // Connection closed before ready - this is an error
@@ -189,62 +308,159 @@ export class WebSocketClient {
           }
 
           this.onLogMessage(errorMsg);
-          reject(new Error(errorMsg));
+          fail(new Error(errorMsg));
         } else {
           this.onLogMessage('WebSocket disconnected');
+          this.handleConnectionLost();
         }
       };
     });
   }
 
-  send(data: unknown): void {
-    if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-      this.ws.send(JSON.stringify(data));
+  private handleConnectionLost(): void {
+    this.stopHeartbeat();
+    this.isReady = false;
+    if (this.ws) {
+      const ws = this.ws;
+      this.ws = null;
+      ws.close();
+    }
+
+    if (!this.isIntentionalDisconnect) {
+      void this.reconnect();
     }
   }
 
-  sendAudio(audioData: ArrayBuffer): void {
-    this.audioSentCount++;
+  // Retries with exponential backoff, resuming the saved session on each attempt
+  private async reconnect(): Promise<void> {
+    while (this.reconnectAttempt < MAX_RECONNECT_ATTEMPTS) {
+      this.reconnectAttempt++;
+      this.setConnectionStatus({
+        status: 'reconnecting',
+        attempt: this.reconnectAttempt,
+        maxAttempts: MAX_RECONNECT_ATTEMPTS,
+      });
+
+      const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** (this.reconnectAttempt - 1), RECONNECT_MAX_DELAY_MS);
+      console.log(`🔄 [WebSocketClient] Reconnecting in ${delay}ms (attempt ${this.reconnectAttempt}/${MAX_RECONNECT_ATTEMPTS})`);
+      this.onLogMessage(`Reconnecting (attempt ${this.reconnectAttempt} of ${MAX_RECONNECT_ATTEMPTS})...`);
+      await new Promise<void>(resolve => {
+        this.reconnectTimer = setTimeout(resolve, delay);
+      });
+      this.reconnectTimer = null;
+      if (this.isIntentionalDisconnect) return;
+
+      try {
+        await this.openSocket();
+        if (this.isIntentionalDisconnect) return;
+        this.reconnectAttempt = 0;
+        this.startHeartbeat();
+        this.setConnectionStatus({ status: 'connected' });
+        this.onLogMessage('Reconnected');
+        return;
+      } catch (error) {
+        console.warn('⚠️ [WebSocketClient] Reconnect attempt failed:', error);
+        if (this.isIntentionalDisconnect) return;
+      }
+    }
+
+    this.sessionId = '';
+    this.setConnectionStatus({
+      status: 'disconnected',
+      cause: 'reconnect-failed',
+      message: 'Lost connection to the voice server',
+    });
+  }
+
+  private startHeartbeat(): void {
+    this.stopHeartbeat();
+    this.lastMessageAt = Date.now();
+    this.heartbeatTimer = setInterval(() => {
+      if (Date.now() - this.lastMessageAt > HEARTBEAT_TIMEOUT_MS) {
+        console.warn('⚠️ [WebSocketClient] No heartbeat from server, reconnecting');
+        this.onLogMessage('Server stopped responding');
+        this.handleConnectionLost();
+        return;
+      }
+      this.send({ event: 'ping', timestamp: Date.now() });
+    }, HEARTBEAT_INTERVAL_MS);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  private setConnectionStatus(status: ConnectionStatus): void {
+    this.events.emit('connection-status', status);
+  }
+
+  send(message: ProtocolMessage): boolean {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+      return false;
+    }
 
+    try {
+      this.ws.send(encodeMessage(message));
+      return true;
+    } catch (error) {
+      console.error(`❌ [WebSocketClient] Failed to send ${message.event}:`, error);
+      return false;
+    }
+  }
+
+  onMessage<E extends ProtocolEvent>(event: E, handler: MessageHandler<E>): () => void {
+    return this.messageDispatcher.subscribe(event, handler);
+  }
+
+  sendAudio(audioData: ArrayBuffer): void {
     // Log every 5 seconds
     const now = Date.now();
     if (now - this.lastSendLogTime > 5000) {
-      console.log(`📤 [WebSocketClient] Sending audio - count: ${this.audioSentCount}, ws ready: ${this.ws?.readyState === WebSocket.OPEN}, server ready: ${this.isReady}`);
+      console.log(`📤 [WebSocketClient] Sending audio - count: ${this.audioSentCount}, dropped: ${this.audioDroppedCount}, ws ready: ${this.ws?.readyState === WebSocket.OPEN}, server ready: ${this.isReady}`);
       this.lastSendLogTime = now;
     }
 
-    if (!this.ws) {
-      console.error('❌ [WebSocketClient] Cannot send audio - WebSocket is null');
-      return;
-    }
-
-    if (this.ws.readyState !== WebSocket.OPEN) {
-      console.error(`❌ [WebSocketClient] Cannot send audio - WebSocket state: ${this.ws.readyState} (expected ${WebSocket.OPEN})`);
+    // Audio captured while reconnecting or while the socket is backed up is dropped, so the
+    // server never receives a burst of stale speech
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN || !this.isReady) {
+      this.dropAudio('not connected');
       return;
     }
 
-    if (!this.isReady) {
-      console.warn('⚠️ [WebSocketClient] Cannot send audio - server not ready yet');
+    if (this.ws.bufferedAmount > MAX_BUFFERED_AMOUNT) {
+      this.dropAudio(`${this.ws.bufferedAmount} bytes still buffered`);
       return;
     }
 
     try {
       const base64 = btoa(String.fromCharCode(...new Uint8Array(audioData)));
-      this.send({
-        event: 'media',
-        audio: base64,
-      });
+      if (this.send({ event: 'media', audio: base64 })) {
+        this.audioSentCount++;
+      }
     } catch (error) {
       console.error('❌ [WebSocketClient] Error encoding/sending audio:', error);
     }
   }
 
-  playAudio(base64Audio: string): void {
+  private dropAudio(reason: string): void {
+    this.audioDroppedCount++;
+
+    const now = Date.now();
+    if (now - this.lastDropLogTime > 5000) {
+      console.warn(`⚠️ [WebSocketClient] Dropping outgoing audio (${reason}), dropped so far: ${this.audioDroppedCount}`);
+      this.lastDropLogTime = now;
+    }
+  }
+
+  playAudio(base64Audio: string, sequenceNumber?: number): void {
     if (this.onAudioReceived) {
       this.onAudioReceived();
     }
 
-    if (!this.audioContext) {
+    if (!this.audioContext || !this.jitterBuffer) {
       console.error('AudioContext not initialized');
       return;
     }
@@ -256,63 +472,16 @@ export class WebSocketClient {
 
     // Decode base64 to bytes
     const binaryString = atob(base64Audio);
-    const bytes = new Uint8Array(binaryString.length);
+    const samples = new Float32Array(binaryString.length);
     for (let i = 0; i < binaryString.length; i++) {
-      bytes[i] = binaryString.charCodeAt(i);
+      samples[i] = this.mulawToLinear(binaryString.charCodeAt(i)) / 32768.0;
     }
 
-    // Create audio buffer from mulaw-encoded bytes
-    const audioBuffer = this.audioContext.createBuffer(1, bytes.length, 8000);
-    const channelData = audioBuffer.getChannelData(0);
-
-    for (let i = 0; i < bytes.length; i++) {
-      channelData[i] = this.mulawToLinear(bytes[i]) / 32768.0;
-    }
-
-    // Schedule audio chunk for seamless playback
-    const source = this.audioContext.createBufferSource();
-    source.buffer = audioBuffer;
-    source.connect(this.audioContext.destination);
-
-    // Calculate when to start this chunk
-    const currentTime = this.audioContext.currentTime;
-    const startTime = Math.max(currentTime, this.nextPlayTime);
-
-    // Schedule playback
-    source.start(startTime);
-
-    // Update next play time for seamless chaining
-    this.nextPlayTime = startTime + audioBuffer.duration;
-
-    // Clean up after playback
-    source.onended = () => {
-      const index = this.scheduledSources.indexOf(source);
-      if (index > -1) {
-        this.scheduledSources.splice(index, 1);
-      }
-    };
-
-    this.scheduledSources.push(source);
-
-    // Only log occasionally to reduce clutter
-    if (this.scheduledSources.length === 1 || this.scheduledSources.length % 10 === 0) {
-      console.log(`🎵 Audio scheduled at ${startTime.toFixed(3)}s, duration: ${audioBuffer.duration.toFixed(3)}s, queue: ${this.scheduledSources.length}`);
-    }
+    this.jitterBuffer.push(samples, sequenceNumber);
   }
 
   clearAudioQueue(): void {
-    // Stop all scheduled sources
-    for (const source of this.scheduledSources) {
-      try {
-        source.stop();
-      } catch (e) {
-        // Ignore if already stopped
-      }
-    }
-
-    // Clear state
-    this.scheduledSources = [];
-    this.nextPlayTime = 0;
+    this.jitterBuffer?.flush();
     console.log('🧹 Audio queue cleared');
   }
 
@@ -330,8 +499,23 @@ export class WebSocketClient {
     const wsState = this.ws ? ['CONNECTING', 'OPEN', 'CLOSING', 'CLOSED'][this.ws.readyState] : 'NULL';
     const contextState = this.audioContext?.state || 'NULL';
     const currentTime = this.audioContext?.currentTime.toFixed(2) || '0';
-    const nextPlay = this.nextPlayTime.toFixed(2);
-    return `WebSocket: ${wsState}, Server Ready: ${this.isReady}, AudioContext: ${contextState}, Scheduled: ${this.scheduledSources.length}, CurrentTime: ${currentTime}s, NextPlay: ${nextPlay}s, Sent: ${this.audioSentCount}`;
+    const nextPlay = this.jitterBuffer?.getNextPlayTime().toFixed(2) || '0';
+    const scheduled = this.jitterBuffer?.getScheduledCount() ?? 0;
+    const roundTrip = this.roundTripMs === null ? 'n/a' : `${this.roundTripMs}ms`;
+    const playback = this.jitterBuffer?.getStats();
+    const buffer = playback
+      ? `Buffer: ${playback.depthMs}/${playback.targetMs}ms, Underruns: ${playback.underruns}, Late: ${playback.lateFrames}, Concealed: ${playback.concealedFrames}, Trimmed: ${playback.droppedFrames}, Added latency: ${playback.addedLatencyMs}ms`
+      : 'Buffer: n/a';
+    return `WebSocket: ${wsState}, Server Ready: ${this.isReady}, AudioContext: ${contextState}, Scheduled: ${scheduled}, CurrentTime: ${currentTime}s, NextPlay: ${nextPlay}s, Sent: ${this.audioSentCount}, Dropped: ${this.audioDroppedCount}, RTT: ${roundTrip}, ${buffer}`;
+  }
+
+  getStats(): VoiceSocketStats {
+    return {
+      roundTripMs: this.roundTripMs,
+      audioSent: this.audioSentCount,
+      audioDropped: this.audioDroppedCount,
+      playback: this.jitterBuffer?.getStats() ?? null,
+    };
   }
 
   logStatus(): void {
@@ -351,6 +535,13 @@ export class WebSocketClient {
   }
 
   disconnect(): void {
+    this.isIntentionalDisconnect = true;
+    this.stopHeartbeat();
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
     // Clear audio queue and stop playback
     this.clearAudioQueue();
 
@@ -359,15 +550,19 @@ export class WebSocketClient {
       this.audioContext.close();
       this.audioContext = null;
     }
+    this.jitterBuffer = null;
 
     // Close WebSocket
     if (this.ws) {
-      this.ws.close();
+      const ws = this.ws;
       this.ws = null;
+      ws.close();
     }
 
     this.isReady = false;
     this.sessionId = '';
+    this.roundTripMs = null;
+    this.setConnectionStatus({ status: 'disconnected', cause: 'client-initiated', message: 'Disconnected' });
   }
 
   getSessionId(): string {
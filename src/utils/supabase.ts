@@ -1,4 +1,6 @@
 import { createClient } from '@supabase/supabase-js';
+import type { CallQualitySummary } from './CallQualityMonitor';
+import type { CallHoldStats } from './LiveKitClient';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL || '';
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY || '';
@@ -31,6 +33,13 @@ export interface CallHistoryRecord {
   session_id?: string;
   duration_seconds?: number;
   direction?: 'incoming' | 'outgoing';
+  quality_summary?: CallQualitySummary | null;
+  hold_duration_seconds?: number | null;
+  hold_count?: number | null;
+  transferred_from_call_id?: string | null;
+  transfer_type?: 'blind' | 'attended' | null;
+  recording_path?: string | null;
+  recording_duration_seconds?: number | null;
 }
 
 export interface PhoneContact {
@@ -56,10 +65,20 @@ export async function insertCallHistory(record: CallHistoryRecord) {
   return data;
 }
 
-export async function updateCallHistory(callId: string, status: string) {
+export async function updateCallHistory(
+  callId: string,
+  status: string,
+  qualitySummary?: CallQualitySummary | null,
+  holdStats?: CallHoldStats | null
+) {
   const { data, error } = await supabase
     .from('call_history')
-    .update({ status, updated_at: new Date().toISOString() })
+    .update({
+      status,
+      updated_at: new Date().toISOString(),
+      ...(qualitySummary ? { quality_summary: qualitySummary } : {}),
+      ...(holdStats ? { hold_duration_seconds: holdStats.holdSeconds, hold_count: holdStats.holdCount } : {}),
+    })
     .eq('call_id', callId)
     .select()
     .maybeSingle();
@@ -146,6 +165,12 @@ export interface CallInvitation {
   accepted_at?: string;
   ended_at?: string;
   expires_at: string;
+  // Set when the callee is being added to a call that is already running
+  session_id?: string | null;
+  ringing_at?: string | null;
+  // Ephemeral ECDH public keys of an end-to-end encrypted call
+  caller_public_key?: string | null;
+  callee_public_key?: string | null;
 }
 
 export interface UserPresence {
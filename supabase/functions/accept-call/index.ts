@@ -9,6 +9,8 @@ const corsHeaders = {
 interface AcceptCallRequest {
   invitation_id: string;
   callee_user_id: string;
+  // Required when the invitation carries a caller_public_key
+  callee_public_key?: string;
 }
 
 Deno.serve(async (req: Request) => {
@@ -20,7 +22,7 @@ Deno.serve(async (req: Request) => {
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
-    const { invitation_id, callee_user_id }: AcceptCallRequest = await req.json();
+    const { invitation_id, callee_user_id, callee_public_key }: AcceptCallRequest = await req.json();
 
     if (!invitation_id || !callee_user_id) {
       return new Response(
@@ -90,11 +92,19 @@ Deno.serve(async (req: Request) => {
       );
     }
 
+    if (anyInvitation.caller_public_key && !callee_public_key) {
+      return new Response(
+        JSON.stringify({ error: 'This call is end-to-end encrypted and needs a public key from the callee' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
     const { error: updateError } = await supabase
       .from('call_invitations')
       .update({
         status: 'accepted',
         accepted_at: new Date().toISOString(),
+        callee_public_key: anyInvitation.caller_public_key ? callee_public_key : null,
       })
       .eq('id', invitation_id)
       .eq('status', 'pending');
@@ -107,17 +117,25 @@ Deno.serve(async (req: Request) => {
       );
     }
 
-    const { data: session, error: sessionError } = await supabase
-      .from('call_sessions')
-      .insert({
-        caller_user_id: anyInvitation.caller_user_id,
-        callee_user_id: callee_user_id,
-        room_name: anyInvitation.room_name,
-        status: 'active',
-        invitation_id: invitation_id,
-      })
-      .select()
-      .maybeSingle();
+    // Someone added to a running call joins its existing session rather than starting one
+    const { data: session, error: sessionError } = anyInvitation.session_id
+      ? await supabase
+        .from('call_sessions')
+        .select()
+        .eq('id', anyInvitation.session_id)
+        .maybeSingle()
+      : await supabase
+        .from('call_sessions')
+        .insert({
+          caller_user_id: anyInvitation.caller_user_id,
+          callee_user_id: callee_user_id,
+          host_user_id: anyInvitation.caller_user_id,
+          room_name: anyInvitation.room_name,
+          status: 'active',
+          invitation_id: invitation_id,
+        })
+        .select()
+        .maybeSingle();
 
     if (sessionError) {
       console.warn('Failed to create call session:', sessionError);
@@ -132,6 +150,8 @@ Deno.serve(async (req: Request) => {
         caller_token: anyInvitation.caller_token,
         callee_token: anyInvitation.callee_token,
         session_id: session?.id,
+        host_user_id: session?.host_user_id ?? anyInvitation.caller_user_id,
+        caller_public_key: anyInvitation.caller_public_key ?? null,
       }),
       { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
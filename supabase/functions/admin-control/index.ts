@@ -0,0 +1,170 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { DataPacket_Kind, RoomServiceClient, TrackSource } from 'npm:livekit-server-sdk@2.6.1';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey',
+};
+
+type AdminAction = 'mute-audio' | 'toggle-video' | 'kick' | 'lower-hand';
+
+interface AdminControlRequest {
+  session_id: string;
+  action: AdminAction;
+  target_identity: string;
+  muted?: boolean;
+  enabled?: boolean;
+}
+
+function jsonResponse(body: Record<string, unknown>, status: number) {
+  return new Response(
+    JSON.stringify(body),
+    { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  );
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const livekitApiKey = Deno.env.get('LIVEKIT_API_KEY');
+    const livekitApiSecret = Deno.env.get('LIVEKIT_API_SECRET');
+    const livekitUrl = Deno.env.get('LIVEKIT_URL') || Deno.env.get('VITE_LIVEKIT_URL');
+
+    if (!livekitApiKey || !livekitApiSecret || !livekitUrl) {
+      throw new Error('LiveKit credentials not configured');
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return jsonResponse({ error: 'Missing or invalid authorization header' }, 401);
+    }
+
+    const { data: authData, error: authError } = await supabase.auth.getUser(authHeader.replace('Bearer ', ''));
+    if (authError || !authData.user) {
+      return jsonResponse({ error: 'A signed-in user token is required' }, 401);
+    }
+    const requesterId = authData.user.id;
+
+    const { session_id, action, target_identity, muted, enabled }: AdminControlRequest = await req.json();
+
+    if (!session_id || !action || !target_identity) {
+      return jsonResponse({ error: 'Missing required fields: session_id, action and target_identity are required' }, 400);
+    }
+
+    if (!['mute-audio', 'toggle-video', 'kick', 'lower-hand'].includes(action)) {
+      return jsonResponse({ error: `Unknown action: ${action}` }, 400);
+    }
+
+    if (action === 'mute-audio' && typeof muted !== 'boolean') {
+      return jsonResponse({ error: 'mute-audio requires a boolean "muted"' }, 400);
+    }
+
+    if (action === 'toggle-video' && typeof enabled !== 'boolean') {
+      return jsonResponse({ error: 'toggle-video requires a boolean "enabled"' }, 400);
+    }
+
+    if (target_identity === requesterId) {
+      return jsonResponse({ error: 'Use your own controls to change your media' }, 400);
+    }
+
+    const { data: session, error: sessionError } = await supabase
+      .from('call_sessions')
+      .select('id, room_name, status, caller_user_id, host_user_id')
+      .eq('id', session_id)
+      .maybeSingle();
+
+    if (sessionError) {
+      console.error('Database error:', sessionError);
+      return jsonResponse({ error: 'Database error' }, 500);
+    }
+
+    if (!session) {
+      return jsonResponse({ error: 'Call session not found' }, 404);
+    }
+
+    if (session.status === 'ended') {
+      return jsonResponse({ error: 'Call session has ended' }, 409);
+    }
+
+    const hostUserId = session.host_user_id || session.caller_user_id;
+    if (hostUserId !== requesterId) {
+      console.warn(`User ${requesterId} attempted ${action} in session ${session_id} without host role`);
+      return jsonResponse({ error: 'Only the call host can use admin controls' }, 403);
+    }
+
+    const roomService = new RoomServiceClient(
+      livekitUrl.replace('wss://', 'https://').replace('ws://', 'http://'),
+      livekitApiKey,
+      livekitApiSecret
+    );
+
+    let participant;
+    try {
+      participant = await roomService.getParticipant(session.room_name, target_identity);
+    } catch (error) {
+      console.warn(`Participant ${target_identity} not found in ${session.room_name}:`, error);
+      return jsonResponse({ error: 'Participant is not in the call' }, 404);
+    }
+
+    console.log(`Host ${requesterId} running ${action} on ${target_identity} in ${session.room_name}`);
+
+    if (action === 'kick') {
+      await roomService.removeParticipant(session.room_name, target_identity);
+      return jsonResponse({ success: true, message: 'Participant removed' }, 200);
+    }
+
+    const notify = async (payload: Record<string, unknown>) => {
+      const data = new TextEncoder().encode(JSON.stringify({ version: 1, event: 'admin-control', ...payload }));
+      await roomService.sendData(session.room_name, data, DataPacket_Kind.RELIABLE, {
+        destinationIdentities: [target_identity],
+      });
+    };
+
+    // The participant lowers the hand themselves so everyone else hears about it from them
+    if (action === 'lower-hand') {
+      await notify({ action: 'lower-hand', targetParticipant: target_identity });
+      return jsonResponse({ success: true, message: 'Hand lowered' }, 200);
+    }
+
+    if (action === 'mute-audio') {
+      const microphone = participant.tracks.find(track => track.source === TrackSource.MICROPHONE);
+      if (!microphone) {
+        return jsonResponse({ error: 'Participant has no microphone track' }, 404);
+      }
+
+      await roomService.mutePublishedTrack(session.room_name, target_identity, microphone.sid, muted!);
+      await notify({ action: 'mute-audio', targetParticipant: target_identity, muted });
+
+      return jsonResponse({ success: true, message: muted ? 'Participant muted' : 'Participant unmuted' }, 200);
+    }
+
+    const camera = participant.tracks.find(track => track.source === TrackSource.CAMERA);
+    if (!enabled && camera) {
+      await roomService.mutePublishedTrack(session.room_name, target_identity, camera.sid, true);
+    }
+
+    // An empty canPublishSources list means every source is allowed again
+    await roomService.updateParticipant(session.room_name, target_identity, undefined, {
+      canSubscribe: true,
+      canPublish: true,
+      canPublishData: true,
+      canPublishSources: enabled
+        ? []
+        : [TrackSource.MICROPHONE, TrackSource.SCREEN_SHARE, TrackSource.SCREEN_SHARE_AUDIO],
+    });
+    await notify({ action: 'toggle-video', targetParticipant: target_identity, enabled });
+
+    return jsonResponse({ success: true, message: enabled ? 'Participant video allowed' : 'Participant video disabled' }, 200);
+  } catch (error) {
+    console.error('Error in admin-control:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Internal server error' }, 500);
+  }
+});
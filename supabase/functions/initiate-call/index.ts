@@ -8,9 +8,14 @@ const corsHeaders = {
 };
 
 interface InitiateCallRequest {
+  // Must match the signed-in user from the Authorization header
   caller_user_id: string;
   callee_user_id: string;
   caller_display_name: string;
+  // Adds the callee to this ongoing call instead of starting a new one
+  session_id?: string;
+  // Ephemeral ECDH public key when the caller wants the call end-to-end encrypted
+  caller_public_key?: string;
 }
 
 Deno.serve(async (req: Request) => {
@@ -30,15 +35,40 @@ Deno.serve(async (req: Request) => {
 
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-    const { caller_user_id, callee_user_id, caller_display_name }: InitiateCallRequest = await req.json();
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return new Response(
+        JSON.stringify({ error: 'Missing or invalid authorization header' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: authData, error: authError } = await supabase.auth.getUser(authHeader.replace('Bearer ', ''));
+    if (authError || !authData.user) {
+      return new Response(
+        JSON.stringify({ error: 'A signed-in user token is required' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { caller_user_id: requestedCallerId, callee_user_id, caller_display_name, session_id, caller_public_key }: InitiateCallRequest = await req.json();
 
-    if (!caller_user_id || !callee_user_id) {
+    if (!callee_user_id) {
       return new Response(
         JSON.stringify({ error: 'Missing required fields' }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
+    // The caller is whoever signed the request, never a user id taken from the body
+    const caller_user_id = authData.user.id;
+    if (requestedCallerId && requestedCallerId !== caller_user_id) {
+      return new Response(
+        JSON.stringify({ error: 'You can only place calls as yourself' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
     if (caller_user_id === callee_user_id) {
       return new Response(
         JSON.stringify({ error: 'Cannot call yourself' }),
@@ -46,7 +76,85 @@ Deno.serve(async (req: Request) => {
       );
     }
 
-    const room_name = `call-${crypto.randomUUID()}`;
+    // A public key only belongs on a new call, never on a request to join an existing one
+    if (session_id && caller_public_key) {
+      return new Response(
+        JSON.stringify({ error: 'People cannot be added to an end-to-end encrypted call' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    let room_name = `call-${crypto.randomUUID()}`;
+
+    if (session_id) {
+      const { data: session } = await supabase
+        .from('call_sessions')
+        .select('room_name, status, caller_user_id, callee_user_id, host_user_id')
+        .eq('id', session_id)
+        .maybeSingle();
+
+      if (!session || session.status === 'ended') {
+        return new Response(
+          JSON.stringify({ error: 'Call has already ended' }),
+          { status: 410, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      // Anyone already in the call may add people: the original pair, the host, or someone added earlier
+      const { data: joinedInvitation } = await supabase
+        .from('call_invitations')
+        .select('id')
+        .eq('session_id', session_id)
+        .eq('callee_user_id', caller_user_id)
+        .eq('status', 'accepted')
+        .limit(1)
+        .maybeSingle();
+
+      const isInCall = [session.caller_user_id, session.callee_user_id, session.host_user_id].includes(caller_user_id)
+        || Boolean(joinedInvitation);
+      if (!isInCall) {
+        return new Response(
+          JSON.stringify({ error: 'Only people in the call can add participants' }),
+          { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      // Only the two people who agreed the key can decrypt, so nobody can be added to an
+      // encrypted call. Every invitation into the call shares its room, so any one carrying a
+      // public key marks the call as encrypted.
+      const { data: encryptedInvitation } = await supabase
+        .from('call_invitations')
+        .select('id')
+        .eq('room_name', session.room_name)
+        .not('caller_public_key', 'is', null)
+        .limit(1)
+        .maybeSingle();
+
+      if (encryptedInvitation) {
+        return new Response(
+          JSON.stringify({ error: 'People cannot be added to an end-to-end encrypted call' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const { data: openInvitation } = await supabase
+        .from('call_invitations')
+        .select('id')
+        .eq('session_id', session_id)
+        .eq('callee_user_id', callee_user_id)
+        .eq('status', 'pending')
+        .limit(1)
+        .maybeSingle();
+
+      if (openInvitation) {
+        return new Response(
+          JSON.stringify({ error: 'This user has already been invited' }),
+          { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      room_name = session.room_name;
+    }
 
     const { data: calleeProfile } = await supabase
       .from('user_profiles')
@@ -104,6 +212,8 @@ Deno.serve(async (req: Request) => {
         caller_token: callerJwt,
         callee_token: calleeJwt,
         status: 'pending',
+        session_id: session_id ?? null,
+        caller_public_key: caller_public_key ?? null,
       })
       .select()
       .single();
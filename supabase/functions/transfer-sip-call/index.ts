@@ -0,0 +1,224 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "npm:@supabase/supabase-js@2";
+// SIP transfer (REFER) is not available in the 2.6 server SDK the other functions pin
+import { AccessToken, RoomServiceClient, SipClient } from "npm:livekit-server-sdk@2.9.7";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+type TransferTarget =
+  | { type: "phone"; phoneNumber: string }
+  | { type: "user"; userId: string };
+
+interface TransferRequest {
+  roomName: string;
+  sipParticipantId: string;
+  target: TransferTarget;
+  // Optional; the transferring user is taken from the Authorization token
+  transferredBy?: string;
+  transferredByName?: string;
+}
+
+interface TransferResponse {
+  // Identifies the leg the call was handed to, for its call_history row
+  transferCallId: string;
+  // 'transferred' once the PSTN leg has left the room; 'pending' while a web user has yet to answer
+  status: "transferred" | "pending";
+  invitationId?: string;
+  message: string;
+}
+
+function jsonResponse(body: unknown, status: number): Response {
+  return new Response(
+    JSON.stringify(body),
+    {
+      status,
+      headers: {
+        ...corsHeaders,
+        "Content-Type": "application/json",
+      },
+    }
+  );
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const apiKey = Deno.env.get("LIVEKIT_API_KEY");
+    const apiSecret = Deno.env.get("LIVEKIT_API_SECRET");
+    const livekitUrl = Deno.env.get("LIVEKIT_URL") || Deno.env.get("VITE_LIVEKIT_URL");
+
+    if (!apiKey || !apiSecret) {
+      throw new Error("LiveKit API credentials not configured");
+    }
+
+    if (!livekitUrl) {
+      throw new Error("LiveKit URL not configured");
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return jsonResponse({ error: "Missing or invalid authorization header" }, 401);
+    }
+
+    const { data: authData, error: authError } = await supabase.auth.getUser(authHeader.replace("Bearer ", ""));
+    if (authError || !authData.user) {
+      return jsonResponse({ error: "A signed-in user token is required" }, 401);
+    }
+
+    const { roomName, sipParticipantId, target, transferredBy: requestedBy, transferredByName }: TransferRequest = await req.json();
+
+    if (!roomName || !sipParticipantId || !target) {
+      return jsonResponse({
+        error: "Missing required fields: roomName, sipParticipantId and target are required"
+      }, 400);
+    }
+
+    // The transferring user is whoever signed the request, never a user id taken from the body
+    const transferredBy = authData.user.id;
+    if (requestedBy && requestedBy !== transferredBy) {
+      return jsonResponse({ error: "You can only transfer calls as yourself" }, 403);
+    }
+
+    // The app opens each phone line in a room named after the user who owns it
+    if (!roomName.startsWith(`call-${transferredBy}-`)) {
+      return jsonResponse({ error: "You can only transfer calls on your own phone line" }, 403);
+    }
+
+    const livekitHttpUrl = livekitUrl.replace('wss://', 'https://').replace('ws://', 'http://');
+
+    const roomService = new RoomServiceClient(livekitHttpUrl, apiKey, apiSecret);
+    const sipParticipant = await roomService.getParticipant(roomName, sipParticipantId).catch(() => null);
+    if (!sipParticipant) {
+      return jsonResponse({ error: "That call is no longer connected to your phone line" }, 404);
+    }
+
+    const transferCallId = `call-${Date.now()}-${Math.random().toString(36).substring(7)}`;
+
+    if (target.type === "phone") {
+      // Validate E.164 phone number format
+      const e164Regex = /^\+[1-9]\d{1,14}$/;
+      if (!e164Regex.test(target.phoneNumber)) {
+        return jsonResponse({
+          error: "Invalid phone number format. Please use E.164 format (e.g., +1234567890)"
+        }, 400);
+      }
+
+      console.log(`Transferring SIP participant ${sipParticipantId} in room ${roomName} to ${target.phoneNumber}`);
+
+      const sipClient = new SipClient(livekitHttpUrl, apiKey, apiSecret);
+
+      // Sends a SIP REFER to the carrier; once accepted the PSTN leg leaves the room
+      try {
+        await sipClient.transferSipParticipant(roomName, sipParticipantId, `tel:${target.phoneNumber}`, {
+          playDialtone: true,
+        });
+      } catch (error) {
+        console.error(`LiveKit SIP transfer failed:`, error);
+        throw new Error(`Failed to transfer SIP participant: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+
+      const response: TransferResponse = {
+        transferCallId,
+        status: "transferred",
+        message: `Call transferred to ${target.phoneNumber}`,
+      };
+      return jsonResponse(response, 200);
+    }
+
+    if (target.type !== "user" || !target.userId) {
+      return jsonResponse({ error: "Transfer target must be a phone number or a user" }, 400);
+    }
+
+    if (target.userId === transferredBy) {
+      return jsonResponse({ error: "Cannot transfer a call to yourself" }, 400);
+    }
+
+    // A web user cannot receive a REFER, so they are invited into the room the PSTN leg is
+    // already in. The caller stays on hold until they join, then the transferring user leaves.
+    const { data: targetProfile } = await supabase
+      .from("user_profiles")
+      .select("display_name")
+      .eq("user_id", target.userId)
+      .maybeSingle();
+
+    const metadata = JSON.stringify({
+      created_by: transferredBy,
+      transferred_call_id: transferCallId,
+    });
+
+    const transferrerToken = new AccessToken(apiKey, apiSecret, {
+      identity: transferredBy,
+      name: transferredByName || transferredBy,
+      metadata,
+    });
+    transferrerToken.addGrant({
+      roomJoin: true,
+      room: roomName,
+      canPublish: true,
+      canSubscribe: true,
+    });
+
+    const targetToken = new AccessToken(apiKey, apiSecret, {
+      identity: target.userId,
+      name: targetProfile?.display_name || target.userId,
+      metadata,
+    });
+    targetToken.addGrant({
+      roomJoin: true,
+      room: roomName,
+      canPublish: true,
+      canSubscribe: true,
+    });
+
+    const { data: invitation, error: inviteError } = await supabase
+      .from("call_invitations")
+      .insert({
+        caller_user_id: transferredBy,
+        callee_user_id: target.userId,
+        room_name: roomName,
+        caller_token: await transferrerToken.toJwt(),
+        callee_token: await targetToken.toJwt(),
+        status: "pending",
+      })
+      .select()
+      .single();
+
+    if (inviteError) {
+      console.error("Error creating transfer invitation:", inviteError);
+      throw new Error("Failed to create transfer invitation");
+    }
+
+    console.log(`Invited ${target.userId} to take over SIP participant ${sipParticipantId} in room ${roomName}`);
+
+    const response: TransferResponse = {
+      transferCallId,
+      status: "pending",
+      invitationId: invitation.id,
+      message: `Waiting for ${targetProfile?.display_name || target.userId} to answer`,
+    };
+    return jsonResponse(response, 200);
+  } catch (error) {
+    console.error("Error transferring call:", error);
+
+    const errorMessage = error instanceof Error ? error.message : "Internal server error";
+
+    return jsonResponse({
+      error: errorMessage,
+      details: error instanceof Error ? error.stack : undefined
+    }, 500);
+  }
+});
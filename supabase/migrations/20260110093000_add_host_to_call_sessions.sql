@@ -0,0 +1,34 @@
+/*
+  # Add host role to call_sessions
+
+  1. Changes
+    - Add `host_user_id` (text) to `call_sessions` - the user allowed to run admin
+      controls (remote mute, video-off, kick) for the session
+    - Backfill existing sessions with the caller as host
+
+  2. Security
+    - Admin controls are enforced by the `admin-control` edge function, which
+      checks `host_user_id` against the authenticated user before calling
+      LiveKit's RoomService
+
+  3. Indexes
+    - Index on host_user_id for host lookups
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'call_sessions' AND column_name = 'host_user_id'
+  ) THEN
+    ALTER TABLE call_sessions ADD COLUMN host_user_id text;
+  END IF;
+END $$;
+
+UPDATE call_sessions
+SET host_user_id = caller_user_id
+WHERE host_user_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_call_sessions_host_user_id ON call_sessions(host_user_id);
+
+COMMENT ON COLUMN call_sessions.host_user_id IS 'User allowed to mute, disable video for, or remove other participants';
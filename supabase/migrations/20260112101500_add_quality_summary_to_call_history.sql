@@ -0,0 +1,35 @@
+/*
+  # Add Call Quality Summary to Call History
+
+  ## Changes Made
+
+  1. **New Column Added to call_history Table**
+     - `quality_summary` (jsonb): Aggregated network telemetry recorded by the client
+       when the call ends - per-participant RTT, jitter, packet loss, bitrate, codecs
+       and the share of time spent at each LiveKit connection quality level
+
+  2. **Performance Index**
+     - Partial index on the worst quality level seen, so support can find bad calls quickly
+
+  ## Security
+  - RLS policies remain unchanged - existing policies cover new column
+*/
+
+-- Add quality_summary column to call_history
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'call_history' AND column_name = 'quality_summary'
+  ) THEN
+    ALTER TABLE call_history ADD COLUMN quality_summary jsonb;
+  END IF;
+END $$;
+
+-- Create index for finding poor-quality calls
+CREATE INDEX IF NOT EXISTS idx_call_history_worst_quality
+  ON call_history ((quality_summary->>'worstQuality'))
+  WHERE quality_summary IS NOT NULL;
+
+-- Add comment for documentation
+COMMENT ON COLUMN call_history.quality_summary IS 'Aggregated WebRTC network stats for the call (RTT, jitter, packet loss, bitrate, codec, quality levels)';
@@ -0,0 +1,77 @@
+/*
+  # Call Recordings Storage
+
+  ## Overview
+  Client-side call recordings (WebM/Opus, optionally with video) are uploaded to a
+  private storage bucket and linked to the call_history row they belong to.
+
+  ## Changes Made
+
+  1. **Storage Bucket**
+     - `call-recordings` (private): Objects are stored under `<user_id>/<file name>`
+
+  2. **New Columns Added to call_history Table**
+     - `recording_path` (text, nullable): Object path inside the call-recordings bucket
+     - `recording_duration_seconds` (integer, nullable): Length of the recording
+
+  ## Security
+  - Users can upload, read and delete only objects inside their own `<user_id>/` folder
+  - RLS policies on call_history remain unchanged - existing policies cover new columns
+*/
+
+-- Create private bucket for call recordings
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('call-recordings', 'call-recordings', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- Policy: Users can upload recordings into their own folder
+CREATE POLICY "Users can upload own call recordings"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'call-recordings'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+-- Policy: Users can read their own recordings
+CREATE POLICY "Users can read own call recordings"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'call-recordings'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+-- Policy: Users can delete their own recordings
+CREATE POLICY "Users can delete own call recordings"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'call-recordings'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+-- Add recording columns to call_history
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'call_history' AND column_name = 'recording_path'
+  ) THEN
+    ALTER TABLE call_history ADD COLUMN recording_path text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'call_history' AND column_name = 'recording_duration_seconds'
+  ) THEN
+    ALTER TABLE call_history ADD COLUMN recording_duration_seconds integer;
+  END IF;
+END $$;
+
+-- Add comments for documentation
+COMMENT ON COLUMN call_history.recording_path IS 'Path of the client-side recording in the call-recordings storage bucket';
+COMMENT ON COLUMN call_history.recording_duration_seconds IS 'Duration of the client-side recording in seconds';
@@ -0,0 +1,75 @@
+/*
+  # Create Call Chat Messages Table
+
+  ## Overview
+  Stores text messages exchanged over the LiveKit data channel during a web call so the
+  conversation can be read again from the call history after the call has ended.
+
+  ## Tables Created
+
+  1. **call_chat_messages**
+     - `id` (uuid, primary key): Message id generated by the sending client (also used for delivery acks)
+     - `session_id` (uuid, required): Reference to call_sessions table
+     - `sender_user_id` (text, required): User id (LiveKit identity) of the sender
+     - `body` (text, required): Message text
+     - `sent_at` (timestamptz, required): Client timestamp when the message was sent
+     - `created_at` (timestamptz): Row creation timestamp
+
+  ## Indexes
+  - Messages of a session in send order
+
+  ## Security
+  - RLS enabled
+  - Caller and callee of a session can read its messages
+  - Users can only insert messages they sent, into sessions they belong to
+*/
+
+-- Create call_chat_messages table
+CREATE TABLE IF NOT EXISTS call_chat_messages (
+  id UUID PRIMARY KEY,
+  session_id UUID NOT NULL REFERENCES call_sessions(id) ON DELETE CASCADE,
+  sender_user_id TEXT NOT NULL,
+  body TEXT NOT NULL CHECK (char_length(body) BETWEEN 1 AND 4000),
+  sent_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Create index for loading a session's conversation
+CREATE INDEX IF NOT EXISTS idx_call_chat_messages_session ON call_chat_messages(session_id, sent_at);
+
+-- Enable RLS
+ALTER TABLE call_chat_messages ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Session participants can read the conversation
+CREATE POLICY "Session participants can view chat messages"
+  ON call_chat_messages
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM call_sessions
+      WHERE call_sessions.id = call_chat_messages.session_id
+      AND (call_sessions.caller_user_id = auth.uid()::text OR call_sessions.callee_user_id = auth.uid()::text)
+    )
+  );
+
+-- Policy: Session participants can store the messages they send
+CREATE POLICY "Session participants can insert own chat messages"
+  ON call_chat_messages
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    sender_user_id = auth.uid()::text
+    AND EXISTS (
+      SELECT 1 FROM call_sessions
+      WHERE call_sessions.id = call_chat_messages.session_id
+      AND (call_sessions.caller_user_id = auth.uid()::text OR call_sessions.callee_user_id = auth.uid()::text)
+    )
+  );
+
+-- Add comments for documentation
+COMMENT ON TABLE call_chat_messages IS 'In-call chat messages sent over the LiveKit data channel';
+COMMENT ON COLUMN call_chat_messages.id IS 'Message id generated by the sending client, shared with delivery acks';
+COMMENT ON COLUMN call_chat_messages.session_id IS 'Reference to the call session';
+COMMENT ON COLUMN call_chat_messages.sender_user_id IS 'User id (LiveKit identity) of the sender';
+COMMENT ON COLUMN call_chat_messages.sent_at IS 'Client timestamp when the message was sent';
@@ -0,0 +1,96 @@
+/*
+  # Create Call Transcript Segments Table
+
+  ## Overview
+  Stores the final transcript segments received during a call so the conversation can be
+  reviewed and searched from the call history. Every participant stores their own copy of
+  the transcript, which keeps access control simple and works for PSTN calls that have no
+  call session.
+
+  ## Tables Created
+
+  1. **call_transcript_segments**
+     - `id` (uuid, primary key): Row id
+     - `user_id` (text, required): User who received and stored the segment
+     - `session_id` (uuid, optional): Reference to call_sessions table (web calls)
+     - `call_id` (text, optional): Provider call id, matching call_history.call_id (PSTN calls)
+     - `segment_id` (text, required): Segment id sent by the transcriber, unique per user and call
+     - `speaker_identity` (text, optional): LiveKit identity of the speaker
+     - `speaker_name` (text, optional): Display name of the speaker (e.g. SIP caller name)
+     - `body` (text, required): Transcribed text
+     - `spoken_at` (timestamptz, required): When the segment was spoken
+     - `created_at` (timestamptz): Row creation timestamp
+
+  ## Indexes
+  - Segments of a web call session in spoken order
+  - Segments of a PSTN call in spoken order
+  - Full text search over the transcribed text
+
+  ## Security
+  - RLS enabled
+  - Users can only read and insert their own transcript segments
+  - Web call segments can only be stored by participants of the session
+*/
+
+-- Create call_transcript_segments table
+CREATE TABLE IF NOT EXISTS call_transcript_segments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL,
+  session_id UUID REFERENCES call_sessions(id) ON DELETE CASCADE,
+  call_id TEXT,
+  segment_id TEXT NOT NULL,
+  speaker_identity TEXT,
+  speaker_name TEXT,
+  body TEXT NOT NULL CHECK (char_length(body) > 0),
+  spoken_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT call_transcript_segments_link CHECK (session_id IS NOT NULL OR call_id IS NOT NULL),
+  -- Transcribers may restart segment ids for every call. Only one of session_id and call_id is
+  -- set, so NULLs must compare equal for the key to catch duplicates.
+  CONSTRAINT call_transcript_segments_unique_segment UNIQUE NULLS NOT DISTINCT (user_id, session_id, call_id, segment_id)
+);
+
+-- Create indexes for loading a call's transcript
+CREATE INDEX IF NOT EXISTS idx_call_transcript_segments_session ON call_transcript_segments(session_id, spoken_at);
+CREATE INDEX IF NOT EXISTS idx_call_transcript_segments_call ON call_transcript_segments(call_id, spoken_at);
+
+-- Create index for searching transcripts
+CREATE INDEX IF NOT EXISTS idx_call_transcript_segments_search
+  ON call_transcript_segments USING GIN (to_tsvector('simple', body));
+
+-- Enable RLS
+ALTER TABLE call_transcript_segments ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users can read their own transcripts
+CREATE POLICY "Users can view own transcript segments"
+  ON call_transcript_segments
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid()::text);
+
+-- Policy: Users can store segments of calls they took part in
+CREATE POLICY "Users can insert own transcript segments"
+  ON call_transcript_segments
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid()::text
+    AND (
+      session_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM call_sessions
+        WHERE call_sessions.id = call_transcript_segments.session_id
+        AND (call_sessions.caller_user_id = auth.uid()::text OR call_sessions.callee_user_id = auth.uid()::text)
+      )
+    )
+  );
+
+-- Add comments for documentation
+COMMENT ON TABLE call_transcript_segments IS 'Final transcript segments received during a call, one copy per participant';
+COMMENT ON COLUMN call_transcript_segments.user_id IS 'User who received and stored the segment';
+COMMENT ON COLUMN call_transcript_segments.session_id IS 'Reference to the call session (web calls)';
+COMMENT ON COLUMN call_transcript_segments.call_id IS 'Provider call id matching call_history.call_id (PSTN calls)';
+COMMENT ON COLUMN call_transcript_segments.segment_id IS 'Segment id sent by the transcriber';
+COMMENT ON COLUMN call_transcript_segments.speaker_identity IS 'LiveKit identity of the speaker';
+COMMENT ON COLUMN call_transcript_segments.speaker_name IS 'Display name of the speaker, e.g. the SIP caller name';
+COMMENT ON COLUMN call_transcript_segments.spoken_at IS 'When the segment was spoken';
@@ -0,0 +1,33 @@
+/*
+  # Add Hold Time to Call History
+
+  ## Changes Made
+
+  1. **New Columns Added to call_history Table**
+     - `hold_duration_seconds` (integer, nullable): Part of `duration_seconds` the call spent
+       on hold, by either side; talk time is `duration_seconds - hold_duration_seconds`
+     - `hold_count` (integer, nullable): How many times the call was put on hold
+
+  ## Security
+  - RLS policies remain unchanged - existing policies cover new columns
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'call_history' AND column_name = 'hold_duration_seconds'
+  ) THEN
+    ALTER TABLE call_history ADD COLUMN hold_duration_seconds integer;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'call_history' AND column_name = 'hold_count'
+  ) THEN
+    ALTER TABLE call_history ADD COLUMN hold_count integer;
+  END IF;
+END $$;
+
+COMMENT ON COLUMN call_history.hold_duration_seconds IS 'Seconds of the call spent on hold, included in duration_seconds';
+COMMENT ON COLUMN call_history.hold_count IS 'Number of times the call was put on hold';
@@ -0,0 +1,38 @@
+/*
+  # Add Transfer Links to Call History
+
+  ## Changes Made
+
+  1. **New Columns Added to call_history Table**
+     - `transferred_from_call_id` (text, nullable): On the leg a call was transferred to, the
+       `call_id` of the original call; the original call keeps its row with status `transferred`
+     - `transfer_type` (text, nullable): How the call was handed over, 'blind' or 'attended'
+
+  2. **Indexes**
+     - Index on transferred_from_call_id so both legs of a transfer can be looked up together
+
+  ## Security
+  - RLS policies remain unchanged - existing policies cover new columns
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'call_history' AND column_name = 'transferred_from_call_id'
+  ) THEN
+    ALTER TABLE call_history ADD COLUMN transferred_from_call_id text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'call_history' AND column_name = 'transfer_type'
+  ) THEN
+    ALTER TABLE call_history ADD COLUMN transfer_type text CHECK (transfer_type IN ('blind', 'attended'));
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_call_history_transferred_from_call_id ON call_history(transferred_from_call_id);
+
+COMMENT ON COLUMN call_history.transferred_from_call_id IS 'call_id of the call this leg was transferred from';
+COMMENT ON COLUMN call_history.transfer_type IS 'How the call was transferred: blind or attended';
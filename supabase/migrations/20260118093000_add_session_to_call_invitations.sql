@@ -0,0 +1,45 @@
+/*
+  # Invite More People Into an Ongoing Call
+
+  ## Changes Made
+
+  1. **call_invitations.room_name No Longer Unique**
+     - Several invitations can now point at the same room when people are added to a call
+       that is already running
+
+  2. **New Columns Added to call_invitations Table**
+     - `session_id` (uuid, nullable): The `call_sessions` row of the call the callee is being
+       added to; null for the invitation that started the call
+     - `ringing_at` (timestamptz, nullable): When the invitation reached one of the callee's
+       devices, so everyone in the call can tell "invited" from "ringing"
+
+  3. **Indexes**
+     - Index on session_id to list everyone invited into a call
+
+  ## Security
+  - RLS policies remain unchanged - existing policies cover new columns
+*/
+
+ALTER TABLE call_invitations DROP CONSTRAINT IF EXISTS call_invitations_room_name_key;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'call_invitations' AND column_name = 'session_id'
+  ) THEN
+    ALTER TABLE call_invitations ADD COLUMN session_id uuid REFERENCES call_sessions(id) ON DELETE CASCADE;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'call_invitations' AND column_name = 'ringing_at'
+  ) THEN
+    ALTER TABLE call_invitations ADD COLUMN ringing_at timestamptz;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_call_invitations_session_id ON call_invitations(session_id);
+
+COMMENT ON COLUMN call_invitations.session_id IS 'Call session the callee is invited into; null when the invitation started the call';
+COMMENT ON COLUMN call_invitations.ringing_at IS 'When the invitation was delivered to one of the callee''s devices';
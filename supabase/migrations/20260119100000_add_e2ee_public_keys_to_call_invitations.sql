@@ -0,0 +1,40 @@
+/*
+  # End-to-End Encryption Key Exchange for Web Calls
+
+  ## Changes Made
+
+  1. **New Columns Added to call_invitations Table**
+     - `caller_public_key` (text, nullable): The caller's ephemeral ECDH public key, set when
+       the caller asks for an end-to-end encrypted call
+     - `callee_public_key` (text, nullable): The callee's ephemeral ECDH public key, set when
+       the callee accepts an encrypted call
+
+  2. **How the Key Is Agreed**
+     - Both sides derive the same media key from their own private key and the other side's
+       public key. Private keys and the derived key never leave the browser, so nothing stored
+       here is enough to decrypt a call
+
+  ## Security
+  - RLS policies remain unchanged - existing policies cover new columns
+  - Only public keys are stored
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'call_invitations' AND column_name = 'caller_public_key'
+  ) THEN
+    ALTER TABLE call_invitations ADD COLUMN caller_public_key text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'call_invitations' AND column_name = 'callee_public_key'
+  ) THEN
+    ALTER TABLE call_invitations ADD COLUMN callee_public_key text;
+  END IF;
+END $$;
+
+COMMENT ON COLUMN call_invitations.caller_public_key IS 'Caller''s ephemeral ECDH public key (base64) for an end-to-end encrypted call; null when the call is not encrypted';
+COMMENT ON COLUMN call_invitations.callee_public_key IS 'Callee''s ephemeral ECDH public key (base64), set on accepting an encrypted call';
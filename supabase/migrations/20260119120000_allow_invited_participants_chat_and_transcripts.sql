@@ -0,0 +1,91 @@
+/*
+  # Let People Added to a Call Use Its Chat and Transcript
+
+  ## Changes Made
+
+  1. **call_chat_messages Policies Recreated**
+     - "Session participants can view chat messages" and "Session participants can insert own
+       chat messages" now also cover users with an accepted invitation into the session
+
+  2. **call_transcript_segments Insert Policy Recreated**
+     - "Users can insert own transcript segments" now also accepts segments for sessions the
+       user joined through an accepted invitation
+
+  ## Security
+  - Participants are still limited to sessions they are actually in: the original caller and
+    callee, or someone whose invitation with that session_id was accepted
+  - Pending, declined and missed invitations grant nothing
+*/
+
+DROP POLICY IF EXISTS "Session participants can view chat messages" ON call_chat_messages;
+DROP POLICY IF EXISTS "Session participants can insert own chat messages" ON call_chat_messages;
+DROP POLICY IF EXISTS "Users can insert own transcript segments" ON call_transcript_segments;
+
+-- Policy: Session participants, including people added to the call, can read the conversation
+CREATE POLICY "Session participants can view chat messages"
+  ON call_chat_messages
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM call_sessions
+      WHERE call_sessions.id = call_chat_messages.session_id
+      AND (call_sessions.caller_user_id = auth.uid()::text OR call_sessions.callee_user_id = auth.uid()::text)
+    )
+    OR EXISTS (
+      SELECT 1 FROM call_invitations
+      WHERE call_invitations.session_id = call_chat_messages.session_id
+      AND call_invitations.callee_user_id = auth.uid()::text
+      AND call_invitations.status = 'accepted'
+    )
+  );
+
+-- Policy: Session participants, including people added to the call, can store the messages they send
+CREATE POLICY "Session participants can insert own chat messages"
+  ON call_chat_messages
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    sender_user_id = auth.uid()::text
+    AND (
+      EXISTS (
+        SELECT 1 FROM call_sessions
+        WHERE call_sessions.id = call_chat_messages.session_id
+        AND (call_sessions.caller_user_id = auth.uid()::text OR call_sessions.callee_user_id = auth.uid()::text)
+      )
+      OR EXISTS (
+        SELECT 1 FROM call_invitations
+        WHERE call_invitations.session_id = call_chat_messages.session_id
+        AND call_invitations.callee_user_id = auth.uid()::text
+        AND call_invitations.status = 'accepted'
+      )
+    )
+  );
+
+-- Policy: Users can store segments of calls they took part in, including calls they were added to
+CREATE POLICY "Users can insert own transcript segments"
+  ON call_transcript_segments
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid()::text
+    AND (
+      session_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM call_sessions
+        WHERE call_sessions.id = call_transcript_segments.session_id
+        AND (call_sessions.caller_user_id = auth.uid()::text OR call_sessions.callee_user_id = auth.uid()::text)
+      )
+      OR EXISTS (
+        SELECT 1 FROM call_invitations
+        WHERE call_invitations.session_id = call_transcript_segments.session_id
+        AND call_invitations.callee_user_id = auth.uid()::text
+        AND call_invitations.status = 'accepted'
+      )
+    )
+  );
+
+-- Add comments for documentation
+COMMENT ON POLICY "Session participants can view chat messages" ON call_chat_messages IS 'Caller, callee and anyone whose invitation into the session was accepted';
+COMMENT ON POLICY "Session participants can insert own chat messages" ON call_chat_messages IS 'Own messages only, in sessions the sender is part of';
+COMMENT ON POLICY "Users can insert own transcript segments" ON call_transcript_segments IS 'Own segments only, for PSTN calls or sessions the user is part of';
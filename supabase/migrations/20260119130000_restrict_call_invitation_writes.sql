@@ -0,0 +1,38 @@
+/*
+  # Restrict Writes to call_invitations
+
+  ## Changes Made
+
+  1. **Insert Policy Removed**
+     - "Users can create call invitations" allowed any row to be inserted. Invitations are
+       created by the initiate-call edge function, which uses the service role
+
+  2. **Update Policy Replaced**
+     - "Users can update their invitations" allowed any column of any row to be changed
+     - Replaced by "Callees can mark their invitations ringing": the callee may update their own
+       invitations, and only the `ringing_at` column
+
+  ## Security
+  - Accepted invitations grant access to a session's chat and transcript and count as being in
+    the call, so `status`, `session_id` and the other columns can only be written by the
+    accept-call, reject-call and initiate-call edge functions
+  - The service role bypasses RLS and keeps full access
+*/
+
+DROP POLICY IF EXISTS "Users can create call invitations" ON call_invitations;
+DROP POLICY IF EXISTS "Users can update their invitations" ON call_invitations;
+
+-- Column privileges limit what the update policy can touch
+REVOKE INSERT, UPDATE ON call_invitations FROM anon, authenticated;
+GRANT UPDATE (ringing_at) ON call_invitations TO authenticated;
+
+-- Policy: Callees can record that an invitation reached one of their devices
+CREATE POLICY "Callees can mark their invitations ringing"
+  ON call_invitations
+  FOR UPDATE
+  TO authenticated
+  USING (callee_user_id = auth.uid()::text)
+  WITH CHECK (callee_user_id = auth.uid()::text);
+
+-- Add comments for documentation
+COMMENT ON POLICY "Callees can mark their invitations ringing" ON call_invitations IS 'Callee only, and only ringing_at; everything else is written by edge functions';